@@ -0,0 +1,54 @@
+// 比較のAPI（画面で保存した設定のJSONと左右のファイルを multipart/form-data で受け取る）
+//
+// 項目: left, right（ファイル）, job（設定のJSON）, preset, engine, headerRow, autoHeader, leftSheet, rightSheet, maxUnmatched, format
+// format: report（既定。監査証跡用のレポート）| merged（比較結果のxlsx）| json（結果の概要のみ）
+// 左のみ・右のみの行数（突合しなかった重複キーの行を含む）が maxUnmatched を超えた場合は 422 で結果の概要を返す
+
+import ExcelJS from "exceljs";
+import { buildCompareReportWorkbook, buildMergedWorkbook, toSafeFileName } from "@/lib/excel-export";
+import { parseUnmatchedLimit, readJobSource, resolveCompareJobSettings, runCompareJob, selectJobPreset, summarizeCompareJob, type CompareJobSettings } from "@/lib/job";
+import { asRequestError, errorResponse, fileResponse, getFormat, getFormFile, getFormText, readFormData, readJobRequest, XLSX_CONTENT_TYPE } from "@/lib/job-api";
+import { loadServerWasmModule } from "@/lib/server-engine";
+import { loadEngine } from "@/lib/ts-engine";
+
+export const runtime = "nodejs";
+
+const formats = ["report", "merged", "json"] as const;
+
+export async function POST(request: Request): Promise<Response> {
+  try {
+    const form = await readFormData(request);
+    const format = getFormat(form, request, formats);
+    const job = await readJobRequest(form);
+    const leftFile = getFormFile(form, "left");
+    const rightFile = getFormFile(form, "right");
+    const maxUnmatched = getFormText(form, "maxUnmatched");
+    const unmatchedLimit = maxUnmatched !== undefined ? await asRequestError(() => parseUnmatchedLimit(maxUnmatched)) : null;
+
+    const left = await asRequestError(() => readJobSource(leftFile, getFormText(form, "leftSheet"), job.importOptions));
+    const right = await asRequestError(() => readJobSource(rightFile, getFormText(form, "rightSheet"), job.importOptions));
+    const preset = await asRequestError(() => selectJobPreset(job.presets, "compare", [left.data.headers, right.data.headers], job.presetName));
+    const settings = resolveCompareJobSettings(preset.settings as Partial<CompareJobSettings>);
+    const engine = await loadEngine(job.engineMode, loadServerWasmModule);
+
+    const result = runCompareJob(engine, left, right, settings);
+    const summary = summarizeCompareJob(preset, engine, left, right, result, unmatchedLimit);
+    if (!summary.passed) {
+      return Response.json(summary, { status: 422 });
+    }
+    if (format === "json") {
+      return Response.json(summary);
+    }
+
+    const sheetNames = `${toSafeFileName(left.sheet)}_${toSafeFileName(right.sheet)}`;
+    if (format === "report") {
+      // レポートは統合したすべての列を出力
+      const workbook = buildCompareReportWorkbook(ExcelJS, result.merged, result.highlights, result.output.report, result.output.log, settings.excel);
+      return fileResponse(await workbook.xlsx.writeBuffer(), `compare_report_${sheetNames}.xlsx`, XLSX_CONTENT_TYPE);
+    }
+    const workbook = buildMergedWorkbook(ExcelJS, result.table, result.highlights, settings.compareColumns, settings.columnFormats, settings.excel);
+    return fileResponse(await workbook.xlsx.writeBuffer(), `merged_result_${sheetNames}.xlsx`, XLSX_CONTENT_TYPE);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
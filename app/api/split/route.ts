@@ -0,0 +1,44 @@
+// 分割のAPI（画面で保存した設定のJSONと元のファイルを multipart/form-data で受け取る）
+//
+// 項目: input（ファイル）, job（設定のJSON）, preset, engine, headerRow, autoHeader, sheet, format
+// format: zip（分割したファイルをまとめたzip）| workbook（キーごとのシートと一覧シートの1つのxlsx）| json（結果の概要のみ）
+// format が無い場合は設定の出力形式（outputMode）に従う。outputMode が both の場合は、画面と同じく1つのブックもzipに含める
+
+import ExcelJS from "exceljs";
+import { buildSplitBook, buildSplitZip, toSafeFileName } from "@/lib/excel-export";
+import { readJobSource, resolveSplitJobSettings, runSplitJob, selectJobPreset, summarizeSplitJob, type SplitJobSettings } from "@/lib/job";
+import { asRequestError, errorResponse, fileResponse, getFormat, getFormFile, getFormText, readFormData, readJobRequest, XLSX_CONTENT_TYPE } from "@/lib/job-api";
+import { loadServerWasmModule } from "@/lib/server-engine";
+import { loadEngine } from "@/lib/ts-engine";
+
+export const runtime = "nodejs";
+
+const formats = ["zip", "workbook", "json"] as const;
+
+export async function POST(request: Request): Promise<Response> {
+  try {
+    const form = await readFormData(request);
+    const job = await readJobRequest(form);
+    const inputFile = getFormFile(form, "input");
+
+    const source = await asRequestError(() => readJobSource(inputFile, getFormText(form, "sheet"), job.importOptions));
+    const preset = await asRequestError(() => selectJobPreset(job.presets, "split", [source.data.headers], job.presetName));
+    const settings = resolveSplitJobSettings(preset.settings as Partial<SplitJobSettings>);
+    const format = getFormat(form, request, formats, settings.outputMode === "workbook" ? "workbook" : "zip");
+    const engine = await loadEngine(job.engineMode, loadServerWasmModule);
+
+    const result = runSplitJob(engine, source, settings);
+    if (format === "json") {
+      return Response.json(summarizeSplitJob(preset, engine, source, result));
+    }
+    if (format === "workbook") {
+      const book = buildSplitBook(ExcelJS, result.parts, settings.columnFormats, settings.numericColumns, settings.excel);
+      return fileResponse(await book.xlsx.writeBuffer(), `split_book_${toSafeFileName(source.sheet)}.xlsx`, XLSX_CONTENT_TYPE);
+    }
+    const bookFileName = settings.outputMode === "both" ? `split_book_${toSafeFileName(source.sheet)}.xlsx` : undefined;
+    const zip = await buildSplitZip(ExcelJS, result.parts, settings.columnFormats, settings.numericColumns, settings.excel, bookFileName);
+    return fileResponse(zip, `split_files_${toSafeFileName(source.sheet)}.zip`, "application/zip");
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -5,9 +5,82 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { Upload, FileSpreadsheet, Download, X, ChevronUp, ChevronDown, Sliders } from "lucide-react";
-import { readExcelFile, writeExcelFile, type TableData } from "@/lib/excel-utils";
-import { loadWasmModule, type CompareOptions, type CompareInput } from "@/lib/wasm-types";
+import {
+  readBookFile,
+  readExcelBook,
+  getSheetTable,
+  getDefaultSheetName,
+  detectHeaderRow,
+  defaultImportOptions,
+  type TableData,
+  type ExcelBook,
+  type ImportOptions,
+} from "@/lib/excel-utils";
+import { csvEncodings, csvDelimiters, defaultCsvOptions, type CsvOptions } from "@/lib/csv-utils";
+import { defaultLargeFileOptions, readSheetTableStreaming, type LargeFileOptions, type StreamProgress } from "@/lib/xlsx-stream";
+import { aggregateFunctions, defaultAggregateOptions, getAggregateFunction, type AggregateFunction, type AggregateOptions } from "@/lib/aggregate-utils";
+import { resolveRightColumn, suggestColumnMapping, type ColumnSuggestion } from "@/lib/column-mapping";
+import { matchModes, columnRuleTypes, createColumnRule, defaultFuzzyOptions, fuzzyAlgorithms, fuzzyNormalizers, loadWasmModule, WasmError, type ColumnPair, type ColumnRule, type ColumnRuleType, type CompareOptions, type FuzzyAlgorithm, type FuzzyMatch, type FuzzyOptions, type MatchMode, type MultiCompareOutput, type SplitPart, type WasmErrorCode, type WasmErrorInfo } from "@/lib/wasm-types";
+import { filterColumns, reorderRows, sortRowOrder, type SortColumn } from "@/lib/table-utils";
+import { taskPhases, type CompareRequest, type MultiCompareRequest, type TaskPhase } from "@/lib/compare-pipeline";
+import { countMultiCompare, getFuzzyMatchKeys, getMultiCompareColumnGroups, getRowDetail, getRowHighlights, matchCategoryStyles, multiMatchStatusStyles, type RowDetail, type RowHighlight } from "@/lib/compare-result";
+import {
+  countQuickFilters,
+  defaultResultFilter,
+  filterHighlights,
+  getDiffColumns,
+  isResultFiltered,
+  quickFilters,
+  type ColumnFilter,
+  type QuickFilter,
+  type ResultFilter,
+} from "@/lib/result-filter";
+import {
+  buildCompareReportWorkbook,
+  buildMergedWorkbook,
+  buildMultiCompareReportWorkbook,
+  buildSplitBook,
+  buildSplitZip,
+  dataFormats,
+  excelHeaderColors,
+  getAmountColumns,
+  getNumericColumns,
+  getSplitSheetNames,
+  SPLIT_INDEX_SHEET_NAME,
+  splitOutputModes,
+  toSafeFileName,
+  type DataFormat,
+  type ExcelOptions,
+  type MultiCompareReportSettings,
+  type SplitOutputMode,
+} from "@/lib/excel-export";
+import { completeCompareJob, createCompareRequest, createMultiCompareRequest, jobColumnLayout, mergeCompareJobOutput, type CompareJobOutput, type CompareJobSettings, type SplitJobSettings } from "@/lib/job";
+import { diffChars, type TextDiffPart } from "@/lib/text-diff";
+import {
+  ANNOTATION_HEADERS,
+  appendAnnotationColumns,
+  carryForwardAnnotations,
+  emptyAnnotation,
+  getAnnotationJobId,
+  getAnnotationRowKeys,
+  loadAnnotations,
+  needsReview,
+  readAnnotatedSheets,
+  reviewStatuses,
+  saveAnnotations,
+  summarizeAnnotations,
+  type AnnotationSummary,
+  type JobAnnotations,
+  type ReviewStatus,
+  type RowAnnotation,
+} from "@/lib/annotations";
+import { runWorkerTask, TaskCancelledError, type WorkerTask } from "@/lib/worker-client";
+import { engineModes, type EngineMode } from "@/lib/ts-engine";
+import { runConformance, type ConformanceResult } from "@/lib/engine-conformance";
+import { createPreset, deletePreset, exportPresets, findMatchingPresets, listPresets, parsePresetFile, savePresets, type JobPreset, type PresetKind } from "@/lib/presets";
+import type { WorkerTaskType } from "@/lib/worker-protocol";
 import * as XLSX from "xlsx";
 import JSZip from "jszip";
 
@@ -20,185 +93,1204 @@ const themes: { id: Theme; name: string; description: string }[] = [
   { id: "forest", name: "フォレスト", description: "緑系" },
 ];
 
-// データ形式の型定義
-type DataFormat = 
-  | "text"           // 文字列（デフォルト）
-  | "number"         // 数値（整数）
-  | "number_decimal" // 数値（小数点）
-  | "date_ymd"       // 日付（yyyy/mm/dd）
-  | "date_ymd_dash"  // 日付（yyyy-mm-dd）
-  | "date_mdy"       // 日付（mm/dd/yyyy）
-  | "time"           // 時刻（hh:mm:ss）
-  | "datetime"       // 日時（yyyy/mm/dd hh:mm:ss）
-  | "currency_jpy"   // 通貨（¥）
-  | "currency_usd"   // 通貨（$）
-  | "currency_eur"   // 通貨（€）
-  | "percent";       // パーセント
-
-// データ形式の定義
-const dataFormats: { id: DataFormat; name: string; excelFormat: string }[] = [
-  { id: "text", name: "文字列", excelFormat: "@" },
-  { id: "number", name: "数値（整数）", excelFormat: "#,##0" },
-  { id: "number_decimal", name: "数値（小数点）", excelFormat: "#,##0.00" },
-  { id: "date_ymd", name: "日付（yyyy/mm/dd）", excelFormat: "yyyy/mm/dd" },
-  { id: "date_ymd_dash", name: "日付（yyyy-mm-dd）", excelFormat: "yyyy-mm-dd" },
-  { id: "date_mdy", name: "日付（mm/dd/yyyy）", excelFormat: "mm/dd/yyyy" },
-  { id: "time", name: "時刻（hh:mm:ss）", excelFormat: "hh:mm:ss" },
-  { id: "datetime", name: "日時（yyyy/mm/dd hh:mm:ss）", excelFormat: "yyyy/mm/dd hh:mm:ss" },
-  { id: "currency_jpy", name: "通貨（¥）", excelFormat: "¥#,##0" },
-  { id: "currency_usd", name: "通貨（$）", excelFormat: "$#,##0.00" },
-  { id: "currency_eur", name: "通貨（€）", excelFormat: "€#,##0.00" },
-  { id: "percent", name: "パーセント", excelFormat: "0.00%" },
-];
+// シート選択コンポーネント（複数シートのブックのみ表示）
+function SheetPicker({
+  id,
+  book,
+  value,
+  onChange,
+}: {
+  id: string;
+  book: ExcelBook | null;
+  value: string;
+  onChange: (sheetName: string) => void;
+}) {
+  if (!book || book.sheets.length <= 1) return null;
 
-// プレビューテーブルコンポーネント
-function PreviewTable({ 
-  data, 
-  numericColumns = [], 
-  columnFormats = {} 
-}: { 
-  data: TableData; 
-  numericColumns?: string[]; 
-  columnFormats?: Record<string, DataFormat>;
+  return (
+    <div className="flex items-center gap-2">
+      <label htmlFor={id} className="text-xs text-muted-foreground whitespace-nowrap">シート</label>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="flex-1 rounded-md border border-input bg-background px-2 py-1 text-sm"
+      >
+        {book.sheets.map((sheet) => (
+          <option key={sheet.name} value={sheet.name}>
+            {sheet.name}（{sheet.estimated ? "約" : ""}{sheet.rowCount}行 × {sheet.columnCount}列）
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+// CSV/TSVの文字コード・区切り文字設定コンポーネント（CSV/TSVのみ表示）
+function CsvOptionsPanel({
+  id,
+  book,
+  options,
+  onChange,
+}: {
+  id: string;
+  book: ExcelBook | null;
+  options: CsvOptions;
+  onChange: (options: CsvOptions) => void;
 }) {
-  if (!data || data.rows.length === 0) {
-    return <div className="text-sm text-muted-foreground">データがありません</div>;
-  }
+  if (!book?.csv) return null;
 
-  // データ形式に応じて値をフォーマット
-  const formatValue = (value: string, header: string): string => {
-    if (!value) return value;
-    
-    const format = columnFormats[header] || "text";
-    
-    // 形式が指定されていない場合は、従来の数値列処理
-    if (!columnFormats[header] && numericColumns.includes(header)) {
-      const num = parseFloat(value);
-      if (!isNaN(num)) {
-        const hasDecimal = num % 1 !== 0;
-        return hasDecimal ? num.toLocaleString('ja-JP', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : num.toLocaleString('ja-JP');
+  const detected = book.csv;
+  const detectedEncoding = csvEncodings.find(e => e.id === detected.encoding)?.name;
+  const detectedDelimiter = csvDelimiters.find(d => d.id === detected.delimiter)?.name;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <label htmlFor={`${id}-encoding`} className="text-xs text-muted-foreground">文字コード</label>
+      <select
+        id={`${id}-encoding`}
+        value={options.encoding}
+        onChange={(e) => onChange({ ...options, encoding: e.target.value as CsvOptions["encoding"] })}
+        className="rounded-md border border-input bg-background px-2 py-1 text-sm"
+      >
+        <option value="auto">自動（{detectedEncoding}）</option>
+        {csvEncodings.map((encoding) => (
+          <option key={encoding.id} value={encoding.id}>
+            {encoding.name}
+          </option>
+        ))}
+      </select>
+      <label htmlFor={`${id}-delimiter`} className="text-xs text-muted-foreground">区切り文字</label>
+      <select
+        id={`${id}-delimiter`}
+        value={options.delimiter}
+        onChange={(e) => onChange({ ...options, delimiter: e.target.value as CsvOptions["delimiter"] })}
+        className="rounded-md border border-input bg-background px-2 py-1 text-sm"
+      >
+        <option value="auto">自動（{detectedDelimiter}）</option>
+        {csvDelimiters.map((delimiter) => (
+          <option key={delimiter.id} value={delimiter.id}>
+            {delimiter.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+// 読み込み設定コンポーネント（ヘッダー行・データ範囲の指定）
+function ImportOptionsPanel({
+  id,
+  book,
+  sheetName,
+  options,
+  onChange,
+}: {
+  id: string;
+  book: ExcelBook | null;
+  sheetName: string;
+  options: ImportOptions;
+  onChange: (options: ImportOptions) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const detectedRow = useMemo(
+    () => (options.autoDetectHeader && book && sheetName ? detectHeaderRow(book, sheetName) : null),
+    [book, sheetName, options.autoDetectHeader]
+  );
+
+  if (!book) return null;
+
+  const toInt = (value: string, min: number) => Math.max(min, parseInt(value, 10) || min);
+
+  return (
+    <div className="space-y-2 rounded-md border border-input bg-background p-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium">読み込み設定</span>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={() => setOpen(!open)}
+          className="h-6 w-6"
+        >
+          {open ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        </Button>
+      </div>
+      {open && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <label htmlFor={`${id}-header-row`} className="text-xs text-muted-foreground w-28">ヘッダー行</label>
+            <input
+              id={`${id}-header-row`}
+              type="number"
+              min={1}
+              value={options.autoDetectHeader && detectedRow ? detectedRow : options.headerRow}
+              disabled={options.autoDetectHeader}
+              onChange={(e) => onChange({ ...options, headerRow: toInt(e.target.value, 1) })}
+              className="w-20 rounded-md border border-input bg-background px-2 py-1 text-sm disabled:opacity-50"
+            />
+            <Checkbox
+              id={`${id}-auto-detect`}
+              checked={options.autoDetectHeader}
+              onCheckedChange={(checked) => onChange({ ...options, autoDetectHeader: checked === true })}
+            />
+            <label htmlFor={`${id}-auto-detect`} className="text-xs leading-none">
+              自動検出
+            </label>
+          </div>
+          <div className="flex items-center gap-2">
+            <label htmlFor={`${id}-header-count`} className="text-xs text-muted-foreground w-28">ヘッダーの行数</label>
+            <input
+              id={`${id}-header-count`}
+              type="number"
+              min={1}
+              value={options.headerRowCount}
+              onChange={(e) => onChange({ ...options, headerRowCount: toInt(e.target.value, 1) })}
+              className="w-20 rounded-md border border-input bg-background px-2 py-1 text-sm"
+            />
+            {options.headerRowCount > 1 && (
+              <span className="text-xs text-muted-foreground">「売上|4月」の形で結合</span>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <label htmlFor={`${id}-skip-rows`} className="text-xs text-muted-foreground w-28">ヘッダー後の除外行数</label>
+            <input
+              id={`${id}-skip-rows`}
+              type="number"
+              min={0}
+              value={options.skipRows}
+              onChange={(e) => onChange({ ...options, skipRows: toInt(e.target.value, 0) })}
+              className="w-20 rounded-md border border-input bg-background px-2 py-1 text-sm"
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id={`${id}-stop-at-blank`}
+              checked={options.stopAtBlankRow}
+              onCheckedChange={(checked) => onChange({ ...options, stopAtBlankRow: checked === true })}
+            />
+            <label htmlFor={`${id}-stop-at-blank`} className="text-xs leading-none">
+              最初の空行でデータを終了
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// 集計設定コンポーネント（キー列でグループ化してから比較）
+function AggregatePanel({
+  id,
+  label,
+  data,
+  keys,
+  options,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  data: TableData;
+  keys: string[];
+  options: AggregateOptions;
+  onChange: (options: AggregateOptions) => void;
+}) {
+  const columns = data.headers.filter((header) => !keys.includes(header));
+
+  return (
+    <div className="space-y-2 rounded-md border border-input bg-background p-2">
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id={`${id}-enabled`}
+          checked={options.enabled}
+          onCheckedChange={(checked) => onChange({ ...options, enabled: checked === true })}
+        />
+        <label htmlFor={`${id}-enabled`} className="text-sm font-medium leading-none">
+          {label}をキー列で集計してから比較
+        </label>
+      </div>
+      {options.enabled && (
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {columns.map((header) => (
+            <div key={header} className="flex items-center gap-2">
+              <span className="flex-1 truncate text-xs" title={header}>{header}</span>
+              <select
+                value={getAggregateFunction(data, options, header)}
+                onChange={(e) =>
+                  onChange({ ...options, columns: { ...options.columns, [header]: e.target.value as AggregateFunction } })
+                }
+                className="rounded-md border border-input bg-background px-2 py-1 text-xs"
+              >
+                {aggregateFunctions.map((fn) => (
+                  <option key={fn.id} value={fn.id}>{fn.name}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">集計前の行数は「集計行数」列に出力されます</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// あいまい一致の設定コンポーネント（完全一致しなかった行を、正規化したキーの類似度で組にする）
+function FuzzyOptionsPanel({
+  id,
+  options,
+  onChange,
+}: {
+  id: string;
+  options: FuzzyOptions;
+  onChange: (options: FuzzyOptions) => void;
+}) {
+  return (
+    <div className="space-y-2 rounded-md border border-input bg-background p-2">
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id={`${id}-enabled`}
+          checked={options.enabled}
+          onCheckedChange={(checked) => onChange({ ...options, enabled: checked === true })}
+        />
+        <label htmlFor={`${id}-enabled`} className="text-sm font-medium leading-none">
+          キーが近い左のみ・右のみの行をあいまい一致の候補にする
+        </label>
+      </div>
+      {options.enabled && (
+        <div className="space-y-2 ml-6">
+          <div className="space-y-1">
+            {fuzzyNormalizers.map((normalizer) => (
+              <div key={normalizer.id} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${id}-${normalizer.id}`}
+                  checked={options.normalizers.includes(normalizer.id)}
+                  onCheckedChange={(checked) => onChange({
+                    ...options,
+                    // 適用順を保つため、一覧の順に並べ直す
+                    normalizers: fuzzyNormalizers
+                      .map(n => n.id)
+                      .filter(n => (n === normalizer.id ? checked === true : options.normalizers.includes(n))),
+                  })}
+                />
+                <label htmlFor={`${id}-${normalizer.id}`} className="text-xs leading-none" title={normalizer.description}>
+                  {normalizer.name}
+                </label>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <label htmlFor={`${id}-algorithm`} className="text-xs text-muted-foreground w-16">類似度</label>
+            <select
+              id={`${id}-algorithm`}
+              value={options.algorithm}
+              onChange={(e) => onChange({ ...options, algorithm: e.target.value as FuzzyAlgorithm })}
+              className="rounded-md border border-input bg-background px-2 py-1 text-xs"
+            >
+              {fuzzyAlgorithms.map((algorithm) => (
+                <option key={algorithm.id} value={algorithm.id}>{algorithm.name}</option>
+              ))}
+            </select>
+            <label htmlFor={`${id}-threshold`} className="text-xs text-muted-foreground">しきい値</label>
+            <input
+              id={`${id}-threshold`}
+              type="number"
+              min={0}
+              max={1}
+              step={0.01}
+              value={options.threshold}
+              onChange={(e) => onChange({ ...options, threshold: Math.min(1, Math.max(0, parseFloat(e.target.value) || 0)) })}
+              className="w-20 rounded-md border border-input bg-background px-2 py-1 text-xs"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {fuzzyAlgorithms.find(a => a.id === options.algorithm)?.description}
+            。候補は比較結果で採用・却下を選べます（重複キーの行は対象外）。
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// あいまい一致の候補の判定（未確認の候補は採用しない）
+type FuzzyDecision = "pending" | "accepted" | "rejected";
+
+// あいまい一致の候補の確認コンポーネント（採用した候補だけ一致として出力する）
+function FuzzyReviewPanel({
+  keys,
+  matches,
+  decisions,
+  onChange,
+}: {
+  keys: { left: string; right: string }[];
+  matches: FuzzyMatch[];
+  decisions: FuzzyDecision[];
+  onChange: (decisions: FuzzyDecision[]) => void;
+}) {
+  const count = (decision: FuzzyDecision) => decisions.filter(d => d === decision).length;
+  const decide = (idx: number, decision: FuzzyDecision) =>
+    onChange(decisions.map((d, i) => (i === idx ? (d === decision ? "pending" : decision) : d)));
+
+  return (
+    <div className="space-y-2 rounded-md border border-input bg-background p-3">
+      <div className="flex items-center justify-between gap-2">
+        <label className="text-sm font-medium">
+          あいまい一致の候補（{matches.length}件：採用 {count("accepted")}・却下 {count("rejected")}・未確認 {count("pending")}）
+        </label>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => onChange(matches.map(() => "accepted"))}>
+            すべて採用
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onChange(matches.map(() => "rejected"))}>
+            すべて却下
+          </Button>
+        </div>
+      </div>
+      <div className="max-h-[300px] overflow-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b text-left">
+              <th className="p-1">左側のキー</th>
+              <th className="p-1">右側のキー</th>
+              <th className="p-1 text-right">スコア</th>
+              <th className="p-1">値が異なる列</th>
+              <th className="p-1">判定</th>
+            </tr>
+          </thead>
+          <tbody>
+            {matches.map((match, idx) => (
+              <tr key={idx} className="border-b">
+                <td className="p-1">{keys[idx]?.left}</td>
+                <td className="p-1">{keys[idx]?.right}</td>
+                <td className="p-1 text-right">{match.score.toFixed(3)}</td>
+                <td className="p-1 text-muted-foreground">{match.diff_cols.join(", ")}</td>
+                <td className="p-1">
+                  <div className="flex gap-1">
+                    <Button
+                      variant={decisions[idx] === "accepted" ? "default" : "outline"}
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => decide(idx, "accepted")}
+                    >
+                      採用
+                    </Button>
+                    <Button
+                      variant={decisions[idx] === "rejected" ? "destructive" : "outline"}
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => decide(idx, "rejected")}
+                    >
+                      却下
+                    </Button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        採用した候補は一致（match_status = fuzzy、fuzzy_score にスコア、fuzzy_right_key に組にした右側のキー）として出力し、却下・未確認の候補は左のみ・右のみのまま出力します。
+      </p>
+    </div>
+  );
+}
+
+// 列ごとの比較ルール設定コンポーネント
+function ColumnRulesPanel({
+  columns,
+  rules,
+  onChange,
+}: {
+  columns: string[];
+  rules: Record<string, ColumnRule>;
+  onChange: (rules: Record<string, ColumnRule>) => void;
+}) {
+  const [open, setOpen] = useState(false);
+
+  const setRule = (column: string, rule: ColumnRule) => {
+    const next = { ...rules };
+    if (rule.type === "exact") {
+      delete next[column];
+    } else {
+      next[column] = rule;
+    }
+    onChange(next);
+  };
+
+  const configured = columns.filter((column) => rules[column]).length;
+
+  return (
+    <div className="space-y-2 rounded-md border border-input bg-background p-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">
+          列ごとの比較ルール
+          {configured > 0 && <span className="ml-2 text-xs text-muted-foreground">{configured}列に設定済み</span>}
+        </span>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={() => setOpen(!open)}
+          className="h-6 w-6"
+        >
+          {open ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        </Button>
+      </div>
+      {open && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            左右で同じ名前の列が対象です。数値・日付として解釈できない値は文字列として比較します。
+          </p>
+          {columns.length === 0 && <div className="text-xs text-muted-foreground">共通の列がありません</div>}
+          {columns.map((column) => {
+            const rule = rules[column] ?? createColumnRule("exact");
+            return (
+              <div key={column} className="flex flex-wrap items-center gap-2 p-1 rounded-md bg-muted/50">
+                <span className="w-32 truncate text-xs font-medium" title={column}>{column}</span>
+                <select
+                  value={rule.type}
+                  onChange={(e) => setRule(column, createColumnRule(e.target.value as ColumnRuleType))}
+                  className="rounded-md border border-input bg-background px-2 py-1 text-xs"
+                >
+                  {columnRuleTypes.map((type) => (
+                    <option key={type.id} value={type.id}>{type.name}</option>
+                  ))}
+                </select>
+                {rule.type === "numeric" && (
+                  <>
+                    <label className="text-xs text-muted-foreground">許容差</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={rule.abs_tolerance}
+                      onChange={(e) => setRule(column, { ...rule, abs_tolerance: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      className="w-20 rounded-md border border-input bg-background px-2 py-1 text-xs"
+                    />
+                    <label className="text-xs text-muted-foreground">相対許容差(%)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={rule.rel_tolerance * 100}
+                      onChange={(e) => setRule(column, { ...rule, rel_tolerance: Math.max(0, parseFloat(e.target.value) || 0) / 100 })}
+                      className="w-20 rounded-md border border-input bg-background px-2 py-1 text-xs"
+                    />
+                  </>
+                )}
+                {rule.type === "text" && (
+                  <>
+                    {([
+                      ["trim", "空白を無視"],
+                      ["case_insensitive", "大文字小文字を無視"],
+                      ["normalize_width", "全角/半角を無視"],
+                    ] as const).map(([option, label]) => (
+                      <div key={option} className="flex items-center space-x-1">
+                        <Checkbox
+                          id={`rule-${column}-${option}`}
+                          checked={rule[option]}
+                          onCheckedChange={(checked) => setRule(column, { ...rule, [option]: checked === true })}
+                        />
+                        <label htmlFor={`rule-${column}-${option}`} className="text-xs leading-none">
+                          {label}
+                        </label>
+                      </div>
+                    ))}
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// 列の対応付けコンポーネント（列名が異なる左右の列を対応させる）
+function ColumnMappingPanel({
+  left,
+  right,
+  mapping,
+  onChange,
+}: {
+  left: TableData;
+  right: TableData;
+  mapping: ColumnPair[];
+  onChange: (mapping: ColumnPair[]) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [suggestions, setSuggestions] = useState<ColumnSuggestion[] | null>(null);
+
+  const updatePair = (idx: number, pair: ColumnPair) => {
+    const next = [...mapping];
+    next[idx] = pair;
+    onChange(next);
+  };
+
+  const accept = (accepted: ColumnSuggestion[]) => {
+    onChange([...mapping, ...accepted.map(({ left, right }) => ({ left, right }))]);
+    setSuggestions((suggestions ?? []).filter((s) => !accepted.includes(s)));
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border border-input bg-background p-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">
+          列の対応付け
+          {mapping.length > 0 && <span className="ml-2 text-xs text-muted-foreground">{mapping.length}件</span>}
+        </span>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={() => setOpen(!open)}
+          className="h-6 w-6"
+        >
+          {open ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        </Button>
+      </div>
+      {open && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            左右で列名が異なる列を対応させます。対応付けはキー列と差分の判定に使われます（未指定の列は同じ名前の列と対応）。
+          </p>
+          {mapping.map((pair, idx) => (
+            <div key={idx} className="flex items-center gap-2">
+              <select
+                value={pair.left}
+                onChange={(e) => updatePair(idx, { ...pair, left: e.target.value })}
+                className="flex-1 rounded-md border border-input bg-background px-2 py-1 text-xs"
+              >
+                <option value="">左側の列を選択</option>
+                {left.headers.map((header, i) => (
+                  <option key={i} value={header}>{header}</option>
+                ))}
+              </select>
+              <span className="text-xs">=</span>
+              <select
+                value={pair.right}
+                onChange={(e) => updatePair(idx, { ...pair, right: e.target.value })}
+                className="flex-1 rounded-md border border-input bg-background px-2 py-1 text-xs"
+              >
+                <option value="">右側の列を選択</option>
+                {right.headers.map((header, i) => (
+                  <option key={i} value={header}>{header}</option>
+                ))}
+              </select>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => onChange(mapping.filter((_, i) => i !== idx))}
+                className="h-6 w-6 text-destructive hover:text-destructive"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => onChange([...mapping, { left: "", right: "" }])}>
+              対応付けを追加
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setSuggestions(suggestColumnMapping(left, right, mapping.filter((p) => p.left && p.right)))}
+            >
+              候補を提案
+            </Button>
+          </div>
+          {suggestions && (
+            <div className="space-y-1 rounded-md bg-muted/50 p-2">
+              {suggestions.length === 0 ? (
+                <div className="text-xs text-muted-foreground">候補が見つかりませんでした</div>
+              ) : (
+                <>
+                  {suggestions.map((suggestion) => (
+                    <div key={`${suggestion.left}=${suggestion.right}`} className="flex items-center gap-2">
+                      <span className="flex-1 text-xs">
+                        {suggestion.left} = {suggestion.right}
+                        <span className="ml-2 text-muted-foreground">
+                          （列名 {Math.round(suggestion.nameScore * 100)}% / 値 {Math.round(suggestion.valueScore * 100)}%）
+                        </span>
+                      </span>
+                      <Button variant="ghost" size="sm" onClick={() => accept([suggestion])}>
+                        採用
+                      </Button>
+                    </div>
+                  ))}
+                  <Button variant="outline" size="sm" onClick={() => accept(suggestions)}>
+                    すべて採用
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// 大きなファイルの読み込み設定コンポーネント（逐次読み込みにするサイズとメモリ上限）
+function LargeFileOptionsPanel({
+  id,
+  options,
+  onChange,
+}: {
+  id: string;
+  options: LargeFileOptions;
+  onChange: (options: LargeFileOptions) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const toInt = (value: string, min: number) => Math.max(min, parseInt(value, 10) || min);
+
+  return (
+    <div className="space-y-2 rounded-md border border-input bg-background p-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium">大きなファイルの読み込み</span>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={() => setOpen(!open)}
+          className="h-6 w-6"
+        >
+          {open ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        </Button>
+      </div>
+      {open && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <label htmlFor={`${id}-threshold`} className="text-xs text-muted-foreground w-28">逐次読み込み</label>
+            <input
+              id={`${id}-threshold`}
+              type="number"
+              min={1}
+              value={options.streamThresholdMB}
+              onChange={(e) => onChange({ ...options, streamThresholdMB: toInt(e.target.value, 1) })}
+              className="w-20 rounded-md border border-input bg-background px-2 py-1 text-sm"
+            />
+            <span className="text-xs text-muted-foreground">MB以上のxlsx</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <label htmlFor={`${id}-budget`} className="text-xs text-muted-foreground w-28">メモリ上限</label>
+            <input
+              id={`${id}-budget`}
+              type="number"
+              min={16}
+              value={options.memoryBudgetMB}
+              onChange={(e) => onChange({ ...options, memoryBudgetMB: toInt(e.target.value, 16) })}
+              className="w-20 rounded-md border border-input bg-background px-2 py-1 text-sm"
+            />
+            <span className="text-xs text-muted-foreground">MB</span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            上限を超える場合は日付・数値などの型付きの値を省略し、それでも超える場合は読み込みを中止します。
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// 比較・分割のエンジン設定コンポーネント（WASMとTypeScript版の一致確認を含む）
+function EngineSettingsPanel({
+  id,
+  mode,
+  onChange,
+}: {
+  id: string;
+  mode: EngineMode;
+  onChange: (mode: EngineMode) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [results, setResults] = useState<ConformanceResult[] | null>(null);
+
+  const runCheck = async () => {
+    setChecking(true);
+    try {
+      const wasm = await loadWasmModule();
+      if (!wasm) {
+        alert("WASMモジュールが利用できないため、一致確認はできません");
+        return;
       }
+      setResults(runConformance(wasm));
+    } catch (error) {
+      console.error("エンジンの一致確認に失敗しました:", error);
+      alert("エンジンの一致確認に失敗しました");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border border-input bg-background p-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium">処理エンジン</span>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={() => setOpen(!open)}
+          className="h-6 w-6"
+        >
+          {open ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        </Button>
+      </div>
+      {open && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <label htmlFor={`${id}-mode`} className="text-xs text-muted-foreground w-28">エンジン</label>
+            <select
+              id={`${id}-mode`}
+              value={mode}
+              onChange={(e) => onChange(e.target.value as EngineMode)}
+              className="rounded-md border border-input bg-background px-2 py-1 text-sm"
+            >
+              {engineModes.map((engine) => (
+                <option key={engine.id} value={engine.id}>{engine.name}</option>
+              ))}
+            </select>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {engineModes.find((engine) => engine.id === mode)?.description}
+          </p>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={runCheck} disabled={checking}>
+              {checking ? "確認中..." : "WASMとの一致を確認"}
+            </Button>
+            {results && (
+              <span className="text-xs text-muted-foreground">
+                {results.filter((result) => result.passed).length}/{results.length}件一致
+              </span>
+            )}
+          </div>
+          {results && results.some((result) => !result.passed) && (
+            <ul className="space-y-1 text-xs text-destructive">
+              {results.filter((result) => !result.passed).map((result) => (
+                <li key={result.name}>
+                  <div className="font-medium">{result.name}</div>
+                  <div className="break-all">{result.detail}</div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// 保存した設定コンポーネント（見出しが一致する設定の提案・保存・削除・JSONでの書き出し/読み込み）
+function PresetPanel({
+  id,
+  kind,
+  headers,
+  presets,
+  applied,
+  onApply,
+  onClear,
+  onSave,
+  onDelete,
+  onExport,
+  onImport,
+}: {
+  id: string;
+  kind: PresetKind;
+  headers: string[][] | null; // 読み込んだ表の見出し（未読み込みの場合は null）
+  presets: JobPreset[];
+  applied: JobPreset | null;
+  onApply: (preset: JobPreset) => void;
+  onClear: () => void;
+  onSave: (name: string) => void;
+  onDelete: (preset: JobPreset) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [selectedId, setSelectedId] = useState("");
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const kindPresets = presets.filter((preset) => preset.kind === kind);
+  const matches = useMemo(
+    () => (headers ? findMatchingPresets(presets, kind, headers) : []),
+    [presets, kind, headers]
+  );
+  const suggestion = matches.find((match) => match.preset.id !== applied?.id);
+  const selected = kindPresets.find((preset) => preset.id === selectedId);
+
+  return (
+    <div className="space-y-2 rounded-md border border-input bg-background p-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium">
+          保存した設定{applied && <span className="ml-2 text-muted-foreground">適用中: {applied.name}</span>}
+        </span>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={() => setOpen(!open)}
+          className="h-6 w-6"
+        >
+          {open ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        </Button>
+      </div>
+      {suggestion && (
+        <div className="flex items-center justify-between gap-2 rounded-md bg-muted px-2 py-1">
+          <span className="text-xs">
+            {suggestion.exact ? "見出しが一致する設定" : `見出しが似ている設定（一致度${Math.round(suggestion.score * 100)}%）`}: {suggestion.preset.name}
+          </span>
+          <Button variant="outline" size="sm" onClick={() => onApply(suggestion.preset)}>
+            適用
+          </Button>
+        </div>
+      )}
+      {open && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <label htmlFor={`${id}-select`} className="text-xs text-muted-foreground w-16">設定</label>
+            <select
+              id={`${id}-select`}
+              value={selectedId}
+              onChange={(e) => setSelectedId(e.target.value)}
+              className="flex-1 rounded-md border border-input bg-background px-2 py-1 text-sm"
+            >
+              <option value="">選択してください</option>
+              {kindPresets.map((preset) => (
+                <option key={preset.id} value={preset.id}>{preset.name}</option>
+              ))}
+            </select>
+            <Button variant="outline" size="sm" disabled={!selected} onClick={() => selected && onApply(selected)}>
+              適用
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              disabled={!selected}
+              onClick={() => selected && onDelete(selected)}
+              className="h-6 w-6 text-destructive hover:text-destructive"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex items-center gap-2">
+            <label htmlFor={`${id}-name`} className="text-xs text-muted-foreground w-16">名前</label>
+            <input
+              id={`${id}-name`}
+              type="text"
+              value={name}
+              placeholder={applied?.name ?? "例: 月次売上の突合"}
+              onChange={(e) => setName(e.target.value)}
+              className="flex-1 rounded-md border border-input bg-background px-2 py-1 text-sm"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!headers || (name.trim() === "" && !applied)}
+              onClick={() => {
+                onSave(name.trim() || (applied?.name ?? ""));
+                setName("");
+              }}
+            >
+              現在の設定を保存
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            同じ名前の設定は上書きします。ファイルを読み込んだとき、見出しが一致する設定を提案します。
+          </p>
+          <div className="flex items-center gap-2">
+            {applied && (
+              <Button variant="ghost" size="sm" onClick={onClear}>
+                適用を解除
+              </Button>
+            )}
+            <Button variant="outline" size="sm" disabled={presets.length === 0} onClick={onExport}>
+              <Download className="h-4 w-4 mr-1" />
+              書き出し
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => importInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-1" />
+              読み込み
+            </Button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImport(file);
+                e.target.value = "";
+              }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// 逐次読み込みの進捗表示コンポーネント
+function FileLoadProgress({ progress }: { progress: StreamProgress }) {
+  const ratio = progress.estimatedRows > 0 ? Math.min(1, progress.rowsRead / progress.estimatedRows) : 0;
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs">
+        <span>シートを読み込み中...</span>
+        <span className="text-muted-foreground">
+          {progress.rowsRead.toLocaleString()} / 約{progress.estimatedRows.toLocaleString()}行
+        </span>
+      </div>
+      <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+        <div className="h-full bg-primary transition-all" style={{ width: `${ratio * 100}%` }} />
+      </div>
+    </div>
+  );
+}
+
+// WASM側のエラーの説明と対処方法
+const wasmErrorHelp: Record<WasmErrorCode, { title: string; hint: string }> = {
+  invalid_input: {
+    title: "入力データを読み込めませんでした",
+    hint: "ファイルを読み込み直してから再実行してください。解決しない場合は、シートに特殊な値（制御文字など）が含まれていないか確認してください。",
+  },
+  key_not_found: {
+    title: "キー列が見つかりません",
+    hint: "キー列の選択を確認してください。左右で列名が異なる場合は、列の対応付けで右側の列を指定してください。",
+  },
+  invalid_cell_data: {
+    title: "セルのデータが不正です",
+    hint: "該当するセルの内容を確認し、ファイルを保存し直してから読み込んでください。",
+  },
+  serialize_failed: {
+    title: "結果を作成できませんでした",
+    hint: "対象のシート・行を絞り込んでデータ量を減らし、再実行してください。",
+  },
+  internal_error: {
+    title: "処理中に予期しないエラーが発生しました",
+    hint: "ページを再読み込みして再実行してください。WASMモジュールが未ビルドの場合は npm run build:wasm でビルドしてください。",
+  },
+};
+
+// 処理のエラー表示コンポーネント（エラーの内容・該当箇所・対処方法）
+function TaskErrorPanel({
+  title,
+  error,
+  onClose,
+}: {
+  title: string;
+  error: WasmErrorInfo;
+  onClose: () => void;
+}) {
+  const help = wasmErrorHelp[error.code] ?? wasmErrorHelp.internal_error;
+  const sideName = error.side === "left" ? "左側のファイル"
+    : error.side === "right" ? "右側のファイル"
+    : error.input !== undefined ? `${error.input + 1}番目のファイル（F${error.input + 1}）`
+    : null;
+  const location = [
+    sideName,
+    error.row !== undefined ? `${error.row + 1}行目（データ行）` : null,
+    error.column ? `列「${error.column}」` : null,
+  ].filter(Boolean).join("・");
+
+  return (
+    <div className="space-y-2 rounded-md border border-destructive/50 bg-destructive/10 p-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="space-y-1">
+          <p className="text-sm font-medium text-destructive">{title}: {help.title}</p>
+          {location && <p className="text-xs">該当箇所: {location}</p>}
+        </div>
+        <Button variant="ghost" size="icon-sm" onClick={onClose} className="h-6 w-6">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <p className="text-xs">{help.hint}</p>
+      <p className="text-xs text-muted-foreground break-all">詳細: {error.message}</p>
+    </div>
+  );
+}
+
+// 処理の進捗表示コンポーネント（段階ごとの進捗バーとキャンセルボタン）
+function TaskProgressPanel({
+  progress,
+  onCancel,
+}: {
+  progress: Record<TaskPhase, number>;
+  onCancel: () => void;
+}) {
+  return (
+    <div className="space-y-2 rounded-md border border-input bg-background p-3">
+      {taskPhases.map((phase) => (
+        <div key={phase.id} className="space-y-1">
+          <div className="flex justify-between text-xs">
+            <span>{phase.name}</span>
+            <span className="text-muted-foreground">{Math.round(progress[phase.id] * 100)}%</span>
+          </div>
+          <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+            <div
+              className="h-full bg-primary transition-all"
+              style={{ width: `${progress[phase.id] * 100}%` }}
+            />
+          </div>
+        </div>
+      ))}
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" onClick={onCancel}>
+          <X className="mr-2 h-4 w-4" />
+          キャンセル
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// プレビューテーブルコンポーネント
+// データ形式に応じて値をフォーマット（形式が指定されていない数値列は桁区切り）
+function formatCellValue(value: string, header: string, numericColumns: string[], columnFormats: Record<string, DataFormat>): string {
+  if (!value) return value;
+  
+  const format = columnFormats[header] || "text";
+  
+  // 形式が指定されていない場合は、従来の数値列処理
+  if (!columnFormats[header] && numericColumns.includes(header)) {
+    const num = parseFloat(value);
+    if (!isNaN(num)) {
+      const hasDecimal = num % 1 !== 0;
+      return hasDecimal ? num.toLocaleString('ja-JP', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : num.toLocaleString('ja-JP');
+    }
+    return value;
+  }
+  
+  // データ形式に応じてフォーマット
+  switch (format) {
+    case "text":
       return value;
+    case "number": {
+      const num = parseFloat(value);
+      return isNaN(num) ? value : Math.round(num).toLocaleString('ja-JP');
     }
-    
-    // データ形式に応じてフォーマット
-    switch (format) {
-      case "text":
-        return value;
-      case "number": {
-        const num = parseFloat(value);
-        return isNaN(num) ? value : Math.round(num).toLocaleString('ja-JP');
-      }
-      case "number_decimal": {
-        const num = parseFloat(value);
-        return isNaN(num) ? value : num.toLocaleString('ja-JP', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
-      }
-      case "date_ymd": {
-        // Excelのシリアル値（5桁の数字）を検出
-        const serialMatch = value.match(/^\d{5}$/);
-        if (serialMatch) {
-          const serial = parseInt(value, 10);
-          const excelEpoch = new Date(1899, 11, 30);
-          const date = new Date(excelEpoch.getTime() + serial * 24 * 60 * 60 * 1000);
-          if (date.getTime() && !isNaN(date.getTime())) {
-            return date.toLocaleDateString('ja-JP', { year: 'numeric', month: '2-digit', day: '2-digit' }).replace(/\//g, '/');
-          }
-        }
-        // yyyy/mm/dd または yyyy-mm-dd
-        const ymdMatch = value.match(/^(\d{4})[\/\-](\d{1,2})[\/\-](\d{1,2})/);
-        if (ymdMatch) {
-          const year = parseInt(ymdMatch[1], 10);
-          const month = parseInt(ymdMatch[2], 10);
-          const day = parseInt(ymdMatch[3], 10);
-          return `${year}/${month.toString().padStart(2, '0')}/${day.toString().padStart(2, '0')}`;
+    case "number_decimal": {
+      const num = parseFloat(value);
+      return isNaN(num) ? value : num.toLocaleString('ja-JP', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    }
+    case "date_ymd": {
+      // Excelのシリアル値（5桁の数字）を検出
+      const serialMatch = value.match(/^\d{5}$/);
+      if (serialMatch) {
+        const serial = parseInt(value, 10);
+        const excelEpoch = new Date(1899, 11, 30);
+        const date = new Date(excelEpoch.getTime() + serial * 24 * 60 * 60 * 1000);
+        if (date.getTime() && !isNaN(date.getTime())) {
+          return date.toLocaleDateString('ja-JP', { year: 'numeric', month: '2-digit', day: '2-digit' }).replace(/\//g, '/');
         }
-        return value;
       }
-      case "date_ymd_dash": {
-        const serialMatch = value.match(/^\d{5}$/);
-        if (serialMatch) {
-          const serial = parseInt(value, 10);
-          const excelEpoch = new Date(1899, 11, 30);
-          const date = new Date(excelEpoch.getTime() + serial * 24 * 60 * 60 * 1000);
-          if (date.getTime() && !isNaN(date.getTime())) {
-            return date.toLocaleDateString('ja-JP', { year: 'numeric', month: '2-digit', day: '2-digit' }).replace(/\//g, '-');
-          }
-        }
-        const ymdMatch = value.match(/^(\d{4})[\/\-](\d{1,2})[\/\-](\d{1,2})/);
-        if (ymdMatch) {
-          const year = parseInt(ymdMatch[1], 10);
-          const month = parseInt(ymdMatch[2], 10);
-          const day = parseInt(ymdMatch[3], 10);
-          return `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
-        }
-        return value;
+      // yyyy/mm/dd または yyyy-mm-dd
+      const ymdMatch = value.match(/^(\d{4})[\/\-](\d{1,2})[\/\-](\d{1,2})/);
+      if (ymdMatch) {
+        const year = parseInt(ymdMatch[1], 10);
+        const month = parseInt(ymdMatch[2], 10);
+        const day = parseInt(ymdMatch[3], 10);
+        return `${year}/${month.toString().padStart(2, '0')}/${day.toString().padStart(2, '0')}`;
       }
-      case "date_mdy": {
-        const serialMatch = value.match(/^\d{5}$/);
-        if (serialMatch) {
-          const serial = parseInt(value, 10);
-          const excelEpoch = new Date(1899, 11, 30);
-          const date = new Date(excelEpoch.getTime() + serial * 24 * 60 * 60 * 1000);
-          if (date.getTime() && !isNaN(date.getTime())) {
-            return date.toLocaleDateString('en-US', { year: 'numeric', month: '2-digit', day: '2-digit' });
-          }
-        }
-        const mdyMatch = value.match(/^(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{4})/);
-        if (mdyMatch) {
-          const month = parseInt(mdyMatch[1], 10);
-          const day = parseInt(mdyMatch[2], 10);
-          const year = parseInt(mdyMatch[3], 10);
-          return `${month.toString().padStart(2, '0')}/${day.toString().padStart(2, '0')}/${year}`;
+      return value;
+    }
+    case "date_ymd_dash": {
+      const serialMatch = value.match(/^\d{5}$/);
+      if (serialMatch) {
+        const serial = parseInt(value, 10);
+        const excelEpoch = new Date(1899, 11, 30);
+        const date = new Date(excelEpoch.getTime() + serial * 24 * 60 * 60 * 1000);
+        if (date.getTime() && !isNaN(date.getTime())) {
+          return date.toLocaleDateString('ja-JP', { year: 'numeric', month: '2-digit', day: '2-digit' }).replace(/\//g, '-');
         }
-        return value;
       }
-      case "time": {
-        const timeMatch = value.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?/);
-        if (timeMatch) {
-          return value;
-        }
-        return value;
+      const ymdMatch = value.match(/^(\d{4})[\/\-](\d{1,2})[\/\-](\d{1,2})/);
+      if (ymdMatch) {
+        const year = parseInt(ymdMatch[1], 10);
+        const month = parseInt(ymdMatch[2], 10);
+        const day = parseInt(ymdMatch[3], 10);
+        return `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
       }
-      case "datetime": {
-        const serialMatch = value.match(/^\d{5}$/);
-        if (serialMatch) {
-          const serial = parseInt(value, 10);
-          const excelEpoch = new Date(1899, 11, 30);
-          const date = new Date(excelEpoch.getTime() + serial * 24 * 60 * 60 * 1000);
-          if (date.getTime() && !isNaN(date.getTime())) {
-            return date.toLocaleString('ja-JP', { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit' });
-          }
-        }
-        const dateTimeMatch = value.match(/(\d{4}[\/\-]\d{1,2}[\/\-]\d{1,2})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?/);
-        if (dateTimeMatch) {
-          return value;
+      return value;
+    }
+    case "date_mdy": {
+      const serialMatch = value.match(/^\d{5}$/);
+      if (serialMatch) {
+        const serial = parseInt(value, 10);
+        const excelEpoch = new Date(1899, 11, 30);
+        const date = new Date(excelEpoch.getTime() + serial * 24 * 60 * 60 * 1000);
+        if (date.getTime() && !isNaN(date.getTime())) {
+          return date.toLocaleDateString('en-US', { year: 'numeric', month: '2-digit', day: '2-digit' });
         }
-        return value;
-      }
-      case "currency_jpy": {
-        const num = parseFloat(value.replace(/[¥,\s]/g, ''));
-        return isNaN(num) ? value : `¥${Math.round(num).toLocaleString('ja-JP')}`;
       }
-      case "currency_usd": {
-        const num = parseFloat(value.replace(/[$,\s]/g, ''));
-        return isNaN(num) ? value : `$${num.toLocaleString('ja-JP', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+      const mdyMatch = value.match(/^(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{4})/);
+      if (mdyMatch) {
+        const month = parseInt(mdyMatch[1], 10);
+        const day = parseInt(mdyMatch[2], 10);
+        const year = parseInt(mdyMatch[3], 10);
+        return `${month.toString().padStart(2, '0')}/${day.toString().padStart(2, '0')}/${year}`;
       }
-      case "currency_eur": {
-        const num = parseFloat(value.replace(/[€,\s]/g, ''));
-        return isNaN(num) ? value : `€${num.toLocaleString('ja-JP', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+      return value;
+    }
+    case "time": {
+      const timeMatch = value.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?/);
+      if (timeMatch) {
+        return value;
       }
-      case "percent": {
-        const num = parseFloat(value.replace(/[%,\s]/g, ''));
-        if (isNaN(num)) return value;
-        // パーセント表示（値が1以上100以下の場合は既にパーセント値として扱う）
-        // 例：50 → 50.00%、0.5 → 0.50%
-        const percentValue = num >= 1 && num <= 100 ? num : num * 100;
-        return `${percentValue.toFixed(2)}%`;
+      return value;
+    }
+    case "datetime": {
+      const serialMatch = value.match(/^\d{5}$/);
+      if (serialMatch) {
+        const serial = parseInt(value, 10);
+        const excelEpoch = new Date(1899, 11, 30);
+        const date = new Date(excelEpoch.getTime() + serial * 24 * 60 * 60 * 1000);
+        if (date.getTime() && !isNaN(date.getTime())) {
+          return date.toLocaleString('ja-JP', { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+        }
       }
-      default:
+      const dateTimeMatch = value.match(/(\d{4}[\/\-]\d{1,2}[\/\-]\d{1,2})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?/);
+      if (dateTimeMatch) {
         return value;
+      }
+      return value;
     }
-  };
+    case "currency_jpy": {
+      const num = parseFloat(value.replace(/[¥,\s]/g, ''));
+      return isNaN(num) ? value : `¥${Math.round(num).toLocaleString('ja-JP')}`;
+    }
+    case "currency_usd": {
+      const num = parseFloat(value.replace(/[$,\s]/g, ''));
+      return isNaN(num) ? value : `$${num.toLocaleString('ja-JP', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    }
+    case "currency_eur": {
+      const num = parseFloat(value.replace(/[€,\s]/g, ''));
+      return isNaN(num) ? value : `€${num.toLocaleString('ja-JP', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    }
+    case "percent": {
+      const num = parseFloat(value.replace(/[%,\s]/g, ''));
+      if (isNaN(num)) return value;
+      // パーセント表示（値が1以上100以下の場合は既にパーセント値として扱う）
+      // 例：50 → 50.00%、0.5 → 0.50%
+      const percentValue = num >= 1 && num <= 100 ? num : num * 100;
+      return `${percentValue.toFixed(2)}%`;
+    }
+    default:
+      return value;
+  }
+}
+
+function PreviewTable({ 
+  data, 
+  numericColumns = [], 
+  columnFormats = {} 
+}: { 
+  data: TableData; 
+  numericColumns?: string[]; 
+  columnFormats?: Record<string, DataFormat>;
+}) {
+  if (!data || data.rows.length === 0) {
+    return <div className="text-sm text-muted-foreground">データがありません</div>;
+  }
+
+  const formatValue = (value: string, header: string) => formatCellValue(value, header, numericColumns, columnFormats);
 
   return (
     <div className="max-h-96 overflow-auto rounded-md border">
@@ -237,6 +1329,446 @@ function PreviewTable({
   );
 }
 
+// 比較結果の一覧の行の高さ（表示範囲の行だけ描画するため固定）
+const EXPLORER_ROW_HEIGHT = 33;
+const EXPLORER_HEIGHT = 480;
+const EXPLORER_OVERSCAN = 10;
+
+// 比較結果の一覧（一致状況で行を色分けし、差分のあるセルを強調。highlights は data の行と同じ順）
+function ResultGrid({
+  data,
+  highlights,
+  numericColumns,
+  columnFormats,
+  onRowClick,
+  annotations,
+  rowKeys,
+  onAnnotate,
+}: {
+  data: TableData;
+  highlights: RowHighlight[];
+  numericColumns: string[];
+  columnFormats: Record<string, DataFormat>;
+  onRowClick: (rowIdx: number) => void;
+  annotations: Record<string, RowAnnotation>;
+  rowKeys: string[];
+  onAnnotate: (rowIdx: number, patch: Partial<RowAnnotation>) => void;
+}) {
+  const [scrollTop, setScrollTop] = useState(0);
+
+  if (data.rows.length === 0) {
+    return <div className="text-sm text-muted-foreground">条件に一致する行がありません</div>;
+  }
+
+  const first = Math.max(0, Math.floor(scrollTop / EXPLORER_ROW_HEIGHT) - EXPLORER_OVERSCAN);
+  const last = Math.min(data.rows.length, Math.ceil((scrollTop + EXPLORER_HEIGHT) / EXPLORER_ROW_HEIGHT) + EXPLORER_OVERSCAN);
+  const categoryColors = new Map(matchCategoryStyles.map(style => [style.id, `#${style.argb.slice(2)}`]));
+
+  return (
+    <div
+      className="overflow-auto rounded-md border"
+      style={{ maxHeight: EXPLORER_HEIGHT }}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <table className="w-full text-sm">
+        <thead className="bg-muted sticky top-0 z-10">
+          <tr>
+            {data.headers.map((header, idx) => (
+              <th key={idx} className="px-4 py-2 text-left font-medium border-b whitespace-nowrap">
+                {header}
+              </th>
+            ))}
+            <th className="px-2 py-2 text-left font-medium border-b whitespace-nowrap">対応状況</th>
+            <th className="px-2 py-2 text-left font-medium border-b whitespace-nowrap">コメント</th>
+            <th className="px-2 py-2 text-left font-medium border-b whitespace-nowrap">担当者</th>
+          </tr>
+        </thead>
+        <tbody>
+          {first > 0 && <tr style={{ height: first * EXPLORER_ROW_HEIGHT }} />}
+          {data.rows.slice(first, last).map((row, i) => {
+            const highlight = highlights[first + i];
+            const diffHeaders = new Set(highlight?.diffPairs.flatMap(pair => [pair.left, pair.right]));
+            const annotation = (highlight && annotations[rowKeys[highlight.rowIdx]]) || emptyAnnotation;
+            const annotate = (patch: Partial<RowAnnotation>) => highlight && onAnnotate(highlight.rowIdx, patch);
+            return (
+              <tr
+                key={first + i}
+                className="border-b cursor-pointer hover:brightness-95"
+                onClick={() => highlight && onRowClick(highlight.rowIdx)}
+                style={{ height: EXPLORER_ROW_HEIGHT, backgroundColor: highlight && categoryColors.get(highlight.category) }}
+              >
+                {row.map((cell, cellIdx) => {
+                  const header = data.headers[cellIdx];
+                  return (
+                    <td
+                      key={cellIdx}
+                      className={`px-4 py-1 max-w-xs truncate ${diffHeaders.has(header) ? "bg-red-100 font-semibold text-red-700" : ""}`}
+                      title={cell}
+                    >
+                      {formatCellValue(cell, header, numericColumns, columnFormats)}
+                    </td>
+                  );
+                })}
+                {/* レビューの入力（行の詳細を開かないようにクリックを止める） */}
+                <td className="px-2 py-0.5 whitespace-nowrap" onClick={(e) => e.stopPropagation()}>
+                  {annotation.changedColumns?.length ? (
+                    <span className="mr-1 text-orange-600" title={`前回のレビューから値が変わった列: ${annotation.changedColumns.join(", ")}`}>
+                      ⚠
+                    </span>
+                  ) : null}
+                  <select
+                    value={annotation.status}
+                    onChange={(e) => annotate({ status: e.target.value as ReviewStatus, changedColumns: undefined })}
+                    className={`rounded-md border border-input bg-background px-1 py-0.5 text-xs ${
+                      highlight && needsReview(highlight) && annotation.status === "open" ? "border-orange-500" : ""
+                    }`}
+                  >
+                    {reviewStatuses.map((status) => (
+                      <option key={status.id} value={status.id}>{status.name}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-2 py-0.5" onClick={(e) => e.stopPropagation()}>
+                  <input
+                    value={annotation.comment}
+                    onChange={(e) => annotate({ comment: e.target.value })}
+                    title={annotation.carriedOver ? "前回の出力から引き継いだレビュー" : undefined}
+                    className={`w-48 rounded-md border border-input bg-background px-1 py-0.5 text-xs ${annotation.carriedOver ? "italic" : ""}`}
+                  />
+                </td>
+                <td className="px-2 py-0.5" onClick={(e) => e.stopPropagation()}>
+                  <input
+                    value={annotation.reviewer}
+                    onChange={(e) => annotate({ reviewer: e.target.value })}
+                    className="w-24 rounded-md border border-input bg-background px-1 py-0.5 text-xs"
+                  />
+                </td>
+              </tr>
+            );
+          })}
+          {last < data.rows.length && <tr style={{ height: (data.rows.length - last) * EXPLORER_ROW_HEIGHT }} />}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// 左右の値の文字単位の差分（左側は削除された文字、右側は追加された文字を強調）
+function TextDiffView({ parts, side }: { parts: TextDiffPart[]; side: "left" | "right" }) {
+  const hidden = side === "left" ? "added" : "removed";
+  return (
+    <span className="whitespace-pre-wrap break-all">
+      {parts.filter(part => part.type !== hidden).map((part, idx) => (
+        <span
+          key={idx}
+          className={part.type === "equal" ? "" : side === "left" ? "bg-red-200 text-red-800 line-through" : "bg-green-200 text-green-800"}
+        >
+          {part.text}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+// 行の詳細（左右の値を列の対応付けの順に並べ、値が異なる項目を強調）
+function RowInspector({
+  detail,
+  position,
+  total,
+  onMove,
+  onClose,
+}: {
+  detail: RowDetail | null;
+  position: number; // 表示中の行のうちの位置（絞り込みで表示されていない場合は -1）
+  total: number;
+  onMove: (delta: number) => void;
+  onClose: () => void;
+}) {
+  const categoryStyle = detail && matchCategoryStyles.find(style => style.id === detail.category);
+  const isNumber = (value: string) => value.trim() !== "" && !isNaN(Number(value.replace(/,/g, "")));
+
+  return (
+    <Sheet open={detail !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent>
+        {detail && (
+          <>
+            <SheetHeader>
+              <SheetTitle>行の詳細</SheetTitle>
+              <SheetDescription>
+                {categoryStyle?.name}（match_status = {detail.status || "-"}
+                {detail.fuzzyScore && `、fuzzy_score = ${detail.fuzzyScore}`}）
+                {position >= 0 && ` ${position + 1} / ${total} 行目`}
+              </SheetDescription>
+            </SheetHeader>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => onMove(-1)} disabled={position <= 0}>
+                <ChevronUp className="mr-1 h-4 w-4" />
+                前の行
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => onMove(1)} disabled={position < 0 || position >= total - 1}>
+                <ChevronDown className="mr-1 h-4 w-4" />
+                次の行
+              </Button>
+            </div>
+            <div className="flex-1 overflow-auto rounded-md border">
+              <table className="w-full text-sm">
+                <thead className="bg-muted sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium border-b w-1/5">左側の列</th>
+                    <th className="px-3 py-2 text-left font-medium border-b w-[30%]">左側の値</th>
+                    <th className="px-3 py-2 text-left font-medium border-b w-[30%]">右側の値</th>
+                    <th className="px-3 py-2 text-left font-medium border-b w-1/5">右側の列</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {detail.fields.map((field, idx) => {
+                    // 数値は差額、それ以外は文字単位の差分を表示
+                    const numeric = isNumber(field.leftValue) && isNumber(field.rightValue);
+                    const parts = field.differs && !numeric ? diffChars(field.leftValue, field.rightValue) : null;
+                    return (
+                      <tr key={idx} className={`border-b ${field.differs ? "bg-red-50" : ""}`}>
+                        <td className={`px-3 py-1 ${field.key ? "font-semibold" : ""}`}>{field.left ?? "-"}</td>
+                        <td className="px-3 py-1">
+                          {parts ? <TextDiffView parts={parts} side="left" /> : field.leftValue}
+                        </td>
+                        <td className="px-3 py-1">
+                          {parts ? <TextDiffView parts={parts} side="right" /> : field.rightValue}
+                          {field.differs && numeric && (
+                            <span className="ml-2 text-xs text-muted-foreground">
+                              （差額 {Number(field.leftValue.replace(/,/g, "")) - Number(field.rightValue.replace(/,/g, ""))}）
+                            </span>
+                          )}
+                        </td>
+                        <td className={`px-3 py-1 ${field.key ? "font-semibold" : ""}`}>{field.right ?? "-"}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              比較ルールで値が異なると判定した項目（diff_cols）を強調しています。太字は結合キー列です。
+            </p>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+// レビューの集計と担当者名・表示中の行への一括設定
+function ReviewSummaryPanel({
+  summary,
+  reviewer,
+  onReviewerChange,
+  visibleCount,
+  onAnnotateVisible,
+  onImport,
+}: {
+  summary: AnnotationSummary;
+  reviewer: string;
+  onReviewerChange: (reviewer: string) => void;
+  visibleCount: number;
+  onAnnotateVisible: (status: ReviewStatus) => void;
+  onImport: (file: File) => void;
+}) {
+  const [bulkStatus, setBulkStatus] = useState<ReviewStatus>("explained");
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="space-y-2 rounded-md border border-input bg-background p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <label className="text-sm font-medium">
+          レビュー（説明が必要な行 {summary.required}件のうち未対応 {summary.unresolved}件）
+        </label>
+        <div className="flex items-center gap-2">
+          <label htmlFor="reviewer-name" className="text-xs text-muted-foreground">担当者名</label>
+          <input
+            id="reviewer-name"
+            value={reviewer}
+            onChange={(e) => onReviewerChange(e.target.value)}
+            className="w-32 rounded-md border border-input bg-background px-2 py-1 text-xs"
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-3 text-xs">
+        {reviewStatuses.map((status) => (
+          <span key={status.id} title={status.description}>
+            {status.name}: {summary.statuses[status.id]}件
+          </span>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={bulkStatus}
+          onChange={(e) => setBulkStatus(e.target.value as ReviewStatus)}
+          className="rounded-md border border-input bg-background px-2 py-1 text-xs"
+        >
+          {reviewStatuses.map((status) => (
+            <option key={status.id} value={status.id}>{status.name}</option>
+          ))}
+        </select>
+        <Button variant="outline" size="sm" onClick={() => onAnnotateVisible(bulkStatus)} disabled={visibleCount === 0}>
+          表示中の{visibleCount}行に設定
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => importInputRef.current?.click()}>
+          <Upload className="mr-2 h-4 w-4" />
+          前回の出力からレビューを引き継ぐ
+        </Button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".xlsx"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) onImport(file);
+          }}
+        />
+      </div>
+      {summary.changed > 0 && (
+        <p className="text-xs text-orange-600">
+          ⚠ 前回のレビューから値が変わった行が{summary.changed}件あります。内容を確認して対応状況を選び直してください。
+        </p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        対応状況・コメント・担当者は比較したファイル・シート・キー列ごとにブラウザに保存し、出力するファイルに列（{ANNOTATION_HEADERS.join(", ")}）として追加します。担当者が空の行には担当者名を入れます。前回出力した比較結果・レポートを読み込むと、結合キーの値が同じ行にコメントと対応状況を引き継ぎます（今回すでにレビューがある行は変更しません）。
+      </p>
+    </div>
+  );
+}
+
+// 比較結果の絞り込みの設定コンポーネント（件数は検索・列ごとの条件を適用した行数）
+function ResultFilterPanel({
+  filter,
+  onChange,
+  counts,
+  headers,
+  diffColumns,
+  shown,
+  total,
+}: {
+  filter: ResultFilter;
+  onChange: (filter: ResultFilter) => void;
+  counts: Record<QuickFilter, number>;
+  headers: string[];
+  diffColumns: string[];
+  shown: number;
+  total: number;
+}) {
+  const updateColumn = (idx: number, update: Partial<ColumnFilter>) =>
+    onChange({ ...filter, columns: filter.columns.map((c, i) => (i === idx ? { ...c, ...update } : c)) });
+
+  return (
+    <div className="space-y-2 rounded-md border border-input bg-background p-3">
+      <div className="flex flex-wrap gap-2">
+        {quickFilters.map((quick) => (
+          <Button
+            key={quick.id}
+            variant={filter.quick === quick.id ? "default" : "outline"}
+            size="sm"
+            onClick={() => onChange({ ...filter, quick: quick.id })}
+          >
+            {quick.name}（{counts[quick.id]}）
+          </Button>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={filter.diffColumn}
+          onChange={(e) => onChange({ ...filter, diffColumn: e.target.value })}
+          className="rounded-md border border-input bg-background px-2 py-1 text-xs"
+        >
+          <option value="">値が異なる列（指定なし）</option>
+          {diffColumns.map((col) => (
+            <option key={col} value={col}>{col} が異なる行</option>
+          ))}
+        </select>
+        <input
+          type="search"
+          value={filter.search}
+          onChange={(e) => onChange({ ...filter, search: e.target.value })}
+          placeholder="すべての列を検索"
+          className="flex-1 min-w-[200px] rounded-md border border-input bg-background px-2 py-1 text-xs"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...filter, columns: [...filter.columns, { column: "", text: "", min: "", max: "" }] })}
+        >
+          列の条件を追加
+        </Button>
+        {isResultFiltered(filter) && (
+          <Button variant="ghost" size="sm" onClick={() => onChange(defaultResultFilter)}>
+            <X className="mr-1 h-4 w-4" />
+            条件をクリア
+          </Button>
+        )}
+      </div>
+      {filter.columns.map((columnFilter, idx) => (
+        <div key={idx} className="flex flex-wrap items-center gap-2">
+          <select
+            value={columnFilter.column}
+            onChange={(e) => updateColumn(idx, { column: e.target.value })}
+            className="rounded-md border border-input bg-background px-2 py-1 text-xs"
+          >
+            <option value="">列を選択</option>
+            {headers.map((header) => (
+              <option key={header} value={header}>{header}</option>
+            ))}
+          </select>
+          <input
+            value={columnFilter.text}
+            onChange={(e) => updateColumn(idx, { text: e.target.value })}
+            placeholder="含む文字列"
+            className="w-32 rounded-md border border-input bg-background px-2 py-1 text-xs"
+          />
+          <input
+            type="number"
+            value={columnFilter.min}
+            onChange={(e) => updateColumn(idx, { min: e.target.value })}
+            placeholder="最小値"
+            className="w-24 rounded-md border border-input bg-background px-2 py-1 text-xs"
+          />
+          <span className="text-xs text-muted-foreground">〜</span>
+          <input
+            type="number"
+            value={columnFilter.max}
+            onChange={(e) => updateColumn(idx, { max: e.target.value })}
+            placeholder="最大値"
+            className="w-24 rounded-md border border-input bg-background px-2 py-1 text-xs"
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ ...filter, columns: filter.columns.filter((_, i) => i !== idx) })}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <p className="text-xs text-muted-foreground">
+        {shown} / {total} 行を表示しています。行をクリックすると左右の値を並べて表示します。比較結果のダウンロードは表示中の行だけを出力します（レポートはすべての行）。
+      </p>
+    </div>
+  );
+}
+
+// シートを読み込む対象（複数ファイルの比較はファイル枠の番号）
+type FileLoadTarget = "left" | "right" | "split" | `multi-${number}`;
+
+// 複数ファイルの比較のファイル枠
+interface MultiFileSlot {
+  id: number;
+  file: File | null;
+  book: ExcelBook | null;
+  sheet: string;
+  data: TableData | null;
+}
+
+const emptyMultiSlot = (id: number): MultiFileSlot => ({ id, file: null, book: null, sheet: "", data: null });
+
 export default function Home() {
   const [activeTab, setActiveTab] = useState("compare");
   const [currentTheme, setCurrentTheme] = useState<Theme>("dark");
@@ -247,206 +1779,160 @@ export default function Home() {
   const [rightFile, setRightFile] = useState<File | null>(null);
   const [leftData, setLeftData] = useState<TableData | null>(null);
   const [rightData, setRightData] = useState<TableData | null>(null);
+  const [leftBook, setLeftBook] = useState<ExcelBook | null>(null);
+  const [rightBook, setRightBook] = useState<ExcelBook | null>(null);
+  const [leftSheet, setLeftSheet] = useState(""); // 左側の選択シート
+  const [rightSheet, setRightSheet] = useState(""); // 右側の選択シート
+  const [leftImportOptions, setLeftImportOptions] = useState<ImportOptions>(defaultImportOptions);
+  const [rightImportOptions, setRightImportOptions] = useState<ImportOptions>(defaultImportOptions);
+  const [largeFileOptions, setLargeFileOptions] = useState<LargeFileOptions>(defaultLargeFileOptions);
+  const [engineMode, setEngineMode] = useState<EngineMode>("auto"); // 比較・分割に使うエンジン
+  const [fileLoadProgress, setFileLoadProgress] = useState<(StreamProgress & { target: FileLoadTarget }) | null>(null); // 逐次読み込み中のシート
+  const [leftCsvOptions, setLeftCsvOptions] = useState<CsvOptions>(defaultCsvOptions);
+  const [rightCsvOptions, setRightCsvOptions] = useState<CsvOptions>(defaultCsvOptions);
   const [compareKeys, setCompareKeys] = useState<string[]>([]);
-  const [compareColumns, setCompareColumns] = useState<{ left: string; right: string; label: string }[]>([]);
-  const [compareOptions, setCompareOptions] = useState<CompareOptions>({
-    trim: true,
-    case_insensitive: false,
-  });
-  const [sortByKeys, setSortByKeys] = useState(true); // キー列でソートするかどうか
-  const [excelHeaderColor, setExcelHeaderColor] = useState(true); // ヘッダー行に色を付ける
-  const [excelBorders, setExcelBorders] = useState(true); // 罫線を引く
-  const [excelHeaderColorValue, setExcelHeaderColorValue] = useState("aqua"); // ヘッダー行の色
-  const [excelShowTotal, setExcelShowTotal] = useState(true); // 合計行を表示する
-
-  // Excelヘッダー行のカラーパレット（視認性の良い10種類）
-  const excelHeaderColors = [
-    { id: "aqua", name: "アクア", color: "#B3E5FC", argb: "FFB3E5FC" }, // Accent5 lighter80%
-    { id: "blue", name: "青", color: "#90CAF9", argb: "FF90CAF9" },
-    { id: "green", name: "グリーン", color: "#A5D6A7", argb: "FFA5D6A7" },
-    { id: "orange", name: "オレンジ", color: "#FFCC80", argb: "FFFFCC80" },
-    { id: "purple", name: "パープル", color: "#CE93D8", argb: "FFCE93D8" },
-    { id: "pink", name: "ピンク", color: "#F48FB1", argb: "FFF48FB1" },
-    { id: "yellow", name: "イエロー", color: "#FFF59D", argb: "FFFFF59D" },
-    { id: "teal", name: "ティール", color: "#80CBC4", argb: "FF80CBC4" },
-    { id: "cyan", name: "シアン", color: "#80DEEA", argb: "FF80DEEA" },
-    { id: "lime", name: "ライム", color: "#E6EE9C", argb: "FFE6EE9C" },
-  ];
-  const [compareResult, setCompareResult] = useState<any | null>(null);
-  const [mergedResult, setMergedResult] = useState<TableData | null>(null);
-  const [selectedColumns, setSelectedColumns] = useState<string[]>([]);
-  const [columnOrder, setColumnOrder] = useState<string[]>([]); // 列の表示順序
-  const [sortColumns, setSortColumns] = useState<{ column: string; direction: "asc" | "desc" }[]>([]);
-  const [draggedColumn, setDraggedColumn] = useState<string | null>(null); // ドラッグ中の列
-  const [columnFormats, setColumnFormats] = useState<Record<string, DataFormat>>({}); // 列ごとのデータ形式（比較モード）
-  const [showColumnOrder, setShowColumnOrder] = useState(false); // 列の表示順序セクションの表示/非表示
-  const [showColumnFormats, setShowColumnFormats] = useState(false); // データ形式セクションの表示/非表示
-  const [showSort, setShowSort] = useState(false); // ソートセクションの表示/非表示
-  
-  // 日付の検出と変換のヘルパー関数
-  const parseDate = (value: string): Date | null => {
-    if (!value || typeof value !== 'string') return null;
-    const trimmed = value.trim();
-    if (!trimmed) return null;
-    
-    // Excelのシリアル値（5桁の数字）を検出（最初にチェック）
-    const serialMatch = trimmed.match(/^\d{5}$/);
-    if (serialMatch) {
-      const serial = parseInt(trimmed, 10);
-      // Excelのシリアル値は1900年1月1日からの日数（ただし1900年を閏年として扱うバグがあるため、1日引く）
-      // Excelのエポックは1899年12月30日（1900年1月1日を1として扱う）
-      const excelEpoch = new Date(1899, 11, 30);
-      const date = new Date(excelEpoch.getTime() + serial * 24 * 60 * 60 * 1000);
-      if (date.getTime() && !isNaN(date.getTime())) {
-        return date;
-      }
-    }
-    
-    // yyyy/mm/dd または yyyy-mm-dd
-    const ymdMatch = trimmed.match(/^(\d{4})[\/\-](\d{1,2})[\/\-](\d{1,2})/);
-    if (ymdMatch) {
-      const year = parseInt(ymdMatch[1], 10);
-      const month = parseInt(ymdMatch[2], 10) - 1;
-      const day = parseInt(ymdMatch[3], 10);
-      const date = new Date(year, month, day);
-      if (date.getFullYear() === year && date.getMonth() === month && date.getDate() === day) {
-        return date;
-      }
-    }
-    
-    // mm/dd/yyyy
-    const mdyMatch = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
-    if (mdyMatch) {
-      const month = parseInt(mdyMatch[1], 10) - 1;
-      const day = parseInt(mdyMatch[2], 10);
-      const year = parseInt(mdyMatch[3], 10);
-      const date = new Date(year, month, day);
-      if (date.getFullYear() === year && date.getMonth() === month && date.getDate() === day) {
-        return date;
-      }
-    }
-    
-    return null;
-  };
-
-  // データ形式に応じて値を変換
-  const convertValueByFormat = (value: string, format: DataFormat): any => {
-    if (!value) return value;
-    
-    switch (format) {
-      case "text":
-        return value;
-      case "number":
-        const num = parseFloat(value);
-        return isNaN(num) ? value : Math.round(num);
-      case "number_decimal":
-        const numDec = parseFloat(value);
-        return isNaN(numDec) ? value : numDec;
-      case "date_ymd":
-      case "date_ymd_dash":
-      case "date_mdy":
-        const date = parseDate(value);
-        // Dateオブジェクトを返す（ExcelJSが日付として認識）
-        return date || value;
-      case "time":
-        // 時刻形式の検出（hh:mm:ss または hh:mm）
-        const timeMatch = value.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?/);
-        if (timeMatch) {
-          // 時刻をDateオブジェクトに変換（1900-01-01を基準日として使用）
-          const hours = parseInt(timeMatch[1], 10);
-          const minutes = parseInt(timeMatch[2], 10);
-          const seconds = timeMatch[3] ? parseInt(timeMatch[3], 10) : 0;
-          const timeDate = new Date(1900, 0, 1, hours, minutes, seconds);
-          return timeDate;
-        }
-        return value;
-      case "datetime":
-        const dateTime = parseDate(value);
-        // 日時形式の検出（yyyy/mm/dd hh:mm:ss など）
-        const dateTimeMatch = value.match(/(\d{4}[\/\-]\d{1,2}[\/\-]\d{1,2})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?/);
-        if (dateTimeMatch) {
-          const datePart = parseDate(dateTimeMatch[1]);
-          if (datePart) {
-            const hours = parseInt(dateTimeMatch[2], 10);
-            const minutes = parseInt(dateTimeMatch[3], 10);
-            const seconds = dateTimeMatch[4] ? parseInt(dateTimeMatch[4], 10) : 0;
-            datePart.setHours(hours, minutes, seconds);
-            return datePart;
-          }
-        }
-        return dateTime || value;
-      case "currency_jpy":
-      case "currency_usd":
-      case "currency_eur":
-        const currencyNum = parseFloat(value.replace(/[¥$€,\s]/g, ''));
-        return isNaN(currencyNum) ? value : currencyNum;
-      case "percent":
-        const percentNum = parseFloat(value.replace(/[%,\s]/g, ''));
-        return isNaN(percentNum) ? value : percentNum / 100;
-      default:
-        return value;
-    }
-  };
+  const [leftAggregate, setLeftAggregate] = useState<AggregateOptions>(defaultAggregateOptions); // 左側の集計設定
+  const [rightAggregate, setRightAggregate] = useState<AggregateOptions>(defaultAggregateOptions); // 右側の集計設定
+  const [columnMapping, setColumnMapping] = useState<ColumnPair[]>([]); // 列名が異なる左右の列の対応付け
+  const [fuzzyOptions, setFuzzyOptions] = useState<FuzzyOptions>(defaultFuzzyOptions); // あいまい一致の設定
+  const [fuzzyDecisions, setFuzzyDecisions] = useState<FuzzyDecision[]>([]); // あいまい一致の候補ごとの判定
+  // 左右とも指定済みの対応付けのみ使用する
+  const activeColumnMapping = useMemo(
+    () => columnMapping.filter(pair => pair.left && pair.right),
+    [columnMapping]
+  );
+  const [compareColumns, setCompareColumns] = useState<{ left: string; right: string; label: string }[]>([]);
+  const [compareOptions, setCompareOptions] = useState<CompareOptions>({
+    trim: true,
+    case_insensitive: false,
+    match_mode: "one_to_one",
+  });
+  const [sortByKeys, setSortByKeys] = useState(true); // キー列でソートするかどうか
+  const [excelHeaderColor, setExcelHeaderColor] = useState(true); // ヘッダー行に色を付ける
+  const [excelBorders, setExcelBorders] = useState(true); // 罫線を引く
+  const [excelHighlightDiffs, setExcelHighlightDiffs] = useState(true); // 一致状況で色分けし、差分セルを強調する
+  const [excelHeaderColorValue, setExcelHeaderColorValue] = useState("aqua"); // ヘッダー行の色
+  const [excelShowTotal, setExcelShowTotal] = useState(true); // 合計行を表示する
 
-  // 選択された列のみを含むテーブルデータを生成（順序を考慮）
-  const filterColumns = (data: TableData, columns: string[], order?: string[]): TableData => {
-    // 順序が指定されている場合はそれを使用、ない場合はcolumnsの順序を使用
-    const orderedColumns = order && order.length > 0 
-      ? order.filter(col => columns.includes(col)).concat(columns.filter(col => !order.includes(col)))
-      : columns;
-    
-    const columnIndices = orderedColumns.map(col => data.headers.indexOf(col)).filter(idx => idx !== -1);
-    return {
-      headers: orderedColumns.filter(col => data.headers.includes(col)),
-      rows: data.rows.map(row => columnIndices.map(idx => row[idx] || "")),
-    };
-  };
+  const [compareResult, setCompareResult] = useState<CompareJobOutput | null>(null);
+  const [mergedResult, setMergedResult] = useState<TableData | null>(null);
+  const [selectedColumns, setSelectedColumns] = useState<string[]>([]);
+  const [columnOrder, setColumnOrder] = useState<string[]>([]); // 列の表示順序
+  const [sortColumns, setSortColumns] = useState<SortColumn[]>([]);
+  const [draggedColumn, setDraggedColumn] = useState<string | null>(null); // ドラッグ中の列
+  const [columnFormats, setColumnFormats] = useState<Record<string, DataFormat>>({}); // 列ごとのデータ形式（比較モード）
+  const [showColumnOrder, setShowColumnOrder] = useState(false); // 列の表示順序セクションの表示/非表示
+  const [showColumnFormats, setShowColumnFormats] = useState(false); // データ形式セクションの表示/非表示
+  const [showSort, setShowSort] = useState(false); // ソートセクションの表示/非表示
+  const [resultFilter, setResultFilter] = useState<ResultFilter>(defaultResultFilter); // 比較結果の絞り込み
+  const [inspectedRow, setInspectedRow] = useState<number | null>(null); // 詳細を表示する行（mergedResult の行番号）
+  const [annotations, setAnnotations] = useState<JobAnnotations | null>(null); // 比較結果のレビュー
+  const [annotationsDirty, setAnnotationsDirty] = useState(false); // 保存していない変更がある
+  const [reviewerName, setReviewerName] = useState(""); // レビューの担当者名（ローカルストレージに保存）
   
   // リアルタイムソート処理（Hooksの順序を保つため、条件分岐の外に配置）
+  // mergedResult の行番号を表示順に並べたもの（出力時に match_status などを参照するため）
+  const sortedMergedOrder = useMemo(
+    () => (mergedResult ? sortRowOrder(mergedResult, sortColumns) : null),
+    [mergedResult, sortColumns]
+  );
+
+  // 表示順の行ごとの分類と差分セル（すべての行）
+  const mergedHighlights = useMemo(
+    () => (mergedResult && sortedMergedOrder && compareResult ? getRowHighlights(mergedResult, sortedMergedOrder, compareResult.column_mapping) : []),
+    [mergedResult, sortedMergedOrder, compareResult]
+  );
+  // 絞り込みの条件を満たす行（表示・比較結果の出力に使う）
+  const visibleHighlights = useMemo(
+    () => (mergedResult ? filterHighlights(mergedResult, mergedHighlights, resultFilter) : []),
+    [mergedResult, mergedHighlights, resultFilter]
+  );
+  const quickFilterCounts = useMemo(
+    () => countQuickFilters(mergedResult ?? { headers: [], rows: [] }, mergedHighlights, resultFilter),
+    [mergedResult, mergedHighlights, resultFilter]
+  );
+  const mergedDiffColumns = useMemo(() => getDiffColumns(mergedHighlights), [mergedHighlights]);
+  // 詳細を表示する行（あいまい一致の採用・却下で行が変わった場合は閉じる）
+  const inspectedDetail = useMemo(
+    () => (mergedResult && compareResult && inspectedRow !== null && inspectedRow < mergedResult.rows.length
+      ? getRowDetail(mergedResult, inspectedRow, compareResult.column_mapping, compareResult.report.keys)
+      : null),
+    [mergedResult, compareResult, inspectedRow]
+  );
+  const inspectedPosition = visibleHighlights.findIndex(h => h.rowIdx === inspectedRow);
+  // レビューの行の識別子（mergedResult の行ごと）と集計
+  const annotationRowKeys = useMemo(
+    () => (mergedResult && compareResult ? getAnnotationRowKeys(mergedResult, compareResult.report.keys.map(k => k.left)) : []),
+    [mergedResult, compareResult]
+  );
+  const annotationSummary = useMemo(
+    () => summarizeAnnotations(mergedHighlights, annotationRowKeys, annotations?.rows ?? {}),
+    [mergedHighlights, annotationRowKeys, annotations]
+  );
+
   const sortedMergedResult = useMemo(() => {
-    if (!mergedResult) return null;
+    if (!mergedResult || !sortedMergedOrder) return null;
     
     // 選択された列でフィルタリング（順序を考慮）
     const filteredData = filterColumns(mergedResult, selectedColumns, columnOrder);
     
-    if (sortColumns.length === 0) return filteredData;
-    
-    const sortedRows = [...filteredData.rows].sort((a, b) => {
-      for (const sortCol of sortColumns) {
-        const sortIdx = filteredData.headers.indexOf(sortCol.column);
-        if (sortIdx === -1) continue;
-        
-        const aVal = parseFloat(a[sortIdx]) || 0;
-        const bVal = parseFloat(b[sortIdx]) || 0;
-        // 文字列の場合は文字列比較
-        if (isNaN(aVal) || isNaN(bVal)) {
-          const aStr = String(a[sortIdx] || "");
-          const bStr = String(b[sortIdx] || "");
-          const result = sortCol.direction === "asc" ? aStr.localeCompare(bStr) : bStr.localeCompare(aStr);
-          if (result !== 0) return result;
-        } else {
-          const result = sortCol.direction === "asc" ? aVal - bVal : bVal - aVal;
-          if (result !== 0) return result;
-        }
-      }
-      return 0;
-    });
+    if (sortColumns.length === 0 && !isResultFiltered(resultFilter)) return filteredData;
     
-    return {
-      ...filteredData,
-      rows: sortedRows,
-    };
-  }, [mergedResult, selectedColumns, columnOrder, sortColumns]);
+    return reorderRows(filteredData, visibleHighlights.map(h => h.rowIdx));
+  }, [mergedResult, sortedMergedOrder, visibleHighlights, resultFilter, selectedColumns, columnOrder, sortColumns]);
+
+  // あいまい一致の候補の左右のキー（確認の表に表示する）
+  const fuzzyMatchKeys = useMemo(
+    () => (compareResult ? getFuzzyMatchKeys(compareResult, compareResult.fuzzy_matches, compareResult.report.keys) : []),
+    [compareResult]
+  );
+
+  // Multi compare state
+  const [multiSlots, setMultiSlots] = useState<MultiFileSlot[]>(() => [1, 2, 3].map(emptyMultiSlot));
+  const nextMultiSlotId = useRef(4);
+  const [multiBaseline, setMultiBaseline] = useState(0); // 基準ファイルの枠の位置
+  const [multiKeys, setMultiKeys] = useState<string[]>([]); // 基準ファイルのキー列
+  const [multiOptions, setMultiOptions] = useState<CompareOptions>({ trim: true, case_insensitive: false });
+  const [multiResult, setMultiResult] = useState<{
+    output: MultiCompareOutput;
+    files: MultiCompareReportSettings["files"];
+    baseline: number;
+    options: CompareOptions;
+    executedAt: Date;
+  } | null>(null);
+  const multiBaseData = multiSlots[multiBaseline]?.data ?? null;
+  // 基準ファイル以外の列の対応付け（同名の列が無い列は候補を自動で採用）
+  const multiColumnMappings = useMemo(
+    () => multiSlots.map((slot, i) =>
+      i === multiBaseline || !slot.data || !multiBaseData
+        ? []
+        : suggestColumnMapping(multiBaseData, slot.data).map(({ left, right }) => ({ left, right }))
+    ),
+    [multiSlots, multiBaseline, multiBaseData]
+  );
+  const multiColumnGroups = useMemo(
+    () => (multiResult ? getMultiCompareColumnGroups(multiResult.output.result, multiResult.files, multiResult.baseline) : null),
+    [multiResult]
+  );
+  const multiCounts = useMemo(
+    () => (multiResult && multiColumnGroups ? countMultiCompare(multiResult.output.result, multiColumnGroups) : null),
+    [multiResult, multiColumnGroups]
+  );
 
   // Split state
   const [splitFile, setSplitFile] = useState<File | null>(null);
   const [splitData, setSplitData] = useState<TableData | null>(null);
+  const [splitBook, setSplitBook] = useState<ExcelBook | null>(null);
+  const [splitSheet, setSplitSheet] = useState(""); // 分割対象の選択シート
+  const [splitImportOptions, setSplitImportOptions] = useState<ImportOptions>(defaultImportOptions);
+  const [splitCsvOptions, setSplitCsvOptions] = useState<CsvOptions>(defaultCsvOptions);
   const [splitKeys, setSplitKeys] = useState<string[]>([]);
   const [splitResult, setSplitResult] = useState<any | null>(null);
   const [selectedSplitColumns, setSelectedSplitColumns] = useState<string[]>([]);
   const [splitColumnOrder, setSplitColumnOrder] = useState<string[]>([]); // 列の表示順序
   const [splitNumericColumns, setSplitNumericColumns] = useState<string[]>([]);
-  const [splitSortColumns, setSplitSortColumns] = useState<{ column: string; direction: "asc" | "desc" }[]>([]);
+  const [splitSortColumns, setSplitSortColumns] = useState<SortColumn[]>([]);
+  const [splitOutputMode, setSplitOutputMode] = useState<SplitOutputMode>("zip"); // 分割結果の出力形式
   const [draggedSplitColumn, setDraggedSplitColumn] = useState<string | null>(null); // ドラッグ中の列（分割モード）
   const [splitColumnFormats, setSplitColumnFormats] = useState<Record<string, DataFormat>>({}); // 列ごとのデータ形式（分割モード）
   const [showSplitColumnOrder, setShowSplitColumnOrder] = useState(false); // 列の表示順序セクションの表示/非表示（分割モード）
@@ -462,34 +1948,23 @@ export default function Home() {
     const firstPart = splitResult.parts[0];
     const filteredData = filterColumns(firstPart.table, selectedSplitColumns, splitColumnOrder);
     
-    if (splitSortColumns.length === 0) return filteredData;
-    
-    const sortedRows = [...filteredData.rows].sort((a, b) => {
-      for (const sortCol of splitSortColumns) {
-        const sortIdx = filteredData.headers.indexOf(sortCol.column);
-        if (sortIdx === -1) continue;
-        
-        const aVal = parseFloat(a[sortIdx]) || 0;
-        const bVal = parseFloat(b[sortIdx]) || 0;
-        if (isNaN(aVal) || isNaN(bVal)) {
-          const aStr = String(a[sortIdx] || "");
-          const bStr = String(b[sortIdx] || "");
-          const result = sortCol.direction === "asc" ? aStr.localeCompare(bStr) : bStr.localeCompare(aStr);
-          if (result !== 0) return result;
-        } else {
-          const result = sortCol.direction === "asc" ? aVal - bVal : bVal - aVal;
-          if (result !== 0) return result;
-        }
-      }
-      return 0;
-    });
-    
-    return {
-      ...filteredData,
-      rows: sortedRows,
-    };
+    return reorderRows(filteredData, sortRowOrder(filteredData, splitSortColumns));
   }, [splitResult, selectedSplitColumns, splitSortColumns]);
 
+  // 保存した設定（IndexedDB）と、比較・分割に適用中の設定
+  const [presets, setPresets] = useState<JobPreset[]>([]);
+  const [appliedComparePreset, setAppliedComparePreset] = useState<JobPreset | null>(null);
+  const [appliedSplitPreset, setAppliedSplitPreset] = useState<JobPreset | null>(null);
+  const comparePresetHeaders = useMemo(
+    () => (leftData && rightData ? [leftData.headers, rightData.headers] : null),
+    [leftData, rightData]
+  );
+  const splitPresetHeaders = useMemo(() => (splitData ? [splitData.headers] : null), [splitData]);
+
+  // 実行中の比較・分割処理（Web Worker）
+  const [taskProgress, setTaskProgress] = useState<{ type: WorkerTaskType; phases: Record<TaskPhase, number> } | null>(null);
+  const [taskError, setTaskError] = useState<{ type: WorkerTaskType; error: WasmErrorInfo } | null>(null); // 比較・分割のエラー
+  const runningTaskRef = useRef<WorkerTask<unknown> | null>(null);
   const leftFileInputRef = useRef<HTMLInputElement>(null);
   const rightFileInputRef = useRef<HTMLInputElement>(null);
   const splitFileInputRef = useRef<HTMLInputElement>(null);
@@ -520,6 +1995,27 @@ export default function Home() {
     }
   }, []);
 
+  // レビューの担当者名の読み込み・保存
+  useEffect(() => {
+    setReviewerName(localStorage.getItem("reviewer") ?? "");
+  }, []);
+
+  const changeReviewerName = (name: string) => {
+    setReviewerName(name);
+    localStorage.setItem("reviewer", name);
+  };
+
+  // レビューの変更を保存（入力中に毎回保存しないよう、少し待ってから保存）
+  useEffect(() => {
+    if (!annotations || !annotationsDirty) return;
+    const timer = setTimeout(() => {
+      saveAnnotations(annotations)
+        .then(() => setAnnotationsDirty(false))
+        .catch(error => console.error("レビューを保存できません:", error));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [annotations, annotationsDirty]);
+
   // テーマメニューの外側クリックで閉じる
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -533,6 +2029,243 @@ export default function Home() {
     }
   }, [showThemeMenu]);
 
+  // 保存した設定の読み込み
+  useEffect(() => {
+    listPresets()
+      .then(setPresets)
+      .catch((error) => console.error("保存した設定の読み込みに失敗しました:", error));
+  }, []);
+
+  const currentExcelOptions = (): ExcelOptions => ({
+    headerColor: excelHeaderColor,
+    borders: excelBorders,
+    highlightDiffs: excelHighlightDiffs,
+    headerColorValue: excelHeaderColorValue,
+    showTotal: excelShowTotal,
+  });
+
+  // 画面の比較・分割の設定（保存する設定と同じ形式）
+  const currentCompareSettings = (): CompareJobSettings => ({
+    compareKeys,
+    columnMapping: activeColumnMapping,
+    compareColumns,
+    compareOptions,
+    sortByKeys,
+    leftAggregate,
+    rightAggregate,
+    fuzzyOptions,
+    selectedColumns,
+    columnOrder,
+    columnFormats,
+    sortColumns,
+    excel: currentExcelOptions(),
+  });
+
+  const currentSplitSettings = (): SplitJobSettings => ({
+    splitKeys,
+    selectedColumns: selectedSplitColumns,
+    columnOrder: splitColumnOrder,
+    numericColumns: splitNumericColumns,
+    columnFormats: splitColumnFormats,
+    sortColumns: splitSortColumns,
+    outputMode: splitOutputMode,
+    excel: currentExcelOptions(),
+  });
+
+  const applyExcelOptions = (excel: Partial<ExcelOptions> | undefined) => {
+    if (!excel) return;
+    if (excel.headerColor !== undefined) setExcelHeaderColor(excel.headerColor);
+    if (excel.borders !== undefined) setExcelBorders(excel.borders);
+    if (excel.highlightDiffs !== undefined) setExcelHighlightDiffs(excel.highlightDiffs);
+    if (excel.headerColorValue !== undefined) setExcelHeaderColorValue(excel.headerColorValue);
+    if (excel.showTotal !== undefined) setExcelShowTotal(excel.showTotal);
+  };
+
+  // 現在の設定を保存（同じ名前の設定は上書き）
+  const handleSavePreset = async (kind: PresetKind, name: string) => {
+    const headers = kind === "compare" ? comparePresetHeaders : splitPresetHeaders;
+    if (!headers || !name) return;
+    const settings = kind === "compare" ? currentCompareSettings() : currentSplitSettings();
+    const existing = presets.find(preset => preset.kind === kind && preset.name === name);
+    const preset = { ...createPreset(name, kind, headers, settings), ...(existing && { id: existing.id }) };
+    try {
+      await savePresets([preset]);
+      setPresets(await listPresets());
+      if (kind === "compare") {
+        setAppliedComparePreset(preset);
+      } else {
+        setAppliedSplitPreset(preset);
+      }
+    } catch (error) {
+      console.error("設定の保存に失敗しました:", error);
+      alert(`設定の保存に失敗しました: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleDeletePreset = async (preset: JobPreset) => {
+    if (!confirm(`設定「${preset.name}」を削除しますか？`)) return;
+    try {
+      await deletePreset(preset.id);
+      setPresets(await listPresets());
+      if (appliedComparePreset?.id === preset.id) setAppliedComparePreset(null);
+      if (appliedSplitPreset?.id === preset.id) setAppliedSplitPreset(null);
+    } catch (error) {
+      console.error("設定の削除に失敗しました:", error);
+      alert(`設定の削除に失敗しました: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  // 保存した設定をすべてJSONで書き出す（チームでの共有用）
+  const handleExportPresets = () => {
+    const blob = new Blob([exportPresets(presets)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "excel_merge_presets.json";
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportPresets = async (file: File) => {
+    try {
+      const imported = parsePresetFile(await file.text());
+      await savePresets(imported);
+      setPresets(await listPresets());
+      alert(`${imported.length}件の設定を読み込みました`);
+    } catch (error) {
+      console.error("設定の読み込みに失敗しました:", error);
+      alert(`設定の読み込みに失敗しました: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  // 比較の設定を適用（列の選択・順序は結果があればすぐに、無ければ実行後に適用）
+  const applyComparePreset = (preset: JobPreset) => {
+    const settings = preset.settings as Partial<CompareJobSettings>;
+    if (settings.compareKeys) {
+      const keys = leftData ? settings.compareKeys.filter(key => leftData.headers.includes(key)) : settings.compareKeys;
+      if (keys.length > 0) setCompareKeys(keys);
+    }
+    if (settings.columnMapping) setColumnMapping(settings.columnMapping);
+    if (settings.compareColumns) setCompareColumns(settings.compareColumns);
+    if (settings.compareOptions) setCompareOptions(settings.compareOptions);
+    if (settings.sortByKeys !== undefined) setSortByKeys(settings.sortByKeys);
+    if (settings.leftAggregate) setLeftAggregate(settings.leftAggregate);
+    if (settings.rightAggregate) setRightAggregate(settings.rightAggregate);
+    if (settings.fuzzyOptions) setFuzzyOptions(settings.fuzzyOptions);
+    if (settings.columnFormats) setColumnFormats(settings.columnFormats);
+    if (settings.sortColumns) setSortColumns(settings.sortColumns);
+    applyExcelOptions(settings.excel);
+    if (mergedResult) {
+      const required = mergedResult.headers.filter(header => compareKeys.includes(header));
+      const layout = jobColumnLayout(mergedResult.headers, required, settings);
+      setSelectedColumns(layout.selected);
+      setColumnOrder(layout.order);
+    }
+    setAppliedComparePreset(preset);
+  };
+
+  const applySplitPreset = (preset: JobPreset) => {
+    const settings = preset.settings as Partial<SplitJobSettings>;
+    if (settings.splitKeys) {
+      const keys = splitData ? settings.splitKeys.filter(key => splitData.headers.includes(key)) : settings.splitKeys;
+      if (keys.length > 0) setSplitKeys(keys);
+    }
+    if (settings.numericColumns) setSplitNumericColumns(settings.numericColumns);
+    if (settings.columnFormats) setSplitColumnFormats(settings.columnFormats);
+    if (settings.sortColumns) setSplitSortColumns(settings.sortColumns);
+    if (settings.outputMode) setSplitOutputMode(settings.outputMode);
+    applyExcelOptions(settings.excel);
+    if (splitResult && splitResult.parts.length > 0) {
+      const headers: string[] = splitResult.parts[0].table.headers;
+      const layout = jobColumnLayout(headers, headers.filter(header => splitKeys.includes(header)), settings);
+      setSelectedSplitColumns(layout.selected);
+      setSplitColumnOrder(layout.order);
+    }
+    setAppliedSplitPreset(preset);
+  };
+
+  // シートを表として読み込む（逐次読み込み用に開いたブックは進捗を表示しながら読み込む）
+  const loadSheetTable = async (
+    book: ExcelBook,
+    sheetName: string,
+    options: ImportOptions,
+    target: FileLoadTarget
+  ): Promise<TableData> => {
+    if (!book.stream) {
+      return getSheetTable(book, sheetName, options);
+    }
+    setFileLoadProgress({ target, rowsRead: 0, estimatedRows: 0 });
+    try {
+      const { data, typedCellsDropped } = await readSheetTableStreaming(
+        book,
+        sheetName,
+        options,
+        largeFileOptions,
+        (progress) => setFileLoadProgress({ target, ...progress })
+      );
+      if (typedCellsDropped) {
+        alert(`メモリ上限（${largeFileOptions.memoryBudgetMB}MB）を超えるため、日付・数値などの型付きの値を省略して読み込みました`);
+      }
+      return data;
+    } finally {
+      setFileLoadProgress(null);
+    }
+  };
+
+  // 左側のシートを切り替え（キー列は新しいシートに存在するものだけ残す）
+  const selectLeftSheet = async (book: ExcelBook, sheetName: string, options: ImportOptions) => {
+    const data = await loadSheetTable(book, sheetName, options, "left");
+    setLeftSheet(sheetName);
+    setLeftData(data);
+    const keptKeys = compareKeys.filter(key => data.headers.includes(key));
+    if (keptKeys.length === 0 && data.headers.length > 0) {
+      setCompareKeys([data.headers[0]]);
+    } else if (keptKeys.length !== compareKeys.length) {
+      setCompareKeys(keptKeys);
+    }
+  };
+
+  const selectRightSheet = async (book: ExcelBook, sheetName: string, options: ImportOptions) => {
+    const data = await loadSheetTable(book, sheetName, options, "right");
+    setRightSheet(sheetName);
+    setRightData(data);
+  };
+
+  const selectSplitSheet = async (book: ExcelBook, sheetName: string, options: ImportOptions) => {
+    const data = await loadSheetTable(book, sheetName, options, "split");
+    setSplitSheet(sheetName);
+    setSplitData(data);
+    setSplitResult(null);
+    const keptKeys = splitKeys.filter(key => data.headers.includes(key));
+    if (keptKeys.length === 0 && data.headers.length > 0) {
+      setSplitKeys([data.headers[0]]);
+    } else if (keptKeys.length !== splitKeys.length) {
+      setSplitKeys(keptKeys);
+    }
+  };
+
+  // シート選択の変更（空のシートなどは読み込めないため通知する）
+  const handleSheetChange = async (select: () => Promise<void>) => {
+    try {
+      await select();
+    } catch (error) {
+      console.error('シート読み込みエラー:', error);
+      alert(`シートの読み込みに失敗しました: ${error}`);
+    }
+  };
+
+  // CSV/TSVの文字コード・区切り文字を変更して読み込み直す
+  const reloadWithCsvOptions = async (file: File | null, options: CsvOptions, onLoad: (book: ExcelBook) => Promise<void>) => {
+    if (!file) return;
+    try {
+      const book = await readBookFile(file, options);
+      await onLoad(book);
+    } catch (error) {
+      console.error('CSV読み込みエラー:', error);
+      alert(`ファイルの読み込みに失敗しました: ${error}`);
+    }
+  };
+
   const handleLeftFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -540,16 +2273,15 @@ export default function Home() {
     setLeftFile(file);
     setLeftData(null);
     try {
-      const data = await readExcelFile(file);
-      setLeftData(data);
-      if (compareKeys.length === 0 && data.headers.length > 0) {
-        setCompareKeys([data.headers[0]]);
-      }
+      const book = await readBookFile(file, leftCsvOptions, largeFileOptions);
+      setLeftBook(book);
+      await selectLeftSheet(book, getDefaultSheetName(book), leftImportOptions);
     } catch (error) {
       console.error('左側ファイル読み込みエラー:', error);
       alert(`ファイルの読み込みに失敗しました: ${error}`);
       setLeftFile(null);
       setLeftData(null);
+      setLeftBook(null);
     }
     // 同じファイルを再度選択できるようにする
     e.target.value = '';
@@ -562,13 +2294,15 @@ export default function Home() {
     setRightFile(file);
     setRightData(null);
     try {
-      const data = await readExcelFile(file);
-      setRightData(data);
+      const book = await readBookFile(file, rightCsvOptions, largeFileOptions);
+      setRightBook(book);
+      await selectRightSheet(book, getDefaultSheetName(book), rightImportOptions);
     } catch (error) {
       console.error('右側ファイル読み込みエラー:', error);
       alert(`ファイルの読み込みに失敗しました: ${error}`);
       setRightFile(null);
       setRightData(null);
+      setRightBook(null);
     }
     // 同じファイルを再度選択できるようにする
     e.target.value = '';
@@ -580,73 +2314,111 @@ export default function Home() {
     
     setSplitFile(file);
     try {
-      const data = await readExcelFile(file);
-      setSplitData(data);
-      if (splitKeys.length === 0 && data.headers.length > 0) {
-        setSplitKeys([data.headers[0]]);
-      }
+      const book = await readBookFile(file, splitCsvOptions, largeFileOptions);
+      setSplitBook(book);
+      await selectSplitSheet(book, getDefaultSheetName(book), splitImportOptions);
     } catch (error) {
       console.error('分割ファイル読み込みエラー:', error);
       alert(`ファイルの読み込みに失敗しました: ${error}`);
       setSplitFile(null);
       setSplitData(null);
+      setSplitBook(null);
     }
     // 同じファイルを再度選択できるようにする
     e.target.value = '';
   };
 
+  // 複数ファイルの比較のファイル枠を更新
+  const updateMultiSlot = (id: number, update: Partial<MultiFileSlot>) => {
+    setMultiSlots(prev => prev.map(slot => (slot.id === id ? { ...slot, ...update } : slot)));
+  };
+
+  // 基準ファイルに無いキー列を外す（1つも残らない場合は先頭の列）
+  const keepMultiKeys = (headers: string[]) => {
+    const keptKeys = multiKeys.filter(key => headers.includes(key));
+    if (keptKeys.length === 0 && headers.length > 0) {
+      setMultiKeys([headers[0]]);
+    } else if (keptKeys.length !== multiKeys.length) {
+      setMultiKeys(keptKeys);
+    }
+  };
+
+  const selectMultiSheet = async (id: number, book: ExcelBook, sheetName: string) => {
+    const data = await loadSheetTable(book, sheetName, defaultImportOptions, `multi-${id}`);
+    updateMultiSlot(id, { book, sheet: sheetName, data });
+    setMultiResult(null);
+    if (multiSlots[multiBaseline]?.id === id) keepMultiKeys(data.headers);
+  };
 
-  // 複数キーを結合する関数
-  const combineKeys = (row: string[], keyIndices: number[], options: CompareOptions): string => {
-    const values = keyIndices.map(idx => row[idx] || "");
-    let combined = values.join("|");
-    if (options.trim) {
-      combined = combined.trim();
+  const handleMultiFileChange = async (id: number, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    updateMultiSlot(id, { file, data: null });
+    try {
+      const book = await readBookFile(file, defaultCsvOptions, largeFileOptions);
+      await selectMultiSheet(id, book, getDefaultSheetName(book));
+    } catch (error) {
+      console.error('複数比較ファイル読み込みエラー:', error);
+      alert(`ファイルの読み込みに失敗しました: ${error}`);
+      updateMultiSlot(id, emptyMultiSlot(id));
     }
-    if (options.case_insensitive) {
-      combined = combined.toLowerCase();
+    // 同じファイルを再度選択できるようにする
+    e.target.value = '';
+  };
+
+  const addMultiSlot = () => {
+    setMultiSlots(prev => [...prev, emptyMultiSlot(nextMultiSlotId.current++)]);
+    setMultiResult(null);
+  };
+
+  // ファイル枠を削除（2つは残す。基準ファイルの位置は同じファイルを指すよう調整）
+  const removeMultiSlot = (index: number) => {
+    if (multiSlots.length <= 2) return;
+    setMultiSlots(multiSlots.filter((_, i) => i !== index));
+    if (index === multiBaseline) {
+      setMultiBaseline(0);
+      keepMultiKeys(multiSlots[index === 0 ? 1 : 0].data?.headers ?? []);
+    } else if (index < multiBaseline) {
+      setMultiBaseline(multiBaseline - 1);
     }
-    return combined;
+    setMultiResult(null);
   };
 
-  // キー列でソートする関数
-  const sortByKeyColumns = (data: TableData, keyColumns: string[], options: CompareOptions): TableData => {
-    const keyIndices = keyColumns.map(key => data.headers.indexOf(key)).filter(idx => idx !== -1);
-    if (keyIndices.length === 0) return data;
-
-    const sortedRows = [...data.rows].sort((a, b) => {
-      for (const keyIdx of keyIndices) {
-        let aVal = a[keyIdx] || "";
-        let bVal = b[keyIdx] || "";
-        
-        if (options.trim) {
-          aVal = aVal.trim();
-          bVal = bVal.trim();
-        }
-        if (options.case_insensitive) {
-          aVal = aVal.toLowerCase();
-          bVal = bVal.toLowerCase();
-        }
-        
-        // 数値として比較を試みる
-        const aNum = parseFloat(aVal);
-        const bNum = parseFloat(bVal);
-        if (!isNaN(aNum) && !isNaN(bNum)) {
-          const diff = aNum - bNum;
-          if (diff !== 0) return diff;
-        } else {
-          // 文字列として比較
-          const diff = aVal.localeCompare(bVal, 'ja');
-          if (diff !== 0) return diff;
-        }
-      }
-      return 0;
-    });
+  const changeMultiBaseline = (index: number) => {
+    setMultiBaseline(index);
+    keepMultiKeys(multiSlots[index].data?.headers ?? []);
+    setMultiResult(null);
+  };
 
-    return {
-      ...data,
-      rows: sortedRows,
-    };
+  // 進捗表示の開始・更新・終了
+  const startTask = (type: WorkerTaskType, task: WorkerTask<unknown>) => {
+    runningTaskRef.current?.cancel();
+    runningTaskRef.current = task;
+    setTaskProgress({ type, phases: { normalize: 0, parse: 0, match: 0, build: 0 } });
+    setTaskError(null);
+  };
+
+  // WASM側のエラーはその内容を、それ以外は予期しないエラーとしてエラー表示に渡す
+  const showTaskError = (type: WorkerTaskType, error: unknown) => {
+    const info: WasmErrorInfo = error instanceof WasmError
+      ? error.info
+      : { code: "internal_error", message: error instanceof Error ? error.message : String(error) };
+    setTaskError({ type, error: info });
+  };
+
+  const updateTaskProgress = (phase: TaskPhase, ratio: number) => {
+    setTaskProgress(prev => (prev ? { ...prev, phases: { ...prev.phases, [phase]: ratio } } : prev));
+  };
+
+  const finishTask = (task: WorkerTask<unknown>) => {
+    if (runningTaskRef.current !== task) return;
+    runningTaskRef.current = null;
+    setTaskProgress(null);
+  };
+
+  const cancelTask = () => {
+    runningTaskRef.current?.cancel();
   };
 
   const handleCompare = async () => {
@@ -655,175 +2427,60 @@ export default function Home() {
       return;
     }
 
-    const wasm = await loadWasmModule();
-    if (!wasm) {
-      alert("WASMモジュールが利用できません。後でビルドしてください。");
+    // 比較の要求（右側のキー列は列の対応付けから解決）
+    let request: CompareRequest;
+    try {
+      request = createCompareRequest(leftData, rightData, currentCompareSettings());
+    } catch (error) {
+      showTaskError("compare", error);
       return;
     }
 
+    // 集計・ソート・キーの結合・突合はWeb Workerで実行
+    const task = runWorkerTask("compare", request, updateTaskProgress, engineMode);
+    startTask("compare", task);
+
     try {
-      // キー列でソートする場合、事前にソート
-      let sortedLeftData = leftData;
-      let sortedRightData = rightData;
-      if (sortByKeys) {
-        sortedLeftData = sortByKeyColumns(leftData, compareKeys, compareOptions);
-        sortedRightData = sortByKeyColumns(rightData, compareKeys, compareOptions);
-      }
-      
-      // 複数キーの場合、一時的に結合キー列を作成
-      const combinedKeyName = compareKeys.join("|");
-      
-      // 左側のデータに結合キー列を追加
-      const leftKeyIndices = compareKeys.map(key => sortedLeftData.headers.indexOf(key));
-      const leftHeadersWithKey = [...sortedLeftData.headers, combinedKeyName];
-      const leftRowsWithKey = sortedLeftData.rows.map(row => [
-        ...row,
-        combineKeys(row, leftKeyIndices, compareOptions)
-      ]);
-
-      // 右側のデータに結合キー列を追加
-      const rightKeyIndices = compareKeys.map(key => sortedRightData.headers.indexOf(key));
-      const rightHeadersWithKey = [...sortedRightData.headers, combinedKeyName];
-      const rightRowsWithKey = sortedRightData.rows.map(row => [
-        ...row,
-        combineKeys(row, rightKeyIndices, compareOptions)
-      ]);
-
-      const input: CompareInput = {
-        left_headers: leftHeadersWithKey,
-        left_rows: leftRowsWithKey,
-        right_headers: rightHeadersWithKey,
-        right_rows: rightRowsWithKey,
-        key: combinedKeyName,
-        options: compareOptions,
-      };
-
-      const resultJson = wasm.compare_files(JSON.stringify(input));
-      const result = JSON.parse(resultJson);
-      
-      // 結合キー列を結果から削除
-      const removeCombinedKey = (data: TableData) => {
-        const keyIdx = data.headers.indexOf(combinedKeyName);
-        if (keyIdx === -1) return data;
-        return {
-          headers: data.headers.filter((_, i) => i !== keyIdx),
-          rows: data.rows.map(row => row.filter((_, i) => i !== keyIdx))
-        };
-      };
-
-      result.result = removeCombinedKey(result.result);
-      result.left_only = removeCombinedKey(result.left_only);
-      result.right_only = removeCombinedKey(result.right_only);
-      result.duplicates = removeCombinedKey(result.duplicates);
-      
-      // マージ結果を生成（すべての行を含む）
-      let mergedHeaders = result.result.headers;
-      let mergedRows: string[][] = [
-        ...result.result.rows,
-        ...result.left_only.rows,
-        ...result.right_only.rows,
-        ...result.duplicates.rows,
-      ];
-      
-      // 結合キー列を統合（L__とR__を1つの列に）
-      const keyColumnMapping: Map<string, string> = new Map();
-      const unifiedHeaders: string[] = [];
-      const unifiedRows: string[][] = [];
-      
-      // ヘッダーを処理
-      const processedKeys = new Set<string>();
-      for (const header of mergedHeaders) {
-        // L__またはR__で始まる結合キー列を検出
-        const isKeyColumn = compareKeys.some(key => {
-          return header === `L__${key}` || header === `R__${key}`;
-        });
-        
-        if (isKeyColumn) {
-          const keyName = header.replace(/^(L__|R__)/, '');
-          if (!processedKeys.has(keyName)) {
-            unifiedHeaders.push(keyName);
-            keyColumnMapping.set(`L__${keyName}`, keyName);
-            keyColumnMapping.set(`R__${keyName}`, keyName);
-            processedKeys.add(keyName);
-          }
-        } else {
-          unifiedHeaders.push(header);
-        }
-      }
-      
-      // 行を処理
-      for (const row of mergedRows) {
-        const unifiedRow: string[] = [];
-        const rowMap = new Map<string, string>();
-        
-        // 各行の値をヘッダー名でマップ
-        mergedHeaders.forEach((header: string, idx: number) => {
-          rowMap.set(header, row[idx] || "");
-        });
-        
-        // 統合されたヘッダー順に値を取得
-        for (const header of unifiedHeaders) {
-          // 結合キー列の場合、L__またはR__から値を取得（どちらかが存在すればその値を使用）
-          if (processedKeys.has(header)) {
-            const value = rowMap.get(`L__${header}`) || rowMap.get(`R__${header}`) || "";
-            unifiedRow.push(value);
-          } else {
-            unifiedRow.push(rowMap.get(header) || "");
-          }
-        }
-        
-        unifiedRows.push(unifiedRow);
-      }
-      
-      // 統合前の行マップを作成（差額計算用）
-      const originalRowMaps = mergedRows.map((row) => {
-        const map = new Map<string, string>();
-        mergedHeaders.forEach((header: string, idx: number) => {
-          map.set(header, row[idx] || "");
-        });
-        return map;
-      });
-      
-      // 比較列の差額を計算して追加
-      let finalHeaders = [...unifiedHeaders];
-      let finalRows = unifiedRows.map((row, rowIdx) => [...row]);
-      
-      // 比較列の差額を計算
-      compareColumns.forEach(col => {
-        if (col.left && col.right && col.label) {
-          const leftHeader = `L__${col.left}`;
-          const rightHeader = `R__${col.right}`;
-          const diffColumnName = col.label || `${col.left}-${col.right}`;
-          
-          // ヘッダーに差額列を追加
-          finalHeaders.push(diffColumnName);
-          
-          // 各行で差額を計算（統合前の行マップを使用）
-          finalRows = finalRows.map((row, rowIdx) => {
-            const rowMap = originalRowMaps[rowIdx];
-            const leftValue = parseFloat(rowMap.get(leftHeader) || "0") || 0;
-            const rightValue = parseFloat(rowMap.get(rightHeader) || "0") || 0;
-            const diff = leftValue - rightValue;
-            return [...row, diff.toString()];
-          });
-        }
-      });
-      
-      // ソート処理は後でリアルタイムで行うため、ここではソートしない
-      const merged: TableData = {
-        headers: finalHeaders,
-        rows: finalRows,
-      };
+      const response = await task.promise;
+      // マージ結果を生成（すべての行を含む。ソート処理は後でリアルタイムで行う）
+      const { output, merged } = completeCompareJob(
+        response,
+        request,
+        { data: leftData, fileName: leftFile?.name ?? "", sheet: leftSheet, importOptions: leftImportOptions },
+        { data: rightData, fileName: rightFile?.name ?? "", sheet: rightSheet, importOptions: rightImportOptions },
+        compareColumns
+      );
       setMergedResult(merged);
+      setResultFilter(defaultResultFilter);
+      setInspectedRow(null);
+      setFuzzyDecisions(output.fuzzy_matches.map((): FuzzyDecision => "pending"));
       
-      // デフォルトで必須列（結合キー列）のみを選択
-      const requiredColumns = finalHeaders.filter(header => compareKeys.includes(header));
-      setSelectedColumns(requiredColumns);
-      setColumnOrder(requiredColumns); // 初期順序を設定
+      // デフォルトで必須列（結合キー列）のみを選択（設定を適用中の場合はその列の選択・順序）
+      const requiredColumns = merged.headers.filter(header => compareKeys.includes(header));
+      const layout = appliedComparePreset
+        ? jobColumnLayout(merged.headers, requiredColumns, appliedComparePreset.settings as Partial<CompareJobSettings>)
+        : { selected: requiredColumns, order: requiredColumns };
+      setSelectedColumns(layout.selected);
+      setColumnOrder(layout.order); // 初期順序を設定
       
-      setCompareResult(result);
+      setCompareResult(output);
+
+      // 同じファイル・シート・キー列で保存したレビューを読み込む（保存できない場合はこの画面の間だけ保持）
+      const jobId = getAnnotationJobId(output.report);
+      setAnnotationsDirty(false);
+      setAnnotations(null);
+      loadAnnotations(jobId)
+        .then(setAnnotations)
+        .catch(error => {
+          console.error("レビューを読み込めません:", error);
+          setAnnotations({ jobId, rows: {}, updatedAt: new Date().toISOString() });
+        });
     } catch (error) {
-      alert(`比較処理に失敗しました: ${error}`);
+      if (error instanceof TaskCancelledError) return;
+      console.error(error);
+      showTaskError("compare", error);
+    } finally {
+      finishTask(task);
     }
   };
 
@@ -833,249 +2490,273 @@ export default function Home() {
       return;
     }
 
-    const wasm = await loadWasmModule();
-    if (!wasm) {
-      alert("WASMモジュールが利用できません。後でビルドしてください。");
-      return;
-    }
+    // キーの結合・分割はWeb Workerで実行
+    const task = runWorkerTask("split", { data: splitData, keys: splitKeys }, updateTaskProgress, engineMode);
+    startTask("split", task);
 
     try {
-      // 複数キーの場合、一時的に結合キー列を作成
-      const combinedKeyName = splitKeys.join("|");
-      
-      // データに結合キー列を追加
-      const keyIndices = splitKeys.map(key => splitData.headers.indexOf(key));
-      const headersWithKey = [...splitData.headers, combinedKeyName];
-      const rowsWithKey = splitData.rows.map(row => [
-        ...row,
-        combineKeys(row, keyIndices, { trim: true, case_insensitive: false })
-      ]);
-
-      const input = {
-        headers: headersWithKey,
-        rows: rowsWithKey,
-        key: combinedKeyName,
-      };
-
-      const resultJson = wasm.split_file(JSON.stringify(input));
-      const result = JSON.parse(resultJson);
+      const result = await task.promise;
       
-      // 結合キー列を結果から削除
-      const keyIdx = headersWithKey.indexOf(combinedKeyName);
-      result.parts = result.parts.map((part: any) => ({
-        ...part,
-        table: {
-          headers: part.table.headers.filter((_: any, i: number) => i !== keyIdx),
-          rows: part.table.rows.map((row: string[]) => row.filter((_: string, i: number) => i !== keyIdx)),
-        },
-      }));
-      
-      // デフォルトでキー列のみを選択
+      // デフォルトでキー列のみを選択（設定を適用中の場合はその列の選択・順序）
       if (result.parts.length > 0) {
         const allHeaders = result.parts[0].table.headers;
         const requiredColumns = allHeaders.filter((header: string) => splitKeys.includes(header));
-        setSelectedSplitColumns(requiredColumns);
-        setSplitColumnOrder(requiredColumns); // 初期順序を設定
+        const layout = appliedSplitPreset
+          ? jobColumnLayout(allHeaders, requiredColumns, appliedSplitPreset.settings as Partial<SplitJobSettings>)
+          : { selected: requiredColumns, order: requiredColumns };
+        setSelectedSplitColumns(layout.selected);
+        setSplitColumnOrder(layout.order); // 初期順序を設定
       }
       
       setSplitResult(result);
     } catch (error) {
-      alert(`分割処理に失敗しました: ${error}`);
+      if (error instanceof TaskCancelledError) return;
+      console.error(error);
+      showTaskError("split", error);
+    } finally {
+      finishTask(task);
+    }
+  };
+
+  const handleMultiCompare = async () => {
+    if (multiSlots.some(slot => !slot.data) || multiKeys.length === 0) {
+      alert("すべてのファイルとキー列を選択してください");
+      return;
+    }
+
+    const sources = multiSlots.map((slot, i) => ({
+      name: slot.file?.name ?? "",
+      data: slot.data as TableData,
+      columnMapping: multiColumnMappings[i],
+    }));
+    let request: MultiCompareRequest;
+    try {
+      request = createMultiCompareRequest(sources, multiBaseline, multiKeys, multiOptions, sortByKeys);
+    } catch (error) {
+      showTaskError("multi_compare", error);
+      return;
+    }
+
+    // ソート・キーの結合・突合はWeb Workerで実行
+    const task = runWorkerTask("multi_compare", request, updateTaskProgress, engineMode);
+    startTask("multi_compare", task);
+
+    try {
+      const response = await task.promise;
+      setMultiResult({
+        output: response.output,
+        files: request.files.map((file, i) => ({
+          name: file.name,
+          sheet: multiSlots[i].sheet,
+          rowCount: response.rowCounts[i],
+          keys: file.keys,
+          columnMapping: file.columnMapping,
+        })),
+        baseline: multiBaseline,
+        options: multiOptions,
+        executedAt: new Date(),
+      });
+    } catch (error) {
+      if (error instanceof TaskCancelledError) return;
+      console.error(error);
+      showTaskError("multi_compare", error);
+    } finally {
+      finishTask(task);
+    }
+  };
+
+  // 複数ファイルの比較のレポート（サマリー・ファイルごとの列のまとまりの比較結果・設定シート）を出力
+  const handleDownloadMultiReport = async () => {
+    if (!multiResult || !multiColumnGroups) return;
+
+    let ExcelJS: typeof import("exceljs");
+    try {
+      ExcelJS = (await import("exceljs")).default;
+    } catch (error) {
+      console.error("Failed to load exceljs:", error);
+      alert("レポートの作成に失敗しました（exceljsを読み込めません）");
+      return;
+    }
+
+    const { output, files, baseline, options, executedAt } = multiResult;
+    const workbook = buildMultiCompareReportWorkbook(
+      ExcelJS,
+      output.result,
+      multiColumnGroups,
+      { executedAt, files, baseline, options },
+      output.log,
+      currentExcelOptions()
+    );
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `multi_compare_report_${toSafeFileName(files[baseline].sheet)}.xlsx`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // あいまい一致の候補の判定を変更し、採用した候補を一致として比較結果を作り直す
+  const changeFuzzyDecisions = (decisions: FuzzyDecision[]) => {
+    if (!compareResult) return;
+    setFuzzyDecisions(decisions);
+    setInspectedRow(null);
+    setMergedResult(mergeCompareJobOutput(compareResult, decisions.map(d => d === "accepted")));
+  };
+
+  // レビューを変更する（担当者が空の行には担当者名を入れる）
+  const annotateRows = (rowIdxs: number[], patch: Partial<RowAnnotation>) => {
+    if (!annotations) return;
+    const now = new Date().toISOString();
+    const rows = { ...annotations.rows };
+    rowIdxs.forEach(rowIdx => {
+      const current = rows[annotationRowKeys[rowIdx]] ?? emptyAnnotation;
+      rows[annotationRowKeys[rowIdx]] = { ...current, reviewer: current.reviewer || reviewerName, ...patch, updatedAt: now };
+    });
+    setAnnotations({ ...annotations, rows, updatedAt: now });
+    setAnnotationsDirty(true);
+  };
+
+  // 前回出力したファイルのレビューを引き継ぐ
+  const handleImportAnnotations = async (file: File) => {
+    if (!annotations || !mergedResult || !compareResult) return;
+    try {
+      const previous = readAnnotatedSheets(await readExcelBook(file));
+      const result = carryForwardAnnotations(
+        previous,
+        mergedResult,
+        compareResult.report.keys.map(k => k.left),
+        annotationRowKeys,
+        annotations.rows
+      );
+      setAnnotations({ ...annotations, rows: result.rows, updatedAt: new Date().toISOString() });
+      setAnnotationsDirty(true);
+      alert(
+        `${result.carried}行のレビューを引き継ぎました（うち値が変わった行 ${result.changed}件）。` +
+        (result.unmatched > 0 ? `\n前回のレビューのうち${result.unmatched}件は今回の結果に該当する行がありません。` : "")
+      );
+    } catch (error) {
+      console.error("Failed to import annotations:", error);
+      alert(`レビューを引き継げません: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  // 出力前に未対応の行を確認する（出力を続ける場合は true）
+  const confirmUnresolved = () => {
+    const { required, unresolved, changed } = annotationSummary;
+    if (unresolved === 0 && changed === 0) return true;
+    const unresolvedByCategory = matchCategoryStyles
+      .map(style => ({
+        name: style.name,
+        count: mergedHighlights.filter(h =>
+          h.category === style.id && needsReview(h) && (annotations?.rows[annotationRowKeys[h.rowIdx]]?.status ?? "open") === "open"
+        ).length,
+      }))
+      .filter(c => c.count > 0)
+      .map(c => `${c.name} ${c.count}件`)
+      .join("・");
+    const messages = [
+      ...(unresolved > 0 ? [`説明が必要な${required}行のうち、${unresolved}行が未対応です（${unresolvedByCategory}）。`] : []),
+      ...(changed > 0 ? [`前回のレビューから値が変わった行が${changed}件あります。`] : []),
+    ];
+    return confirm(`${messages.join("\n")}\nこのまま出力しますか？`);
+  };
+
+  // レビューがある場合は出力する表の末尾にレビューの列を追加する（rowIdxs は表の行ごとの mergedResult の行番号）
+  const withAnnotations = (data: TableData, rowIdxs: number[]) =>
+    annotations && Object.keys(annotations.rows).length > 0
+      ? appendAnnotationColumns(data, rowIdxs, annotationRowKeys, annotations.rows)
+      : data;
+
+  // 監査証跡用のレポート（サマリー・分類ごとのシート・設定シート）を出力
+  const handleDownloadReport = async () => {
+    if (!compareResult || !mergedResult) return;
+    if (!confirmUnresolved()) return;
+
+    let ExcelJS: typeof import("exceljs");
+    try {
+      ExcelJS = (await import("exceljs")).default;
+    } catch (error) {
+      console.error("Failed to load exceljs:", error);
+      alert("レポートの作成に失敗しました（exceljsを読み込めません）");
+      return;
     }
+
+    const settings = compareResult.report;
+    // あいまい一致の候補がある場合は判定の件数をログに残す
+    const fuzzyLog: [string, string][] = compareResult.fuzzy_matches.length > 0
+      ? (["accepted", "rejected", "pending"] as const).map(decision => [
+          `fuzzy_${decision}`,
+          String(fuzzyDecisions.filter(d => d === decision).length),
+        ])
+      : [];
+    const reviewLog: [string, string][] = [
+      ["review_required", String(annotationSummary.required)],
+      ["review_unresolved", String(annotationSummary.unresolved)],
+      ["review_changed", String(annotationSummary.changed)],
+    ];
+    const workbook = buildCompareReportWorkbook(
+      ExcelJS,
+      withAnnotations(mergedResult, mergedResult.rows.map((_, i) => i)),
+      mergedHighlights,
+      settings,
+      [...compareResult.log, ...fuzzyLog, ...reviewLog],
+      currentExcelOptions()
+    );
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `compare_report_${toSafeFileName(settings.leftSheet)}_${toSafeFileName(settings.rightSheet)}.xlsx`;
+    a.click();
+    URL.revokeObjectURL(url);
   };
 
   const handleDownloadCompare = async () => {
     if (!compareResult || !mergedResult) return;
+    if (!confirmUnresolved()) return;
 
-    // ソート済みの結果を使用（sortedMergedResultは既に選択列でフィルタリング済み、ソート済み）
-    const filteredMerged = sortedMergedResult || filterColumns(mergedResult, selectedColumns, columnOrder);
-
-    // 金額列（比較列、差額列）を識別
-    const amountColumnHeaders = new Set<string>();
-    compareColumns.forEach(col => {
-      if (col.left && col.right) {
-        amountColumnHeaders.add(`L__${col.left}`);
-        amountColumnHeaders.add(`R__${col.right}`);
-        if (col.label) {
-          amountColumnHeaders.add(col.label);
-        }
-      }
-    });
-    
-    // 金額列のインデックスを取得（フィルタ後のヘッダーで）
-    const amountColumnIndices = filteredMerged.headers
-      .map((header, idx) => {
-        // 比較列や差額列を検出
-        const isAmountColumn = amountColumnHeaders.has(header) || 
-                               compareColumns.some(col => col.label === header) ||
-                               (header.includes('L__') && (header.includes('残高') || header.includes('借方') || header.includes('貸方') || header.includes('金額') || header.includes('発生')));
-        return isAmountColumn ? idx : -1;
-      })
-      .filter(idx => idx !== -1);
-
-    // 各金額列で小数点以下があるかチェック
-    const hasDecimalPlaces = amountColumnIndices.map(colIdx => {
-      return filteredMerged.rows.some(row => {
-        const val = row[colIdx] || "";
-        const num = parseFloat(val);
-        if (!isNaN(num)) {
-          return num % 1 !== 0; // 小数点以下があるか
-        }
-        return false;
-      });
-    });
+    // 出力ファイル名（比較したシート名を含める）
+    const compareFileName = `merged_result_${toSafeFileName(leftSheet)}_${toSafeFileName(rightSheet)}.xlsx`;
 
-    // 合計行を計算
-    const totals: (string | number)[] = filteredMerged.headers.map((header, idx) => {
-      if (amountColumnIndices.includes(idx)) {
-        const sum = filteredMerged.rows.reduce((acc, row) => {
-          const val = parseFloat(row[idx] || "0") || 0;
-          return acc + val;
-        }, 0);
-        return sum;
-      }
-      return idx === 0 ? "合計" : "";
-    });
+    // ソート済みの結果を使用（sortedMergedResultは既に選択列でフィルタリング済み、ソート済み）
+    const filteredMerged = withAnnotations(
+      sortedMergedResult || filterColumns(mergedResult, selectedColumns, columnOrder),
+      visibleHighlights.map(h => h.rowIdx)
+    );
 
     // ExcelJSを使用してExcelファイルを作成（動的インポート）
-    let ExcelJS: any;
+    let ExcelJS: typeof import("exceljs");
     try {
       ExcelJS = (await import("exceljs")).default;
     } catch (error) {
       console.error("Failed to load exceljs, using fallback:", error);
       // フォールバック: 標準のXLSXを使用（スタイルなし）
-      const worksheetData: any[][] = [
+      const amount = getAmountColumns(filteredMerged, compareColumns);
+      const worksheetData: (string | number)[][] = [
         filteredMerged.headers,
         ...filteredMerged.rows.map(row => row.map((cell, idx) => {
-          if (amountColumnIndices.includes(idx)) {
+          if (amount.indices.includes(idx)) {
             const num = parseFloat(cell || "0");
             return isNaN(num) ? cell : num;
           }
           return cell;
         })),
-        ...(excelShowTotal ? [totals] : []),
+        ...(excelShowTotal ? [amount.totals] : []),
       ];
       const worksheet = XLSX.utils.aoa_to_sheet(worksheetData);
       const workbook = XLSX.utils.book_new();
       XLSX.utils.book_append_sheet(workbook, worksheet, "Sheet1");
-      XLSX.writeFile(workbook, "merged_result.xlsx");
+      XLSX.writeFile(workbook, compareFileName);
       return;
     }
-    const workbook = new ExcelJS.Workbook();
-    const worksheet = workbook.addWorksheet("Sheet1");
-
-    // ヘッダー行を追加
-    worksheet.addRow(filteredMerged.headers);
-
-    // データ行を追加
-    filteredMerged.rows.forEach(row => {
-      const rowData = row.map((cell, idx) => {
-        const header = filteredMerged.headers[idx];
-        const format = columnFormats[header] || "text";
-        
-        // 既存の金額列の処理（後方互換性のため）
-        if (amountColumnIndices.includes(idx)) {
-          const num = parseFloat(cell || "0");
-          if (!isNaN(num)) {
-            return num;
-          }
-        }
-        
-        // データ形式に応じて値を変換
-        return convertValueByFormat(cell, format);
-      });
-      worksheet.addRow(rowData);
-    });
-
-    // 合計行を追加（オプション）
-    if (excelShowTotal) {
-      worksheet.addRow(totals);
-    }
-
-    // スタイルを適用
-    const selectedColor = excelHeaderColors.find(c => c.id === excelHeaderColorValue) || excelHeaderColors[0];
-    const totalRowNumber = excelShowTotal ? filteredMerged.rows.length + 2 : filteredMerged.rows.length + 1;
-    worksheet.eachRow((row: any, rowNumber: number) => {
-      row.eachCell((cell: any, colNumber: number) => {
-        // ヘッダー行（1行目）に色を付ける
-        if (rowNumber === 1 && excelHeaderColor) {
-          cell.fill = {
-            type: 'pattern',
-            pattern: 'solid',
-            fgColor: { argb: selectedColor.argb }
-          };
-          cell.font = {
-            bold: true,
-            color: { argb: 'FF000000' }
-          };
-        }
-
-        // 罫線を引く
-        if (excelBorders) {
-          cell.border = {
-            top: { style: 'thin', color: { argb: 'FF000000' } },
-            bottom: { style: 'thin', color: { argb: 'FF000000' } },
-            left: { style: 'thin', color: { argb: 'FF000000' } },
-            right: { style: 'thin', color: { argb: 'FF000000' } }
-          };
-        }
-
-        const header = filteredMerged.headers[colNumber - 1];
-        const format = columnFormats[header] || "text";
-        
-        // データ形式に応じてnumFmtを設定
-        if (format !== "text" && rowNumber > 1 && rowNumber <= totalRowNumber) {
-          const formatDef = dataFormats.find(f => f.id === format);
-          if (formatDef) {
-            cell.numFmt = formatDef.excelFormat;
-          }
-        }
-        
-        // 既存の金額列の処理（後方互換性のため、形式が指定されていない場合のみ）
-        if (!columnFormats[header] && amountColumnIndices.includes(colNumber - 1)) {
-          const amountIdx = amountColumnIndices.indexOf(colNumber - 1);
-          const hasDecimal = hasDecimalPlaces[amountIdx];
-          
-          if (rowNumber > 1 && rowNumber <= totalRowNumber) {
-            // データ行と合計行
-            cell.numFmt = hasDecimal ? '#,##0.00' : '#,##0';
-          }
-        }
-      });
-    });
 
-    // 列幅を自動調整
-    const columnWidths = filteredMerged.headers.map((header, colIdx) => {
-      // ヘッダーの幅を計算（日本語文字は約2文字分）
-      let maxWidth = header.length * 2;
-      
-      // データ行の最大幅を計算
-      filteredMerged.rows.forEach(row => {
-        const cellValue = row[colIdx] || "";
-        // セルの値を文字列に変換して幅を計算
-        const cellStr = String(cellValue);
-        // 日本語文字を考慮した幅計算（簡易版：全角文字を2、半角文字を1として計算）
-        const cellWidth = cellStr.split('').reduce((sum, char) => {
-          // 全角文字（日本語、全角数字など）は2、半角文字は1
-          return sum + (char.charCodeAt(0) > 127 ? 2 : 1);
-        }, 0);
-        maxWidth = Math.max(maxWidth, cellWidth);
-      });
-      
-      // 合計行がある場合も考慮
-      if (excelShowTotal && totals[colIdx]) {
-        const totalStr = String(totals[colIdx]);
-        const totalWidth = totalStr.split('').reduce((sum, char) => {
-          return sum + (char.charCodeAt(0) > 127 ? 2 : 1);
-        }, 0);
-        maxWidth = Math.max(maxWidth, totalWidth);
-      }
-      
-      // 余裕を持たせて+2、最小幅10、最大幅50
-      return Math.min(Math.max(maxWidth + 2, 10), 50);
-    });
-    
-    worksheet.columns = columnWidths.map(width => ({ width }));
+    // 出力行ごとの分類と差分セル（絞り込みの条件を満たす行のみ）
+    const workbook = buildMergedWorkbook(ExcelJS, filteredMerged, visibleHighlights, compareColumns, columnFormats, currentExcelOptions());
 
     // ファイルをダウンロード
     const buffer = await workbook.xlsx.writeBuffer();
@@ -1083,7 +2764,7 @@ export default function Home() {
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = "merged_result.xlsx";
+    a.download = compareFileName;
     a.click();
     URL.revokeObjectURL(url);
   };
@@ -1091,270 +2772,92 @@ export default function Home() {
   const handleDownloadSplit = async () => {
     if (!splitResult) return;
 
-    const zip = new JSZip();
-    for (const part of splitResult.parts) {
-      // ファイル名に使用できない文字を置換
-      const safeFileName = part.key_value
-        .replace(/[<>:"/\\|?*]/g, "_")
-        .replace(/\s+/g, "_");
-      
-      // 選択された列のみを含むデータを生成（順序を考慮）
-      let filteredData = filterColumns(part.table, selectedSplitColumns, splitColumnOrder);
-      
-      // ソート処理（3列まで順位指定）
-      if (splitSortColumns.length > 0) {
-        const sortedRows = [...filteredData.rows].sort((a, b) => {
-          for (const sortCol of splitSortColumns) {
-            const sortIdx = filteredData.headers.indexOf(sortCol.column);
-            if (sortIdx === -1) continue;
-            
-            const aVal = parseFloat(a[sortIdx]) || 0;
-            const bVal = parseFloat(b[sortIdx]) || 0;
-            if (isNaN(aVal) || isNaN(bVal)) {
-              const aStr = String(a[sortIdx] || "");
-              const bStr = String(b[sortIdx] || "");
-              const result = sortCol.direction === "asc" ? aStr.localeCompare(bStr) : bStr.localeCompare(aStr);
-              if (result !== 0) return result;
-            } else {
-              const result = sortCol.direction === "asc" ? aVal - bVal : bVal - aVal;
-              if (result !== 0) return result;
-            }
-          }
-          return 0;
-        });
-        filteredData = {
-          ...filteredData,
-          rows: sortedRows,
-        };
-      }
-      
-      // ExcelJSを使用してExcelファイルを作成（動的インポート）
-      let ExcelJS: any;
-      try {
-        ExcelJS = (await import("exceljs")).default;
-      } catch (error) {
-        console.error("Failed to load exceljs, using fallback:", error);
-        // フォールバック: 標準のXLSXを使用（スタイルなし）
-        const numericFormats: DataFormat[] = ["number", "number_decimal", "currency_jpy", "currency_usd", "currency_eur"];
-        const numericColumnIndices = filteredData.headers
-          .map((header, idx) => {
-            const format = splitColumnFormats[header] || "text";
-            const isNumeric = numericFormats.includes(format) || splitNumericColumns.includes(header);
-            return isNumeric ? idx : -1;
-          })
-          .filter(idx => idx !== -1);
-        const worksheetData: any[][] = [
-          filteredData.headers,
-          ...filteredData.rows.map(row => row.map((cell, cellIdx) => {
-            const header = filteredData.headers[cellIdx];
-            const format = splitColumnFormats[header] || "text";
-            const isNumeric = numericFormats.includes(format) || splitNumericColumns.includes(header);
-            if (isNumeric) {
-              const num = parseFloat(cell || "0");
-              return isNaN(num) ? cell : num;
-            }
-            return cell;
-          })),
-        ];
-        if (excelShowTotal && numericColumnIndices.length > 0) {
-          const totals: (string | number)[] = filteredData.headers.map((header, idx) => {
-            const format = splitColumnFormats[header] || "text";
-            const isNumeric = numericFormats.includes(format) || splitNumericColumns.includes(header);
-            if (isNumeric) {
-              const sum = filteredData.rows.reduce((acc, row) => {
-                const val = parseFloat(row[idx] || "0") || 0;
-                return acc + val;
-              }, 0);
-              return sum;
-            }
-            return idx === 0 ? "合計" : "";
-          });
-          worksheetData.push(totals);
-        }
-        const worksheet = XLSX.utils.aoa_to_sheet(worksheetData);
-        const workbook = XLSX.utils.book_new();
-        XLSX.utils.book_append_sheet(workbook, worksheet, "Sheet1");
-        const excelBuffer = XLSX.write(workbook, { type: "array", bookType: "xlsx" });
-        zip.file(`${safeFileName}.xlsx`, excelBuffer);
-        continue;
-      }
-      const workbook = new ExcelJS.Workbook();
-      const worksheet = workbook.addWorksheet("Sheet1");
-
-      // ヘッダー行を追加
-      worksheet.addRow(filteredData.headers);
-
-      // データ行を追加
-      filteredData.rows.forEach(row => {
-        const rowData = row.map((cell, cellIdx) => {
-          const header = filteredData.headers[cellIdx];
-          const format = splitColumnFormats[header] || "text";
-          
-          // 既存の数値列の処理（後方互換性のため）
-          if (!splitColumnFormats[header] && splitNumericColumns.includes(header)) {
-            const num = parseFloat(cell || "0");
-            if (!isNaN(num)) {
-              return num;
-            }
-          }
-          
-          // データ形式に応じて値を変換
-          return convertValueByFormat(cell, format);
-        });
-        worksheet.addRow(rowData);
-      });
-
-      // 合計行を追加（数値列のみ）
-      // 数値形式の列を判定（number, number_decimal, currency_*）
-      const numericFormats: DataFormat[] = ["number", "number_decimal", "currency_jpy", "currency_usd", "currency_eur"];
-      const numericColumnIndices = filteredData.headers
-        .map((header, idx) => {
-          const format = splitColumnFormats[header] || "text";
-          // 後方互換性のため、splitNumericColumnsもチェック
-          const isNumeric = numericFormats.includes(format) || splitNumericColumns.includes(header);
-          return isNumeric ? idx : -1;
-        })
-        .filter(idx => idx !== -1);
-
-      // 各数値列で小数点以下があるかチェック
-      const hasDecimalPlaces = numericColumnIndices.map(colIdx => {
-        const header = filteredData.headers[colIdx];
-        const format = splitColumnFormats[header] || "text";
-        // 小数点を含む形式かどうか
-        if (format === "number_decimal" || format === "currency_usd" || format === "currency_eur") {
-          return true;
-        }
-        // データを確認
-        return filteredData.rows.some(row => {
-          const val = row[colIdx] || "";
-          const num = parseFloat(val);
-          if (!isNaN(num)) {
-            return num % 1 !== 0; // 小数点以下があるか
-          }
-          return false;
-        });
-      });
-
-      let totals: (string | number)[] | null = null;
-      if (numericColumnIndices.length > 0 && excelShowTotal) {
-        totals = filteredData.headers.map((header, idx) => {
-          const format = splitColumnFormats[header] || "text";
-          const isNumeric = numericFormats.includes(format) || splitNumericColumns.includes(header);
-          
-          if (isNumeric) {
-            const sum = filteredData.rows.reduce((acc, row) => {
-              const val = parseFloat(row[idx] || "0") || 0;
-              return acc + val;
-            }, 0);
-            return sum;
-          }
-          return idx === 0 ? "合計" : "";
-        });
-        worksheet.addRow(totals);
-      }
+    // 選択された列のみを含むデータを生成（順序を考慮）し、ソート（3列まで順位指定）
+    const parts: SplitPart[] = splitResult.parts.map((part: SplitPart) => {
+      const filteredData = filterColumns(part.table, selectedSplitColumns, splitColumnOrder);
+      return { key_value: part.key_value, table: reorderRows(filteredData, sortRowOrder(filteredData, splitSortColumns)) };
+    });
+    const baseName = toSafeFileName(splitSheet);
 
-      // スタイルを適用
-      const selectedColor = excelHeaderColors.find(c => c.id === excelHeaderColorValue) || excelHeaderColors[0];
-      const totalRowNumber = excelShowTotal && numericColumnIndices.length > 0 
-        ? filteredData.rows.length + 2 
-        : filteredData.rows.length + 1;
-      worksheet.eachRow((row: any, rowNumber: number) => {
-        row.eachCell((cell: any, colNumber: number) => {
-          // ヘッダー行（1行目）に色を付ける
-          if (rowNumber === 1 && excelHeaderColor) {
-            cell.fill = {
-              type: 'pattern',
-              pattern: 'solid',
-              fgColor: { argb: selectedColor.argb }
-            };
-            cell.font = {
-              bold: true,
-              color: { argb: 'FF000000' }
-            };
-          }
+    // ExcelJSを使用してExcelファイルを作成（動的インポート）
+    let ExcelJS: typeof import("exceljs") | null = null;
+    try {
+      ExcelJS = (await import("exceljs")).default;
+    } catch (error) {
+      console.error("Failed to load exceljs, using fallback:", error);
+    }
 
-          // 罫線を引く
-          if (excelBorders) {
-            cell.border = {
-              top: { style: 'thin', color: { argb: 'FF000000' } },
-              bottom: { style: 'thin', color: { argb: 'FF000000' } },
-              left: { style: 'thin', color: { argb: 'FF000000' } },
-              right: { style: 'thin', color: { argb: 'FF000000' } }
-            };
+    // フォールバック: 標準のXLSXを使用（スタイルなし）
+    const fallbackSheet = (data: TableData) => {
+      const numeric = getNumericColumns(data, splitColumnFormats, splitNumericColumns);
+      const worksheetData: (string | number)[][] = [
+        data.headers,
+        ...data.rows.map(row => row.map((cell, cellIdx) => {
+          if (numeric.indices.includes(cellIdx)) {
+            const num = parseFloat(cell || "0");
+            return isNaN(num) ? cell : num;
           }
+          return cell;
+        })),
+        ...(excelShowTotal && numeric.indices.length > 0 ? [numeric.totals] : []),
+      ];
+      return XLSX.utils.aoa_to_sheet(worksheetData);
+    };
 
-          const header = filteredData.headers[colNumber - 1];
-          const format = splitColumnFormats[header] || "text";
-          
-          // データ形式に応じてnumFmtを設定
-          if (format !== "text" && rowNumber > 1 && rowNumber <= totalRowNumber) {
-            const formatDef = dataFormats.find(f => f.id === format);
-            if (formatDef) {
-              cell.numFmt = formatDef.excelFormat;
-            }
-          }
-          
-          // 既存の数値列の処理（後方互換性のため、形式が指定されていない場合のみ）
-          if (!splitColumnFormats[header] && numericColumnIndices.includes(colNumber - 1)) {
-            const numericIdx = numericColumnIndices.indexOf(colNumber - 1);
-            const hasDecimal = hasDecimalPlaces[numericIdx];
-            
-            if (rowNumber > 1 && rowNumber <= totalRowNumber) {
-              // データ行と合計行
-              cell.numFmt = hasDecimal ? '#,##0.00' : '#,##0';
-            }
-          }
-        });
-      });
+    // フォールバックの1つのブック（一覧シートにはシートへのリンクを付けない）
+    const bookFileName = `split_book_${baseName}.xlsx`;
+    const fallbackBook = () => {
+      const sheetNames = getSplitSheetNames(parts);
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.aoa_to_sheet([["キー", "シート", "行数"], ...parts.map((part, i) => [part.key_value, sheetNames[i], part.table.rows.length])]),
+        SPLIT_INDEX_SHEET_NAME
+      );
+      parts.forEach((part, i) => XLSX.utils.book_append_sheet(workbook, fallbackSheet(part.table), sheetNames[i]));
+      return workbook;
+    };
 
-      // 列幅を自動調整
-      const columnWidths = filteredData.headers.map((header, colIdx) => {
-        // ヘッダーの幅を計算（日本語文字は約2文字分）
-        let maxWidth = header.length * 2;
-        
-        // データ行の最大幅を計算
-        filteredData.rows.forEach(row => {
-          const cellValue = row[colIdx] || "";
-          // セルの値を文字列に変換して幅を計算
-          const cellStr = String(cellValue);
-          // 日本語文字を考慮した幅計算（簡易版：全角文字を2、半角文字を1として計算）
-          const cellWidth = cellStr.split('').reduce((sum, char) => {
-            // 全角文字（日本語、全角数字など）は2、半角文字は1
-            return sum + (char.charCodeAt(0) > 127 ? 2 : 1);
-          }, 0);
-          maxWidth = Math.max(maxWidth, cellWidth);
-        });
-        
-        // 合計行がある場合も考慮
-        if (excelShowTotal && numericColumnIndices.length > 0 && totals) {
-          const totalValue = totals[colIdx];
-          if (totalValue !== undefined && totalValue !== "") {
-            const totalStr = String(totalValue);
-            const totalWidth = totalStr.split('').reduce((sum, char) => {
-              return sum + (char.charCodeAt(0) > 127 ? 2 : 1);
-            }, 0);
-            maxWidth = Math.max(maxWidth, totalWidth);
-          }
-        }
-        
-        // 余裕を持たせて+2、最小幅10、最大幅50
-        return Math.min(Math.max(maxWidth + 2, 10), 50);
-      });
-      
-      worksheet.columns = columnWidths.map(width => ({ width }));
+    const download = (blob: Blob, fileName: string) => {
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = fileName;
+      a.click();
+      URL.revokeObjectURL(url);
+    };
 
-      // バッファに書き込み
-      const excelBuffer = await workbook.xlsx.writeBuffer();
-      zip.file(`${safeFileName}.xlsx`, excelBuffer);
+    // キーごとのシートの1つのブックのみ
+    if (splitOutputMode === "workbook") {
+      if (!ExcelJS) {
+        XLSX.writeFile(fallbackBook(), bookFileName);
+        return;
+      }
+      const workbook = buildSplitBook(ExcelJS, parts, splitColumnFormats, splitNumericColumns, currentExcelOptions());
+      const buffer = await workbook.xlsx.writeBuffer();
+      download(new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), bookFileName);
+      return;
     }
 
-    const blob = await zip.generateAsync({ type: "blob" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "split_files.zip";
-    a.click();
-    URL.revokeObjectURL(url);
+    // キーごとのファイルをまとめたzip（両方の場合は1つのブックもzipに含める。コマンドライン・APIと同じ buildSplitZip）
+    const includeBook = splitOutputMode === "both";
+    if (ExcelJS) {
+      const zipData = await buildSplitZip(
+        ExcelJS, parts, splitColumnFormats, splitNumericColumns, currentExcelOptions(), includeBook ? bookFileName : undefined
+      );
+      download(new Blob([new Uint8Array(zipData)], { type: "application/zip" }), `split_files_${baseName}.zip`);
+      return;
+    }
+    const zip = new JSZip();
+    parts.forEach(part => {
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, fallbackSheet(part.table), "Sheet1");
+      zip.file(`${toSafeFileName(part.key_value)}.xlsx`, XLSX.write(workbook, { type: "array", bookType: "xlsx" }));
+    });
+    if (includeBook) {
+      zip.file(bookFileName, XLSX.write(fallbackBook(), { type: "array", bookType: "xlsx" }));
+    }
+    download(await zip.generateAsync({ type: "blob" }), `split_files_${baseName}.zip`);
   };
 
   return (
@@ -1408,6 +2911,7 @@ export default function Home() {
         <Tabs value={activeTab} onValueChange={setActiveTab}>
           <TabsList>
             <TabsTrigger value="compare">比較</TabsTrigger>
+            <TabsTrigger value="multi">複数比較</TabsTrigger>
             <TabsTrigger value="split">分割</TabsTrigger>
           </TabsList>
 
@@ -1428,7 +2932,7 @@ export default function Home() {
                         id="left-file-input"
                         ref={leftFileInputRef}
                         type="file"
-                        accept=".xlsx,.xls"
+                        accept=".xlsx,.xls,.csv,.tsv,.txt"
                         onChange={handleLeftFileChange}
                         className="hidden"
                       />
@@ -1455,6 +2959,8 @@ export default function Home() {
                             onClick={() => {
                               setLeftFile(null);
                               setLeftData(null);
+                              setLeftBook(null);
+                              setLeftSheet("");
                             }}
                           >
                             <X className="h-4 w-4" />
@@ -1462,6 +2968,33 @@ export default function Home() {
                         </div>
                       )}
                     </div>
+                    <SheetPicker
+                      id="left-sheet"
+                      book={leftBook}
+                      value={leftSheet}
+                      onChange={(name) => leftBook && handleSheetChange(() => selectLeftSheet(leftBook, name, leftImportOptions))}
+                    />
+                    <CsvOptionsPanel
+                      id="left-csv"
+                      book={leftBook}
+                      options={leftCsvOptions}
+                      onChange={(options) => reloadWithCsvOptions(leftFile, options, async (book) => {
+                        setLeftCsvOptions(options);
+                        setLeftBook(book);
+                        await selectLeftSheet(book, getDefaultSheetName(book), leftImportOptions);
+                      })}
+                    />
+                    <ImportOptionsPanel
+                      id="left-import"
+                      book={leftBook}
+                      sheetName={leftSheet}
+                      options={leftImportOptions}
+                      onChange={(options) => leftBook && handleSheetChange(async () => {
+                        await selectLeftSheet(leftBook, leftSheet, options);
+                        setLeftImportOptions(options);
+                      })}
+                    />
+                    {fileLoadProgress?.target === "left" && <FileLoadProgress progress={fileLoadProgress} />}
                     {leftData && (
                       <p className="text-xs text-muted-foreground">
                         {leftData.headers.length}列, {leftData.rows.length}行
@@ -1476,7 +3009,7 @@ export default function Home() {
                         id="right-file-input"
                         ref={rightFileInputRef}
                         type="file"
-                        accept=".xlsx,.xls"
+                        accept=".xlsx,.xls,.csv,.tsv,.txt"
                         onChange={handleRightFileChange}
                         className="hidden"
                       />
@@ -1503,6 +3036,8 @@ export default function Home() {
                             onClick={() => {
                               setRightFile(null);
                               setRightData(null);
+                              setRightBook(null);
+                              setRightSheet("");
                             }}
                           >
                             <X className="h-4 w-4" />
@@ -1510,6 +3045,33 @@ export default function Home() {
                         </div>
                       )}
                     </div>
+                    <SheetPicker
+                      id="right-sheet"
+                      book={rightBook}
+                      value={rightSheet}
+                      onChange={(name) => rightBook && handleSheetChange(() => selectRightSheet(rightBook, name, rightImportOptions))}
+                    />
+                    <CsvOptionsPanel
+                      id="right-csv"
+                      book={rightBook}
+                      options={rightCsvOptions}
+                      onChange={(options) => reloadWithCsvOptions(rightFile, options, async (book) => {
+                        setRightCsvOptions(options);
+                        setRightBook(book);
+                        await selectRightSheet(book, getDefaultSheetName(book), rightImportOptions);
+                      })}
+                    />
+                    <ImportOptionsPanel
+                      id="right-import"
+                      book={rightBook}
+                      sheetName={rightSheet}
+                      options={rightImportOptions}
+                      onChange={(options) => rightBook && handleSheetChange(async () => {
+                        await selectRightSheet(rightBook, rightSheet, options);
+                        setRightImportOptions(options);
+                      })}
+                    />
+                    {fileLoadProgress?.target === "right" && <FileLoadProgress progress={fileLoadProgress} />}
                     {rightData && (
                       <p className="text-xs text-muted-foreground">
                         {rightData.headers.length}列, {rightData.rows.length}行
@@ -1518,6 +3080,31 @@ export default function Home() {
                   </div>
                 </div>
 
+                <LargeFileOptionsPanel id="compare-large-file" options={largeFileOptions} onChange={setLargeFileOptions} />
+                <EngineSettingsPanel id="compare-engine" mode={engineMode} onChange={setEngineMode} />
+                <PresetPanel
+                  id="compare-preset"
+                  kind="compare"
+                  headers={comparePresetHeaders}
+                  presets={presets}
+                  applied={appliedComparePreset}
+                  onApply={applyComparePreset}
+                  onClear={() => setAppliedComparePreset(null)}
+                  onSave={(name) => handleSavePreset("compare", name)}
+                  onDelete={handleDeletePreset}
+                  onExport={handleExportPresets}
+                  onImport={handleImportPresets}
+                />
+
+                {leftData && rightData && (
+                  <ColumnMappingPanel
+                    left={leftData}
+                    right={rightData}
+                    mapping={columnMapping}
+                    onChange={setColumnMapping}
+                  />
+                )}
+
                 {leftData && (
                   <div className="space-y-3">
                     <div className="space-y-2">
@@ -1542,6 +3129,15 @@ export default function Home() {
                             <label htmlFor={`key-${idx}`} className="text-sm font-medium leading-none cursor-pointer">
                               {header}
                             </label>
+                            {rightData && compareKeys.includes(header) && (() => {
+                              const rightKey = resolveRightColumn(activeColumnMapping, header, rightData.headers);
+                              if (rightKey === header) return null;
+                              return (
+                                <span className={`text-xs ${rightKey ? "text-muted-foreground" : "text-destructive"}`}>
+                                  {rightKey ? `→ 右側: ${rightKey}` : "（右側に対応する列がありません）"}
+                                </span>
+                              );
+                            })()}
                           </div>
                         ))}
                       </div>
@@ -1606,6 +3202,30 @@ export default function Home() {
                   </div>
                 )}
 
+                {leftData && rightData && compareKeys.length > 0 && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">集計（任意）</label>
+                    <div className="grid gap-2 md:grid-cols-2">
+                      <AggregatePanel
+                        id="left-aggregate"
+                        label="左側"
+                        data={leftData}
+                        keys={compareKeys}
+                        options={leftAggregate}
+                        onChange={setLeftAggregate}
+                      />
+                      <AggregatePanel
+                        id="right-aggregate"
+                        label="右側"
+                        data={rightData}
+                        keys={compareKeys.map((key) => resolveRightColumn(activeColumnMapping, key, rightData.headers) ?? key)}
+                        options={rightAggregate}
+                        onChange={setRightAggregate}
+                      />
+                    </div>
+                  </div>
+                )}
+
                 {leftData && rightData && compareKeys.length > 0 && (
                   <div className="space-y-2">
                     <label className="text-sm font-medium">③比較列を選択（差額計算用）</label>
@@ -1710,6 +3330,36 @@ export default function Home() {
                       大文字小文字を区別しない
                     </label>
                   </div>
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <label htmlFor="match-mode" className="text-sm font-medium whitespace-nowrap">
+                        重複キーの突合方法
+                      </label>
+                      <select
+                        id="match-mode"
+                        value={compareOptions.match_mode ?? "one_to_one"}
+                        onChange={(e) => setCompareOptions({ ...compareOptions, match_mode: e.target.value as MatchMode })}
+                        className="rounded-md border border-input bg-background px-2 py-1 text-sm"
+                      >
+                        {matchModes.map((mode) => (
+                          <option key={mode.id} value={mode.id}>{mode.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {matchModes.find((mode) => mode.id === (compareOptions.match_mode ?? "one_to_one"))?.description}
+                    </p>
+                  </div>
+                  {leftData && rightData && (
+                    <ColumnRulesPanel
+                      columns={leftData.headers.filter((h) =>
+                        resolveRightColumn(activeColumnMapping, h, rightData.headers) !== undefined &&
+                        !compareKeys.includes(h)
+                      )}
+                      rules={compareOptions.column_rules ?? {}}
+                      onChange={(rules) => setCompareOptions({ ...compareOptions, column_rules: rules })}
+                    />
+                  )}
                   <div className="flex items-center space-x-2">
                     <Checkbox
                       id="sort-by-keys"
@@ -1725,16 +3375,23 @@ export default function Home() {
                       キー列がソートされていない場合、比較前に自動的にソートします。これにより比較処理が高速化され、結果が整理されます。
                     </p>
                   )}
+                  <FuzzyOptionsPanel id="compare-fuzzy" options={fuzzyOptions} onChange={setFuzzyOptions} />
                 </div>
 
                 <div className="space-y-2">
                   <Button 
                     onClick={handleCompare} 
-                    disabled={!leftData || !rightData || compareKeys.length === 0}
+                    disabled={!leftData || !rightData || compareKeys.length === 0 || taskProgress !== null}
                     className="w-full"
                   >
-                    比較実行
+                    {taskProgress?.type === "compare" ? "比較中..." : "比較実行"}
                   </Button>
+                  {taskProgress?.type === "compare" && (
+                    <TaskProgressPanel progress={taskProgress.phases} onCancel={cancelTask} />
+                  )}
+                  {taskError?.type === "compare" && (
+                    <TaskErrorPanel title="比較処理に失敗しました" error={taskError.error} onClose={() => setTaskError(null)} />
+                  )}
                   {(!leftData || !rightData || compareKeys.length === 0) && (
                     <p className="text-xs text-muted-foreground">
                       {!leftData && "⚠ 左側のファイルを選択してください。 "}
@@ -1749,6 +3406,15 @@ export default function Home() {
                     <div>
                       <h3 className="font-semibold">比較結果</h3>
                     </div>
+
+                    {compareResult.fuzzy_matches.length > 0 && (
+                      <FuzzyReviewPanel
+                        keys={fuzzyMatchKeys}
+                        matches={compareResult.fuzzy_matches}
+                        decisions={fuzzyDecisions}
+                        onChange={changeFuzzyDecisions}
+                      />
+                    )}
                     
                     {/* 列選択セクション */}
                     <div className="space-y-3">
@@ -2048,10 +3714,48 @@ export default function Home() {
                           compareColumns.some(col => col.label === header) ||
                           (header.includes('L__') && (header.includes('残高') || header.includes('借方') || header.includes('貸方') || header.includes('金額') || header.includes('発生')))
                         );
-                        return <PreviewTable data={previewData} numericColumns={numericColumns} columnFormats={columnFormats} />;
+                        return (
+                          <div className="space-y-2">
+                            <ResultFilterPanel
+                              filter={resultFilter}
+                              onChange={setResultFilter}
+                              counts={quickFilterCounts}
+                              headers={mergedResult.headers}
+                              diffColumns={mergedDiffColumns}
+                              shown={visibleHighlights.length}
+                              total={mergedHighlights.length}
+                            />
+                            <ResultGrid
+                              data={previewData}
+                              highlights={visibleHighlights}
+                              numericColumns={numericColumns}
+                              columnFormats={columnFormats}
+                              onRowClick={setInspectedRow}
+                              annotations={annotations?.rows ?? {}}
+                              rowKeys={annotationRowKeys}
+                              onAnnotate={(rowIdx, patch) => annotateRows([rowIdx], patch)}
+                            />
+                            <ReviewSummaryPanel
+                              summary={annotationSummary}
+                              reviewer={reviewerName}
+                              onReviewerChange={changeReviewerName}
+                              visibleCount={visibleHighlights.length}
+                              onAnnotateVisible={(status) => annotateRows(visibleHighlights.map(h => h.rowIdx), { status, changedColumns: undefined })}
+                              onImport={handleImportAnnotations}
+                            />
+                          </div>
+                        );
                       })()}
                     </div>
                     
+                    <RowInspector
+                      detail={inspectedDetail}
+                      position={inspectedPosition}
+                      total={visibleHighlights.length}
+                      onMove={(delta) => setInspectedRow(visibleHighlights[inspectedPosition + delta]?.rowIdx ?? inspectedRow)}
+                      onClose={() => setInspectedRow(null)}
+                    />
+
                     {/* Excel出力オプション */}
                     <div className="space-y-3 p-3 rounded-md border bg-muted/50">
                       <label className="text-sm font-medium">Excel出力オプション</label>
@@ -2098,6 +3802,16 @@ export default function Home() {
                           罫線を引く
                         </label>
                       </div>
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id="excel-highlight-diffs"
+                          checked={excelHighlightDiffs}
+                          onCheckedChange={(checked) => setExcelHighlightDiffs(checked === true)}
+                        />
+                        <label htmlFor="excel-highlight-diffs" className="text-sm font-medium leading-none">
+                          一致状況で行を色分けし、差分のあるセルを強調（凡例シート付き）
+                        </label>
+                      </div>
                       <div className="flex items-center space-x-2">
                         <Checkbox
                           id="excel-show-total"
@@ -2111,7 +3825,11 @@ export default function Home() {
                     </div>
                     
                     {/* ダウンロードボタン */}
-                    <div className="flex justify-end">
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" size="sm" onClick={handleDownloadReport}>
+                        <Download className="mr-2 h-4 w-4" />
+                        レポート出力（サマリー・分類別シート）
+                      </Button>
                       <Button variant="outline" size="sm" onClick={handleDownloadCompare}>
                         <Download className="mr-2 h-4 w-4" />
                         ダウンロード
@@ -2123,6 +3841,234 @@ export default function Home() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="multi" className="mt-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>複数ファイルの比較</CardTitle>
+                <CardDescription>
+                  3つ以上のファイルを基準ファイルと比較し、キーごとの有無と基準ファイルとの差分を確認します
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="space-y-3">
+                  {multiSlots.map((slot, idx) => (
+                    <div key={slot.id} className="space-y-2 rounded-md border border-input p-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-3">
+                          <span className="text-sm font-medium">F{idx + 1}</span>
+                          <label className="flex items-center gap-1 text-sm">
+                            <input
+                              type="radio"
+                              name="multi-baseline"
+                              checked={multiBaseline === idx}
+                              onChange={() => changeMultiBaseline(idx)}
+                            />
+                            基準ファイル
+                          </label>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon-sm"
+                          onClick={() => removeMultiSlot(idx)}
+                          disabled={multiSlots.length <= 2}
+                          title="ファイル枠を削除"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <input
+                          id={`multi-file-input-${slot.id}`}
+                          type="file"
+                          accept=".xlsx,.xls,.csv,.tsv,.txt"
+                          onChange={(e) => handleMultiFileChange(slot.id, e)}
+                          className="hidden"
+                        />
+                        <Button
+                          variant="outline"
+                          type="button"
+                          onClick={() => {
+                            const input = document.getElementById(`multi-file-input-${slot.id}`) as HTMLInputElement;
+                            if (input) {
+                              input.click();
+                            }
+                          }}
+                        >
+                          <Upload className="mr-2 h-4 w-4" />
+                          ファイルを選択
+                        </Button>
+                        {slot.file && (
+                          <div className="flex items-center gap-2">
+                            <FileSpreadsheet className="h-4 w-4" />
+                            <span className="text-sm">{slot.file.name}</span>
+                          </div>
+                        )}
+                      </div>
+                      <SheetPicker
+                        id={`multi-sheet-${slot.id}`}
+                        book={slot.book}
+                        value={slot.sheet}
+                        onChange={(name) => slot.book && handleSheetChange(() => selectMultiSheet(slot.id, slot.book as ExcelBook, name))}
+                      />
+                      {fileLoadProgress?.target === `multi-${slot.id}` && <FileLoadProgress progress={fileLoadProgress} />}
+                      {slot.data && (
+                        <p className="text-xs text-muted-foreground">
+                          {slot.data.headers.length}列, {slot.data.rows.length}行
+                        </p>
+                      )}
+                      {multiColumnMappings[idx].length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          列の対応付け（自動）: {multiColumnMappings[idx].map(pair => `${pair.left} → ${pair.right}`).join(", ")}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                  <Button variant="outline" size="sm" onClick={addMultiSlot}>
+                    ファイル枠を追加
+                  </Button>
+                </div>
+
+                <LargeFileOptionsPanel id="multi-large-file" options={largeFileOptions} onChange={setLargeFileOptions} />
+                <EngineSettingsPanel id="multi-engine" mode={engineMode} onChange={setEngineMode} />
+
+                {multiBaseData && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">キー列（基準ファイルの列。複数選択可）</label>
+                    <div className="max-h-[300px] overflow-y-auto rounded-md border border-input bg-background p-3 space-y-2">
+                      {multiBaseData.headers.map((header, idx) => {
+                        // キー列が無いファイル（対応付けを含む）
+                        const missing = multiSlots
+                          .map((slot, i) => (i !== multiBaseline && slot.data && !resolveRightColumn(multiColumnMappings[i], header, slot.data.headers) ? `F${i + 1}` : null))
+                          .filter(Boolean);
+                        return (
+                          <div key={idx} className="flex items-center space-x-2">
+                            <Checkbox
+                              id={`multi-key-${idx}`}
+                              checked={multiKeys.includes(header)}
+                              onCheckedChange={(checked) => {
+                                if (checked) {
+                                  setMultiKeys([...multiKeys, header]);
+                                } else {
+                                  setMultiKeys(multiKeys.filter(k => k !== header));
+                                }
+                              }}
+                            />
+                            <label htmlFor={`multi-key-${idx}`} className="text-sm font-medium leading-none cursor-pointer">
+                              {header}
+                            </label>
+                            {multiKeys.includes(header) && missing.length > 0 && (
+                              <span className="text-xs text-destructive">（{missing.join(", ")} に対応する列がありません）</span>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
+                <div className="space-y-3">
+                  <label className="text-sm font-medium">オプション</label>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="multi-trim"
+                      checked={multiOptions.trim}
+                      onCheckedChange={(checked) => setMultiOptions({ ...multiOptions, trim: checked === true })}
+                    />
+                    <label htmlFor="multi-trim" className="text-sm font-medium leading-none">
+                      前後の空白をトリム
+                    </label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="multi-case-insensitive"
+                      checked={multiOptions.case_insensitive}
+                      onCheckedChange={(checked) => setMultiOptions({ ...multiOptions, case_insensitive: checked === true })}
+                    />
+                    <label htmlFor="multi-case-insensitive" className="text-sm font-medium leading-none">
+                      大文字小文字を区別しない
+                    </label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="multi-sort-by-keys"
+                      checked={sortByKeys}
+                      onCheckedChange={(checked) => setSortByKeys(checked === true)}
+                    />
+                    <label htmlFor="multi-sort-by-keys" className="text-sm font-medium leading-none">
+                      比較実行前にキー列でソート（推奨）
+                    </label>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Button
+                    onClick={handleMultiCompare}
+                    disabled={multiSlots.some(slot => !slot.data) || multiKeys.length === 0 || taskProgress !== null}
+                    className="w-full"
+                  >
+                    {taskProgress?.type === "multi_compare" ? "比較中..." : "比較実行"}
+                  </Button>
+                  {taskProgress?.type === "multi_compare" && (
+                    <TaskProgressPanel progress={taskProgress.phases} onCancel={cancelTask} />
+                  )}
+                  {taskError?.type === "multi_compare" && (
+                    <TaskErrorPanel title="比較処理に失敗しました" error={taskError.error} onClose={() => setTaskError(null)} />
+                  )}
+                  {multiSlots.some(slot => !slot.data) && (
+                    <p className="text-xs text-muted-foreground">
+                      ⚠ すべてのファイル枠にファイルを選択してください（不要な枠は削除できます）。
+                    </p>
+                  )}
+                </div>
+
+                {multiResult && multiCounts && (
+                  <div className="space-y-4 rounded-lg border p-4">
+                    <div className="flex items-center justify-between">
+                      <h3 className="font-semibold">比較結果（{multiCounts.total}キー）</h3>
+                      <Button variant="outline" size="sm" onClick={handleDownloadMultiReport}>
+                        <Download className="mr-2 h-4 w-4" />
+                        レポートを出力
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap gap-2 text-xs">
+                      {multiMatchStatusStyles.map(status => (
+                        <span key={status.id} className="rounded-md border px-2 py-1" title={status.description}>
+                          {status.name}: {multiCounts.statuses[status.id]}
+                        </span>
+                      ))}
+                    </div>
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="border-b text-left">
+                          <th className="p-1">ファイル</th>
+                          <th className="p-1 text-right">キーあり</th>
+                          <th className="p-1 text-right">欠落</th>
+                          <th className="p-1 text-right">差分のある行</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {multiCounts.files.map(file => (
+                          <tr key={file.label} className="border-b">
+                            <td className="p-1">
+                              {file.label}: {file.name}
+                              {file.baseline && <span className="ml-1 text-muted-foreground">（基準）</span>}
+                            </td>
+                            <td className="p-1 text-right">{file.present}</td>
+                            <td className="p-1 text-right">{file.missing}</td>
+                            <td className="p-1 text-right">{file.baseline ? "-" : file.diffRows}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <div className="max-h-[500px] overflow-auto">
+                      <PreviewTable data={multiResult.output.result} />
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           <TabsContent value="split" className="mt-6">
             <Card>
               <CardHeader>
@@ -2139,7 +4085,7 @@ export default function Home() {
                       id="split-file-input"
                       ref={splitFileInputRef}
                       type="file"
-                      accept=".xlsx,.xls"
+                      accept=".xlsx,.xls,.csv,.tsv,.txt"
                       onChange={handleSplitFileChange}
                       className="hidden"
                     />
@@ -2166,6 +4112,8 @@ export default function Home() {
                           onClick={() => {
                             setSplitFile(null);
                             setSplitData(null);
+                            setSplitBook(null);
+                            setSplitSheet("");
                             setSplitKeys([]);
                             setSplitResult(null);
                           }}
@@ -2175,6 +4123,48 @@ export default function Home() {
                       </div>
                     )}
                   </div>
+                  <SheetPicker
+                    id="split-sheet"
+                    book={splitBook}
+                    value={splitSheet}
+                    onChange={(name) => splitBook && handleSheetChange(() => selectSplitSheet(splitBook, name, splitImportOptions))}
+                  />
+                  <CsvOptionsPanel
+                    id="split-csv"
+                    book={splitBook}
+                    options={splitCsvOptions}
+                    onChange={(options) => reloadWithCsvOptions(splitFile, options, async (book) => {
+                      setSplitCsvOptions(options);
+                      setSplitBook(book);
+                      await selectSplitSheet(book, getDefaultSheetName(book), splitImportOptions);
+                    })}
+                  />
+                  <ImportOptionsPanel
+                    id="split-import"
+                    book={splitBook}
+                    sheetName={splitSheet}
+                    options={splitImportOptions}
+                    onChange={(options) => splitBook && handleSheetChange(async () => {
+                      await selectSplitSheet(splitBook, splitSheet, options);
+                      setSplitImportOptions(options);
+                    })}
+                  />
+                  <LargeFileOptionsPanel id="split-large-file" options={largeFileOptions} onChange={setLargeFileOptions} />
+                  <EngineSettingsPanel id="split-engine" mode={engineMode} onChange={setEngineMode} />
+                  <PresetPanel
+                    id="split-preset"
+                    kind="split"
+                    headers={splitPresetHeaders}
+                    presets={presets}
+                    applied={appliedSplitPreset}
+                    onApply={applySplitPreset}
+                    onClear={() => setAppliedSplitPreset(null)}
+                    onSave={(name) => handleSavePreset("split", name)}
+                    onDelete={handleDeletePreset}
+                    onExport={handleExportPresets}
+                    onImport={handleImportPresets}
+                  />
+                  {fileLoadProgress?.target === "split" && <FileLoadProgress progress={fileLoadProgress} />}
                   {splitData && (
                     <p className="text-xs text-muted-foreground">
                       {splitData.headers.length}列, {splitData.rows.length}行
@@ -2213,9 +4203,15 @@ export default function Home() {
                   </div>
                 )}
 
-                <Button onClick={handleSplit} disabled={!splitData || splitKeys.length === 0}>
-                  分割実行
+                <Button onClick={handleSplit} disabled={!splitData || splitKeys.length === 0 || taskProgress !== null}>
+                  {taskProgress?.type === "split" ? "分割中..." : "分割実行"}
                 </Button>
+                {taskProgress?.type === "split" && (
+                  <TaskProgressPanel progress={taskProgress.phases} onCancel={cancelTask} />
+                )}
+                {taskError?.type === "split" && (
+                  <TaskErrorPanel title="分割処理に失敗しました" error={taskError.error} onClose={() => setTaskError(null)} />
+                )}
 
                 {splitResult && splitResult.parts.length > 0 && (
                   <div className="space-y-4 rounded-lg border p-4">
@@ -2654,12 +4650,28 @@ export default function Home() {
                     </div>
                     
                     {/* ダウンロードボタン */}
-                    <div className="flex justify-end">
+                    <div className="flex items-center justify-end gap-2">
+                      <label htmlFor="split-output-mode" className="text-xs text-muted-foreground">出力形式</label>
+                      <select
+                        id="split-output-mode"
+                        value={splitOutputMode}
+                        onChange={(e) => setSplitOutputMode(e.target.value as SplitOutputMode)}
+                        className="rounded-md border border-input bg-background px-2 py-1 text-sm"
+                      >
+                        {splitOutputModes.map((mode) => (
+                          <option key={mode.id} value={mode.id}>{mode.name}</option>
+                        ))}
+                      </select>
                       <Button variant="outline" size="sm" onClick={handleDownloadSplit}>
                         <Download className="mr-2 h-4 w-4" />
-                        ZIPでダウンロード
+                        ダウンロード
                       </Button>
                     </div>
+                    {splitOutputMode !== "zip" && (
+                      <p className="text-xs text-muted-foreground text-right">
+                        1つのブックには、キー・行数・各シートへのリンクの「{SPLIT_INDEX_SHEET_NAME}」シートを先頭に追加します。シート名は31文字以内に切り詰め、使えない文字（\ / ? * [ ] :）は _ に置き換え、重複する名前には (2) のように番号を付けます。
+                      </p>
+                    )}
                   </div>
                 )}
               </CardContent>
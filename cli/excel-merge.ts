@@ -0,0 +1,231 @@
+// 比較・分割のジョブをコマンドラインで実行する（画面で保存・書き出した設定のJSONを使用）
+//
+//   npm run build:cli
+//   npm run cli -- compare --job presets.json --left 左.xlsx --right 右.xlsx --report report.xlsx --max-unmatched 0
+//   npm run cli -- split --job presets.json --input 元.xlsx --out split.zip --book split.xlsx
+//
+// 終了コード: 0 正常終了、1 エラー、2 左のみ・右のみの行数（突合しなかった重複キーの行を含む）が --max-unmatched を超えた
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import ExcelJS from 'exceljs';
+import { buildCompareReportWorkbook, buildMergedWorkbook, buildSplitBook, buildSplitZip, toSafeFileName } from '../lib/excel-export';
+import { defaultImportOptions, type ImportOptions } from '../lib/excel-utils';
+import {
+  parseUnmatchedLimit,
+  readJobSource,
+  resolveCompareJobSettings,
+  resolveSplitJobSettings,
+  runCompareJob,
+  runSplitJob,
+  selectJobPreset,
+  summarizeCompareJob,
+  summarizeSplitJob,
+  type CompareJobSettings,
+  type JobSource,
+  type SplitJobSettings,
+} from '../lib/job';
+import { parsePresetFile } from '../lib/presets';
+import { loadEngine, type EngineMode } from '../lib/ts-engine';
+import { loadNodeWasmModule } from '../lib/server-engine';
+import { WasmError, type WasmModule } from '../lib/wasm-types';
+
+const EXIT_ERROR = 1;
+const EXIT_THRESHOLD = 2;
+
+const usage = `使い方:
+  excel-merge compare --job <設定.json> --left <ファイル> --right <ファイル> [オプション]
+  excel-merge split --job <設定.json> --input <ファイル> (--out <zipファイル> | --book <xlsxファイル>) [オプション]
+
+共通オプション:
+  --job <path>            画面で保存した設定（書き出したJSON、または設定1件のJSON）
+  --preset <name>         使用する設定の名前（省略時は見出しが最も近い設定）
+  --engine <mode>         auto（既定）| wasm | typescript
+  --header-row <n>        ヘッダー行（1始まり）
+  --auto-header           ヘッダー行を自動検出する
+  --summary <path>        結果のJSONの出力先（省略時は標準出力）
+
+compare のオプション:
+  --left-sheet <name>     左側のシート（省略時は最初にデータがあるシート）
+  --right-sheet <name>    右側のシート
+  --report <path>         監査証跡用のレポート（xlsx）の出力先
+  --merged <path>         比較結果（設定の列・ソート・書式を適用したxlsx）の出力先
+  --max-unmatched <n>     左のみ・右のみの行数の上限（件数、または 5% のように全行に対する割合）
+                          重複キーで突合しなかった行（1対1では重複キーの行すべて）も含めて数える
+
+split のオプション:
+  --sheet <name>          分割するシート
+  --out <path>            分割したファイルをまとめたzipの出力先
+  --book <path>           キーごとのシートと一覧シートの1つのブック（xlsx）の出力先
+                          設定の出力形式が zip・両方なら --out、1つのブックなら --book が必要
+                          （両方の場合は画面と同じく1つのブックもzipに含める）
+`;
+
+// 引数の誤り（使い方を表示して終了する）
+class UsageError extends Error {}
+
+// Node ではビルド済みのWASM（excel-merge-wasm/pkg）をファイルから読み込む
+async function loadCliWasmModule(): Promise<WasmModule | null> {
+  const pkgDir = path.resolve(__dirname, '../../excel-merge-wasm/pkg');
+  try {
+    return await loadNodeWasmModule(pkgDir);
+  } catch (error) {
+    console.warn(`WASMモジュールを読み込めません（${pkgDir}）:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+async function readSource(filePath: string, sheetName: string | undefined, importOptions: ImportOptions): Promise<JobSource> {
+  const file = new File([await fs.promises.readFile(filePath)], path.basename(filePath));
+  return readJobSource(file, sheetName, importOptions);
+}
+
+function parseThreshold(value: string | undefined): ((total: number) => number) | null {
+  if (value === undefined) return null;
+  try {
+    return parseUnmatchedLimit(value);
+  } catch (error) {
+    throw new UsageError(`--max-unmatched: ${(error as Error).message}`);
+  }
+}
+
+function required(value: string | undefined, name: string): string {
+  if (!value) {
+    throw new UsageError(`--${name} を指定してください`);
+  }
+  return value;
+}
+
+async function writeSummary(summary: object, summaryPath: string | undefined): Promise<void> {
+  const json = JSON.stringify(summary, null, 2);
+  if (summaryPath) {
+    await fs.promises.writeFile(summaryPath, json + '\n');
+  } else {
+    process.stdout.write(json + '\n');
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+  if (command === 'help' || command === '--help') {
+    process.stdout.write(usage);
+    return 0;
+  }
+  if (command !== 'compare' && command !== 'split') {
+    throw new UsageError(command ? `不明なコマンドです: ${command}` : 'コマンドを指定してください');
+  }
+  const { values } = parseArgs({
+    args: rest,
+    options: {
+      job: { type: 'string' },
+      preset: { type: 'string' },
+      engine: { type: 'string', default: 'auto' },
+      'header-row': { type: 'string' },
+      'auto-header': { type: 'boolean', default: false },
+      summary: { type: 'string' },
+      left: { type: 'string' },
+      right: { type: 'string' },
+      'left-sheet': { type: 'string' },
+      'right-sheet': { type: 'string' },
+      report: { type: 'string' },
+      merged: { type: 'string' },
+      'max-unmatched': { type: 'string' },
+      input: { type: 'string' },
+      sheet: { type: 'string' },
+      out: { type: 'string' },
+      book: { type: 'string' },
+    },
+  });
+
+  const engineMode = values.engine as EngineMode;
+  if (!['auto', 'wasm', 'typescript'].includes(engineMode)) {
+    throw new UsageError(`--engine には auto, wasm, typescript のいずれかを指定してください: ${values.engine}`);
+  }
+  const headerRow = values['header-row'] !== undefined ? parseInt(values['header-row'], 10) : defaultImportOptions.headerRow;
+  if (!(headerRow >= 1)) {
+    throw new UsageError(`--header-row には1以上の行番号を指定してください: ${values['header-row']}`);
+  }
+  const importOptions: ImportOptions = { ...defaultImportOptions, headerRow, autoDetectHeader: values['auto-header'] ?? false };
+  const presets = parsePresetFile(await fs.promises.readFile(required(values.job, 'job'), 'utf8'));
+
+  if (command === 'compare') {
+    const threshold = parseThreshold(values['max-unmatched']);
+    const left = await readSource(required(values.left, 'left'), values['left-sheet'], importOptions);
+    const right = await readSource(required(values.right, 'right'), values['right-sheet'], importOptions);
+    const preset = selectJobPreset(presets, 'compare', [left.data.headers, right.data.headers], values.preset);
+    const settings = resolveCompareJobSettings(preset.settings as Partial<CompareJobSettings>);
+    const engine = await loadEngine(engineMode, loadCliWasmModule);
+
+    const result = runCompareJob(engine, left, right, settings);
+    if (values.report) {
+      // レポートは統合したすべての列を出力
+      const report = buildCompareReportWorkbook(ExcelJS, result.merged, result.highlights, result.output.report, result.output.log, settings.excel);
+      await report.xlsx.writeFile(values.report);
+    }
+    if (values.merged) {
+      const merged = buildMergedWorkbook(ExcelJS, result.table, result.highlights, settings.compareColumns, settings.columnFormats, settings.excel);
+      await merged.xlsx.writeFile(values.merged);
+    }
+
+    const summary = summarizeCompareJob(preset, engine, left, right, result, threshold);
+    await writeSummary({
+      ...summary,
+      outputs: { report: values.report ?? null, merged: values.merged ?? null },
+    }, values.summary);
+    if (!summary.passed) {
+      console.error(`左のみ・右のみの行数（突合しなかった重複キーの行を含む: ${summary.unmatched}）が上限（${summary.maxUnmatched}）を超えています`);
+      return EXIT_THRESHOLD;
+    }
+    return 0;
+  }
+
+  const source = await readSource(required(values.input, 'input'), values.sheet, importOptions);
+  const preset = selectJobPreset(presets, 'split', [source.data.headers], values.preset);
+  const settings = resolveSplitJobSettings(preset.settings as Partial<SplitJobSettings>);
+  // 設定の出力形式に必要な出力先
+  if (settings.outputMode !== 'workbook' && !values.out) {
+    throw new UsageError(`設定「${preset.name}」の出力形式（${settings.outputMode}）にはzipの出力先（--out）が必要です`);
+  }
+  if (settings.outputMode === 'workbook' && !values.book) {
+    throw new UsageError(`設定「${preset.name}」の出力形式（workbook）には1つのブックの出力先（--book）が必要です`);
+  }
+  const engine = await loadEngine(engineMode, loadCliWasmModule);
+
+  const result = runSplitJob(engine, source, settings);
+  if (values.out) {
+    const bookFileName = settings.outputMode === 'both' ? `split_book_${toSafeFileName(source.sheet)}.xlsx` : undefined;
+    await fs.promises.writeFile(
+      values.out,
+      await buildSplitZip(ExcelJS, result.parts, settings.columnFormats, settings.numericColumns, settings.excel, bookFileName)
+    );
+  }
+  if (values.book) {
+    const book = buildSplitBook(ExcelJS, result.parts, settings.columnFormats, settings.numericColumns, settings.excel);
+    await book.xlsx.writeFile(values.book);
+  }
+
+  await writeSummary({
+    ...summarizeSplitJob(preset, engine, source, result),
+    outputs: { zip: values.out ?? null, book: values.book ?? null },
+  }, values.summary);
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    if (error instanceof UsageError || (error instanceof Error && 'code' in error && String(error.code).startsWith('ERR_PARSE_ARGS'))) {
+      console.error(`${error.message}\n\n${usage}`);
+    } else if (error instanceof WasmError) {
+      const { code, side, column, row } = error.info;
+      const where = [side && `側: ${side}`, column && `列: ${column}`, row !== undefined && `行: ${row + 1}`].filter(Boolean).join('、');
+      console.error(`エラー（${code}）: ${error.message}${where ? `（${where}）` : ''}`);
+    } else {
+      console.error('エラー:', error instanceof Error ? error.message : error);
+    }
+    process.exitCode = EXIT_ERROR;
+  }
+);
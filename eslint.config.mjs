@@ -12,6 +12,10 @@ const eslintConfig = defineConfig([
     "out/**",
     "build/**",
     "next-env.d.ts",
+    // Compiled command-line runner:
+    "dist-cli/**",
+    // Compiled tests:
+    "dist-test/**",
   ]),
 ]);
 
@@ -1,5 +1,6 @@
 use wasm_bindgen::prelude::*;
 use serde::{Deserialize, Serialize};
+use serde_json::Value;
 
 #[wasm_bindgen]
 extern "C" {
@@ -17,16 +18,91 @@ pub fn main() {
     console_error_panic_hook::set_once();
 }
 
+// Typed cell values (`CellValue` on the JS side). They are passed through untouched,
+// row for row, so numbers, dates and number formats survive compare/split.
+pub type CellRow = Vec<Value>;
+
 #[derive(Debug, Clone, Serialize, Deserialize)]
 pub struct TableData {
     pub headers: Vec<String>,
     pub rows: Vec<Vec<String>>,
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    pub cells: Option<Vec<CellRow>>,
+}
+
+// How rows sharing a key are matched
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Default, Serialize, Deserialize)]
+#[serde(rename_all = "snake_case")]
+pub enum MatchMode {
+    // 1:1 only; repeated keys are reported as duplicates
+    #[default]
+    OneToOne,
+    // One left row to several right rows
+    OneToMany,
+    // Several left rows to one right row
+    ManyToOne,
+    // Every left row paired with every right row (cartesian)
+    ManyToMany,
+    // The n-th left row paired with the n-th right row within the key
+    Sequence,
+}
+
+impl MatchMode {
+    fn as_str(&self) -> &'static str {
+        match self {
+            MatchMode::OneToOne => "one_to_one",
+            MatchMode::OneToMany => "one_to_many",
+            MatchMode::ManyToOne => "many_to_one",
+            MatchMode::ManyToMany => "many_to_many",
+            MatchMode::Sequence => "sequence",
+        }
+    }
+}
+
+// How a column is compared when filling diff_cols (columns without a rule use exact string equality)
+#[derive(Debug, Clone, PartialEq, Default, Serialize, Deserialize)]
+#[serde(tag = "type", rename_all = "snake_case")]
+pub enum ColumnRule {
+    #[default]
+    Exact,
+    // Equal when |a - b| <= abs_tolerance or |a - b| <= rel_tolerance * max(|a|, |b|)
+    Numeric {
+        #[serde(default)]
+        abs_tolerance: f64,
+        #[serde(default)]
+        rel_tolerance: f64,
+    },
+    // Equal when both sides are the same date/time, whatever the format
+    Date,
+    Text {
+        #[serde(default)]
+        trim: bool,
+        #[serde(default)]
+        case_insensitive: bool,
+        // Full-width ASCII and half-width katakana are folded before comparing
+        #[serde(default)]
+        normalize_width: bool,
+    },
+    // Never reported in diff_cols
+    Ignore,
 }
 
 #[derive(Debug, Serialize, Deserialize)]
 pub struct CompareOptions {
     pub trim: bool,
     pub case_insensitive: bool,
+    #[serde(default)]
+    pub match_mode: MatchMode,
+    // Keyed by column header
+    #[serde(default)]
+    pub column_rules: std::collections::HashMap<String, ColumnRule>,
+}
+
+// A left column paired with a differently named right column
+#[derive(Debug, Clone, Serialize, Deserialize)]
+pub struct ColumnPair {
+    pub left: String,
+    pub right: String,
 }
 
 #[derive(Debug, Serialize, Deserialize)]
@@ -35,8 +111,38 @@ pub struct CompareInput {
     pub left_rows: Vec<Vec<String>>,
     pub right_headers: Vec<String>,
     pub right_rows: Vec<Vec<String>>,
+    #[serde(default)]
+    pub left_cells: Option<Vec<CellRow>>,
+    #[serde(default)]
+    pub right_cells: Option<Vec<CellRow>>,
     pub key: String,
     pub options: CompareOptions,
+    // Explicit left → right column pairs; other columns are paired by identical header
+    #[serde(default)]
+    pub column_mapping: Vec<ColumnPair>,
+}
+
+// Right column paired with a left column: the mapped one, or the same header unless that
+// right column is explicitly mapped to another left column
+fn right_column_index(right_headers: &[String], mapping: &[ColumnPair], left_header: &str) -> Option<usize> {
+    if let Some(pair) = mapping.iter().find(|p| p.left == left_header) {
+        return right_headers.iter().position(|h| h == &pair.right);
+    }
+    if mapping.iter().any(|p| p.right == left_header) {
+        return None;
+    }
+    right_headers.iter().position(|h| h == left_header)
+}
+
+// Header/option part of `CompareInput`, used by `compare_columnar` where rows travel as buffers
+#[derive(Debug, Serialize, Deserialize)]
+pub struct ColumnarCompareInput {
+    pub left_headers: Vec<String>,
+    pub right_headers: Vec<String>,
+    pub key: String,
+    pub options: CompareOptions,
+    #[serde(default)]
+    pub column_mapping: Vec<ColumnPair>,
 }
 
 #[derive(Debug, Serialize, Deserialize)]
@@ -48,10 +154,128 @@ pub struct CompareOutput {
     pub log: Vec<(String, String)>,
 }
 
+// One file of a multi-file compare; `column_mapping` pairs baseline columns (left)
+// with this file's columns (right), like `CompareInput::column_mapping`
+#[derive(Debug, Serialize, Deserialize)]
+pub struct MultiCompareSource {
+    pub name: String,
+    pub headers: Vec<String>,
+    pub rows: Vec<Vec<String>>,
+    #[serde(default)]
+    pub cells: Option<Vec<CellRow>>,
+    #[serde(default)]
+    pub column_mapping: Vec<ColumnPair>,
+}
+
+// Two or more files compared against the one at `baseline`
+#[derive(Debug, Serialize, Deserialize)]
+pub struct MultiCompareInput {
+    pub inputs: Vec<MultiCompareSource>,
+    #[serde(default)]
+    pub baseline: usize,
+    pub key: String,
+    pub options: CompareOptions,
+}
+
+#[derive(Debug, Serialize, Deserialize)]
+pub struct MultiCompareOutput {
+    pub result: TableData,
+    pub log: Vec<(String, String)>,
+}
+
+// Key normalizers of the fuzzy pass; whichever are enabled run in this order
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Serialize, Deserialize)]
+#[serde(rename_all = "snake_case")]
+pub enum FuzzyNormalizer {
+    // Full-width ASCII to half-width, half-width katakana to full-width
+    Width,
+    // Hiragana to katakana
+    Kana,
+    // Drop 株式会社, (株), Inc., Co., Ltd. and the like
+    CorporateSuffix,
+    // Drop hyphens, dashes and whitespace
+    HyphenSpace,
+}
+
+impl FuzzyNormalizer {
+    fn as_str(&self) -> &'static str {
+        match self {
+            FuzzyNormalizer::Width => "width",
+            FuzzyNormalizer::Kana => "kana",
+            FuzzyNormalizer::CorporateSuffix => "corporate_suffix",
+            FuzzyNormalizer::HyphenSpace => "hyphen_space",
+        }
+    }
+}
+
+// Similarity of two normalized keys, 0.0 to 1.0
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Default, Serialize, Deserialize)]
+#[serde(rename_all = "snake_case")]
+pub enum FuzzyAlgorithm {
+    #[default]
+    JaroWinkler,
+    // 1 - edit distance / length of the longer key
+    Levenshtein,
+}
+
+impl FuzzyAlgorithm {
+    fn as_str(&self) -> &'static str {
+        match self {
+            FuzzyAlgorithm::JaroWinkler => "jaro_winkler",
+            FuzzyAlgorithm::Levenshtein => "levenshtein",
+        }
+    }
+}
+
+#[derive(Debug, Serialize, Deserialize)]
+pub struct FuzzyOptions {
+    #[serde(default)]
+    pub normalizers: Vec<FuzzyNormalizer>,
+    #[serde(default)]
+    pub algorithm: FuzzyAlgorithm,
+    // Pairs scoring below this are not reported
+    pub threshold: f64,
+}
+
+// Rows left unmatched by a compare (left_only / right_only), laid out like `CompareInput`
+#[derive(Debug, Serialize, Deserialize)]
+pub struct FuzzyMatchInput {
+    pub left_headers: Vec<String>,
+    pub left_rows: Vec<Vec<String>>,
+    pub right_headers: Vec<String>,
+    pub right_rows: Vec<Vec<String>>,
+    #[serde(default)]
+    pub left_cells: Option<Vec<CellRow>>,
+    #[serde(default)]
+    pub right_cells: Option<Vec<CellRow>>,
+    pub key: String,
+    pub options: CompareOptions,
+    #[serde(default)]
+    pub column_mapping: Vec<ColumnPair>,
+    pub fuzzy: FuzzyOptions,
+}
+
+// A left row paired with a right row whose key is similar (row indices into the input)
+#[derive(Debug, Serialize, Deserialize)]
+pub struct FuzzyMatch {
+    pub left: usize,
+    pub right: usize,
+    pub score: f64,
+    pub diff_cols: Vec<String>,
+}
+
+#[derive(Debug, Serialize, Deserialize)]
+pub struct FuzzyMatchOutput {
+    pub matches: Vec<FuzzyMatch>,
+    pub log: Vec<(String, String)>,
+}
+
 #[derive(Debug, Serialize, Deserialize)]
 pub struct SplitInput {
     pub headers: Vec<String>,
     pub rows: Vec<Vec<String>>,
+    #[serde(default)]
+    pub cells: Option<Vec<CellRow>>,
     pub key: String,
 }
 
@@ -66,6 +290,86 @@ pub struct SplitOutput {
     pub parts: Vec<SplitPart>,
 }
 
+// What went wrong, so the JS side can explain it without parsing messages
+#[derive(Debug, Clone, Copy, PartialEq, Serialize, Deserialize)]
+#[serde(rename_all = "snake_case")]
+pub enum ErrorCode {
+    InvalidInput,
+    KeyNotFound,
+    InvalidCellData,
+    SerializeFailed,
+}
+
+// Error reported to JS instead of panicking; `side` is "left"/"right" for compare inputs
+#[derive(Debug, Serialize, Deserialize)]
+pub struct WasmError {
+    pub code: ErrorCode,
+    pub message: String,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub side: Option<String>,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub column: Option<String>,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub row: Option<usize>,
+    // Index into `MultiCompareInput::inputs`
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub input: Option<usize>,
+}
+
+impl WasmError {
+    fn new(code: ErrorCode, message: impl Into<String>) -> Self {
+        WasmError { code, message: message.into(), side: None, column: None, row: None, input: None }
+    }
+
+    fn side(mut self, side: &str) -> Self {
+        self.side = Some(side.to_string());
+        self
+    }
+
+    fn column(mut self, column: &str) -> Self {
+        self.column = Some(column.to_string());
+        self
+    }
+
+    fn row(mut self, row: usize) -> Self {
+        self.row = Some(row);
+        self
+    }
+
+    fn input(mut self, input: usize) -> Self {
+        self.input = Some(input);
+        self
+    }
+
+    fn to_json(&self) -> String {
+        serde_json::to_string(self).unwrap_or_else(|_| self.message.clone())
+    }
+}
+
+// Result envelope of the JSON entry points: {"status":"ok","result":...} or {"status":"error","error":...}
+#[derive(Serialize)]
+#[serde(tag = "status", rename_all = "snake_case")]
+enum Envelope<T> {
+    Ok { result: T },
+    Error { error: WasmError },
+}
+
+fn to_envelope<T: Serialize>(result: Result<T, WasmError>) -> String {
+    let envelope = match result {
+        Ok(result) => Envelope::Ok { result },
+        Err(error) => Envelope::Error { error },
+    };
+    serde_json::to_string(&envelope).unwrap_or_else(|e| {
+        let error = WasmError::new(ErrorCode::SerializeFailed, format!("Failed to serialize output: {}", e));
+        format!(r#"{{"status":"error","error":{}}}"#, error.to_json())
+    })
+}
+
+fn parse_input<T: serde::de::DeserializeOwned>(json: &str, name: &str) -> Result<T, WasmError> {
+    serde_json::from_str(json)
+        .map_err(|e| WasmError::new(ErrorCode::InvalidInput, format!("Failed to parse {}: {}", name, e)))
+}
+
 fn normalize_key(key: &str, options: &CompareOptions) -> String {
     let mut normalized = key.to_string();
     if options.trim {
@@ -77,34 +381,467 @@ fn normalize_key(key: &str, options: &CompareOptions) -> String {
     normalized
 }
 
-#[wasm_bindgen]
-pub fn compare_files(input_json: &str) -> String {
-    let input: CompareInput = serde_json::from_str(input_json)
-        .expect("Failed to parse CompareInput");
-    
-    let left_key_idx = input.left_headers.iter()
-        .position(|h| h == &input.key)
-        .expect("Key column not found in left headers");
-    let right_key_idx = input.right_headers.iter()
-        .position(|h| h == &input.key)
-        .expect("Key column not found in right headers");
+// Half-width katakana U+FF66..U+FF9D in order
+const HALFWIDTH_KANA: &str = "ヲァィゥェォャュョッーアイウエオカキクケコサシスセソタチツテトナニヌネノハヒフヘホマミムメモヤユヨラリルレロワン";
+
+// Fold full-width ASCII to half-width and half-width katakana (with voiced marks) to full-width
+fn normalize_width(value: &str) -> String {
+    let mut out: Vec<char> = Vec::with_capacity(value.len());
+    for c in value.chars() {
+        let code = c as u32;
+        match code {
+            0xFF01..=0xFF5E => out.push(char::from_u32(code - 0xFEE0).unwrap_or(c)),
+            0x3000 => out.push(' '),
+            0xFF61 => out.push('。'),
+            0xFF62 => out.push('「'),
+            0xFF63 => out.push('」'),
+            0xFF64 => out.push('、'),
+            0xFF65 => out.push('・'),
+            0xFF66..=0xFF9D => out.push(HALFWIDTH_KANA.chars().nth((code - 0xFF66) as usize).unwrap_or(c)),
+            0xFF9E | 0xFF9F => {
+                // Combine the voiced/semi-voiced mark with the preceding kana when possible
+                let voiced = code == 0xFF9E;
+                let combined = out.last().and_then(|&prev| {
+                    let is_ha_row = "ハヒフヘホ".contains(prev);
+                    if voiced && prev == 'ウ' {
+                        Some('ヴ' as u32)
+                    } else if voiced && (is_ha_row || "カキクケコサシスセソタチツテト".contains(prev)) {
+                        Some(prev as u32 + 1)
+                    } else if !voiced && is_ha_row {
+                        Some(prev as u32 + 2)
+                    } else {
+                        None
+                    }
+                });
+                match combined {
+                    Some(code) => {
+                        out.pop();
+                        out.push(char::from_u32(code).unwrap_or(c));
+                    }
+                    None => out.push(if voiced { '゛' } else { '゜' }),
+                }
+            }
+            _ => out.push(c),
+        }
+    }
+    out.into_iter().collect()
+}
+
+// Numbers written as "1,000", "¥1,000", "1000.00", "(1,000)", "▲1,000" or in full-width digits
+fn parse_number(value: &str) -> Option<f64> {
+    let mut text: String = normalize_width(value)
+        .chars()
+        .filter(|c| !c.is_whitespace() && !matches!(c, ',' | '¥' | '\\' | '$' | '€'))
+        .collect();
+    let mut negative = false;
+    if text.starts_with('(') && text.ends_with(')') && text.len() > 2 {
+        negative = true;
+        text = text[1..text.len() - 1].to_string();
+    } else if let Some(rest) = text.strip_prefix('▲') {
+        negative = true;
+        text = rest.to_string();
+    }
+    if text.is_empty() || text.eq_ignore_ascii_case("nan") || text.to_ascii_lowercase().contains("inf") {
+        return None;
+    }
+    let num: f64 = text.parse().ok()?;
+    Some(if negative { -num } else { num })
+}
+
+// Dates written as yyyy-mm-dd, yyyy/m/d, yyyy.m.d or yyyy年m月d日, optionally followed by a time
+fn parse_date(value: &str) -> Option<(i32, u32, u32, u32, u32, u32)> {
+    let text = normalize_width(value);
+    let numbers: Vec<u32> = text
+        .split(|c: char| !c.is_ascii_digit())
+        .filter(|part| !part.is_empty())
+        .map(|part| part.parse().ok())
+        .collect::<Option<Vec<u32>>>()?;
+    if numbers.len() < 3 || numbers.len() > 6 || numbers[0] < 1000 {
+        return None;
+    }
+    let (year, month, day) = (numbers[0] as i32, numbers[1], numbers[2]);
+    if !(1..=12).contains(&month) || !(1..=31).contains(&day) {
+        return None;
+    }
+    let time = |i: usize| numbers.get(i).copied().unwrap_or(0);
+    Some((year, month, day, time(3), time(4), time(5)))
+}
+
+// Row-major cell text the matcher reads from, plus typed cells when the caller sent them
+trait CellSource {
+    fn row_count(&self) -> usize;
+    fn text(&self, row: usize, col: usize) -> &str;
+    // The typed cell object (`{kind, value, ...}`), if any
+    fn typed(&self, _row: usize, _col: usize) -> Option<&Value> {
+        None
+    }
+}
+
+// Rows and typed cells from the JSON entry points
+struct JsonTable<'a> {
+    rows: &'a [Vec<String>],
+    cells: &'a Option<Vec<CellRow>>,
+}
+
+impl CellSource for JsonTable<'_> {
+    fn row_count(&self) -> usize {
+        self.rows.len()
+    }
+
+    fn text(&self, row: usize, col: usize) -> &str {
+        self.rows.get(row).and_then(|r| r.get(col)).map(|s| s.as_str()).unwrap_or("")
+    }
+
+    fn typed(&self, row: usize, col: usize) -> Option<&Value> {
+        self.cells.as_ref()?.get(row)?.get(col).filter(|v| !v.is_null())
+    }
+}
+
+// UTF-8 cell text concatenated row by row; cell `row * columns + col` spans
+// `data[offsets[i]..offsets[i + 1]]`, so `offsets` has `rows * columns + 1` entries
+struct ColumnarTable<'a> {
+    data: &'a [u8],
+    offsets: &'a [u32],
+    columns: usize,
+}
+
+impl ColumnarTable<'_> {
+    // Offsets must be in range and every cell valid UTF-8; reports the first bad cell
+    // (`headers` name the columns in the error, when known)
+    fn validate(&self, side: &str, headers: &[String]) -> Result<(), WasmError> {
+        let cell_error = |i: usize, message: &str| {
+            let (row, col) = if self.columns == 0 { (0, 0) } else { (i / self.columns, i % self.columns) };
+            let error = WasmError::new(ErrorCode::InvalidCellData, message).side(side).row(row);
+            match headers.get(col) {
+                Some(header) => error.column(header),
+                None => error,
+            }
+        };
+        if self.offsets.is_empty() || (self.columns > 0 && (self.offsets.len() - 1) % self.columns != 0) {
+            return Err(WasmError::new(
+                ErrorCode::InvalidCellData,
+                format!("Offset count {} does not match {} columns", self.offsets.len(), self.columns),
+            ).side(side));
+        }
+        for (i, pair) in self.offsets.windows(2).enumerate() {
+            if pair[0] > pair[1] || pair[1] as usize > self.data.len() {
+                return Err(cell_error(i, "Cell offsets are out of range"));
+            }
+        }
+        if let Err(e) = std::str::from_utf8(self.data) {
+            let bad = e.valid_up_to() as u32;
+            let i = self.offsets.partition_point(|&offset| offset <= bad).saturating_sub(1);
+            return Err(cell_error(i, "Cell text is not valid UTF-8"));
+        }
+        Ok(())
+    }
+}
+
+impl CellSource for ColumnarTable<'_> {
+    fn row_count(&self) -> usize {
+        if self.columns == 0 {
+            return 0;
+        }
+        self.offsets.len().saturating_sub(1) / self.columns
+    }
+
+    fn text(&self, row: usize, col: usize) -> &str {
+        if col >= self.columns {
+            return "";
+        }
+        let i = row * self.columns + col;
+        match (self.offsets.get(i), self.offsets.get(i + 1)) {
+            (Some(&start), Some(&end)) => self.data
+                .get(start as usize..end as usize)
+                .and_then(|bytes| std::str::from_utf8(bytes).ok())
+                .unwrap_or(""),
+            _ => "",
+        }
+    }
+}
+
+// One side of a column comparison: the text plus the typed cell it came from, if any
+struct Side<'a> {
+    text: &'a str,
+    typed: Option<&'a Value>,
+}
+
+impl Side<'_> {
+    fn kind(&self) -> Option<&str> {
+        self.typed?.get("kind")?.as_str()
+    }
+
+    fn number(&self) -> Option<f64> {
+        if self.kind() == Some("number") {
+            if let Some(num) = self.typed.and_then(|c| c.get("value")).and_then(|v| v.as_f64()) {
+                return Some(num);
+            }
+        }
+        parse_number(self.text)
+    }
+
+    fn date(&self) -> Option<(i32, u32, u32, u32, u32, u32)> {
+        if self.kind() == Some("date") {
+            if let Some(date) = self.typed.and_then(|c| c.get("value")).and_then(|v| v.as_str()).and_then(parse_date) {
+                return Some(date);
+            }
+        }
+        parse_date(self.text)
+    }
+}
+
+// Whether two values count as equal under the column rule.
+// Values that do not parse as numbers/dates fall back to comparing the trimmed text.
+fn values_equal(left: &Side, right: &Side, rule: &ColumnRule) -> bool {
+    match rule {
+        ColumnRule::Exact => left.text == right.text,
+        ColumnRule::Ignore => true,
+        ColumnRule::Numeric { abs_tolerance, rel_tolerance } => {
+            if left.text.trim().is_empty() && right.text.trim().is_empty() {
+                return true;
+            }
+            match (left.number(), right.number()) {
+                (Some(a), Some(b)) => {
+                    let diff = (a - b).abs();
+                    // Small epsilon so 0.1 + 0.2 style float noise is not reported
+                    diff <= abs_tolerance.max(0.0) + 1e-9
+                        || diff <= rel_tolerance.max(0.0) * a.abs().max(b.abs())
+                }
+                _ => left.text.trim() == right.text.trim(),
+            }
+        }
+        ColumnRule::Date => match (left.date(), right.date()) {
+            (Some(a), Some(b)) => a == b,
+            _ => left.text.trim() == right.text.trim(),
+        },
+        ColumnRule::Text { trim, case_insensitive, normalize_width: fold_width } => {
+            let normalize = |value: &str| -> String {
+                let mut text = if *fold_width { normalize_width(value) } else { value.to_string() };
+                if *trim {
+                    text = text.trim().to_string();
+                }
+                if *case_insensitive {
+                    text = text.to_lowercase();
+                }
+                text
+            };
+            normalize(left.text) == normalize(right.text)
+        }
+    }
+}
 
-    // Normalize keys and build maps
+// Typed cells of one input row padded to `width` (all null when the input has none)
+fn cell_row(cells: &Option<Vec<CellRow>>, idx: usize, width: usize) -> CellRow {
+    let mut row = cells.as_ref()
+        .and_then(|c| c.get(idx))
+        .cloned()
+        .unwrap_or_default();
+    row.resize(width, Value::Null);
+    row
+}
+
+// Everything the matcher needs besides the row data
+struct MatchSettings<'a> {
+    left_headers: &'a [String],
+    right_headers: &'a [String],
+    key: &'a str,
+    options: &'a CompareOptions,
+    column_mapping: &'a [ColumnPair],
+}
+
+// Output table a matched row goes to
+#[derive(Debug, Clone, Copy, PartialEq)]
+enum Category {
+    Result,
+    LeftOnly,
+    RightOnly,
+    Duplicates,
+}
+
+// `match_status` values; `compare_columnar` reports a status as its index in this list
+const MATCH_STATUSES: [&str; 7] = [
+    "both",
+    "left_only",
+    "right_only",
+    "one_to_many",
+    "many_to_one",
+    "many_to_many",
+    "sequence",
+];
+
+// One output row expressed as indices into the inputs
+struct MatchRow {
+    category: Category,
+    left: Option<usize>,
+    right: Option<usize>,
+    status: &'static str,
+    dup: bool,
+    // Left column indices whose values differ
+    diff_cols: Vec<usize>,
+}
+
+// Paired columns (mapped or same header) and their comparison rule (used for diff_cols)
+fn paired_columns(settings: &MatchSettings) -> Vec<(usize, usize, ColumnRule)> {
+    settings.left_headers.iter()
+        .enumerate()
+        .filter_map(|(i, h)| right_column_index(settings.right_headers, settings.column_mapping, h).map(|j| (i, j, h)))
+        .map(|(i, j, h)| (i, j, settings.options.column_rules.get(h).cloned().unwrap_or_default()))
+        .filter(|(_, _, rule)| *rule != ColumnRule::Ignore)
+        .collect()
+}
+
+// Left column indices of the paired columns whose values differ between left row `l` and right row `r`
+fn differing_columns<L: CellSource, R: CellSource>(
+    common_cols: &[(usize, usize, ColumnRule)],
+    left: &L,
+    l: usize,
+    right: &R,
+    r: usize,
+) -> Vec<usize> {
+    common_cols.iter()
+        .filter(|(i, j, rule)| {
+            let left_side = Side { text: left.text(l, *i), typed: left.typed(l, *i) };
+            let right_side = Side { text: right.text(r, *j), typed: right.typed(r, *j) };
+            !values_equal(&left_side, &right_side, rule)
+        })
+        .map(|(i, _, _)| *i)
+        .collect()
+}
+
+fn match_rows<L: CellSource, R: CellSource>(settings: &MatchSettings, left: &L, right: &R) -> Result<Vec<MatchRow>, WasmError> {
+    let options = settings.options;
+    let left_key_idx = settings.left_headers.iter()
+        .position(|h| h == settings.key)
+        .ok_or_else(|| WasmError::new(ErrorCode::KeyNotFound, "Key column not found in left headers")
+            .side("left")
+            .column(settings.key))?;
+    let right_key_idx = right_column_index(settings.right_headers, settings.column_mapping, settings.key)
+        .ok_or_else(|| WasmError::new(ErrorCode::KeyNotFound, "Key column not found in right headers")
+            .side("right")
+            .column(settings.key))?;
+
+    // Normalize keys and build maps (keys are also kept in first-appearance order)
+    let mut key_order: Vec<String> = Vec::new();
     let mut left_map: std::collections::HashMap<String, Vec<usize>> = std::collections::HashMap::new();
-    for (idx, row) in input.left_rows.iter().enumerate() {
-        if let Some(key_val) = row.get(left_key_idx) {
-            let normalized = normalize_key(key_val, &input.options);
-            left_map.entry(normalized).or_insert_with(Vec::new).push(idx);
+    for idx in 0..left.row_count() {
+        let normalized = normalize_key(left.text(idx, left_key_idx), options);
+        let entry = left_map.entry(normalized.clone()).or_insert_with(Vec::new);
+        if entry.is_empty() {
+            key_order.push(normalized);
         }
+        entry.push(idx);
     }
 
     let mut right_map: std::collections::HashMap<String, Vec<usize>> = std::collections::HashMap::new();
-    for (idx, row) in input.right_rows.iter().enumerate() {
-        if let Some(key_val) = row.get(right_key_idx) {
-            let normalized = normalize_key(key_val, &input.options);
-            right_map.entry(normalized).or_insert_with(Vec::new).push(idx);
+    for idx in 0..right.row_count() {
+        let normalized = normalize_key(right.text(idx, right_key_idx), options);
+        let entry = right_map.entry(normalized.clone()).or_insert_with(Vec::new);
+        if entry.is_empty() && !left_map.contains_key(&normalized) {
+            key_order.push(normalized);
+        }
+        entry.push(idx);
+    }
+
+    // Find diff cols
+    let common_cols = paired_columns(settings);
+    let diff_cols = |l: usize, r: usize| differing_columns(&common_cols, left, l, right, r);
+    let unmatched = |category: Category, left: Option<usize>, right: Option<usize>, dup: bool| MatchRow {
+        category,
+        left,
+        right,
+        status: if left.is_some() { "left_only" } else { "right_only" },
+        dup,
+        diff_cols: Vec::new(),
+    };
+
+    // Which sides may repeat a key in the selected match mode
+    let mode = options.match_mode;
+    let left_multi_ok = matches!(mode, MatchMode::ManyToOne | MatchMode::ManyToMany | MatchMode::Sequence);
+    let right_multi_ok = matches!(mode, MatchMode::OneToMany | MatchMode::ManyToMany | MatchMode::Sequence);
+
+    let mut rows: Vec<MatchRow> = Vec::new();
+    let empty: Vec<usize> = Vec::new();
+    for normalized_key in &key_order {
+        let left_indices = left_map.get(normalized_key).unwrap_or(&empty);
+        let right_indices = right_map.get(normalized_key).unwrap_or(&empty);
+        let (nl, nr) = (left_indices.len(), right_indices.len());
+
+        // Duplicated keys the mode does not allow are reported as duplicates (both sides)
+        if (nl > 1 && !left_multi_ok) || (nr > 1 && !right_multi_ok) {
+            rows.extend(left_indices.iter().map(|&idx| unmatched(Category::Duplicates, Some(idx), None, true)));
+            rows.extend(right_indices.iter().map(|&idx| unmatched(Category::Duplicates, None, Some(idx), true)));
+            continue;
+        }
+
+        if nl == 0 || nr == 0 {
+            // Left only / right only
+            rows.extend(left_indices.iter().map(|&idx| unmatched(Category::LeftOnly, Some(idx), None, nl > 1)));
+            rows.extend(right_indices.iter().map(|&idx| unmatched(Category::RightOnly, None, Some(idx), nr > 1)));
+            continue;
+        }
+
+        // Match
+        let dup = nl > 1 || nr > 1;
+        if mode == MatchMode::Sequence && dup {
+            // Pair rows by their order within the key; the rest stay unmatched
+            let paired = nl.min(nr);
+            for i in 0..paired {
+                let (l, r) = (left_indices[i], right_indices[i]);
+                rows.push(MatchRow {
+                    category: Category::Result,
+                    left: Some(l),
+                    right: Some(r),
+                    status: "sequence",
+                    dup: true,
+                    diff_cols: diff_cols(l, r),
+                });
+            }
+            rows.extend(left_indices[paired..].iter().map(|&idx| unmatched(Category::LeftOnly, Some(idx), None, true)));
+            rows.extend(right_indices[paired..].iter().map(|&idx| unmatched(Category::RightOnly, None, Some(idx), true)));
+            continue;
+        }
+
+        let status = match (nl > 1, nr > 1) {
+            (false, false) => "both",
+            (false, true) => "one_to_many",
+            (true, false) => "many_to_one",
+            (true, true) => "many_to_many",
+        };
+        for &l in left_indices {
+            for &r in right_indices {
+                rows.push(MatchRow {
+                    category: Category::Result,
+                    left: Some(l),
+                    right: Some(r),
+                    status,
+                    dup,
+                    diff_cols: diff_cols(l, r),
+                });
+            }
         }
     }
+    Ok(rows)
+}
+
+#[wasm_bindgen]
+pub fn compare_files(input_json: &str) -> String {
+    to_envelope(compare_tables(input_json))
+}
+
+fn compare_tables(input_json: &str) -> Result<CompareOutput, WasmError> {
+    let input: CompareInput = parse_input(input_json, "CompareInput")?;
+    let settings = MatchSettings {
+        left_headers: &input.left_headers,
+        right_headers: &input.right_headers,
+        key: &input.key,
+        options: &input.options,
+        column_mapping: &input.column_mapping,
+    };
+    let matches = match_rows(
+        &settings,
+        &JsonTable { rows: &input.left_rows, cells: &input.left_cells },
+        &JsonTable { rows: &input.right_rows, cells: &input.right_cells },
+    )?;
 
     // Build result headers
     let mut result_headers: Vec<String> = input.left_headers.iter()
@@ -115,173 +852,584 @@ pub fn compare_files(input_json: &str) -> String {
     result_headers.push("diff_cols".to_string());
     result_headers.push("dup_key_flag".to_string());
 
-    let mut result_rows: Vec<Vec<String>> = Vec::new();
-    let mut left_only_rows: Vec<Vec<String>> = Vec::new();
-    let mut right_only_rows: Vec<Vec<String>> = Vec::new();
-    let mut duplicates_rows: Vec<Vec<String>> = Vec::new();
-
-    let mut processed_keys: std::collections::HashSet<String> = std::collections::HashSet::new();
-
-    // Find duplicates first
-    for (normalized_key, left_indices) in &left_map {
-        if left_indices.len() > 1 {
-            for &idx in left_indices {
-                let left_row = &input.left_rows[idx];
-                let mut full_row: Vec<String> = left_row.clone();
-                full_row.resize(result_headers.len() - 3, String::new());
-                full_row.push("left_only".to_string());
-                full_row.push(String::new());
-                full_row.push("1".to_string());
-                duplicates_rows.push(full_row);
-            }
-            processed_keys.insert(normalized_key.clone());
-        }
-    }
-    for (normalized_key, right_indices) in &right_map {
-        if right_indices.len() > 1 && !processed_keys.contains(normalized_key) {
-            for &idx in right_indices {
-                let right_row = &input.right_rows[idx];
-                let mut full_row: Vec<String> = Vec::new();
-                full_row.resize(input.left_headers.len(), String::new());
-                full_row.extend(right_row.clone());
-                full_row.resize(result_headers.len() - 3, String::new());
-                full_row.push("right_only".to_string());
-                full_row.push(String::new());
-                full_row.push("1".to_string());
-                duplicates_rows.push(full_row);
+    // Typed cells laid out like the result rows (left cells, right cells, nulls for status columns)
+    let has_cells = input.left_cells.is_some() || input.right_cells.is_some();
+    let left_width = input.left_headers.len();
+    let right_width = input.right_headers.len();
+    let total_width = result_headers.len();
+
+    // Result rows and cells per category, in the order of `Category`
+    let mut tables: Vec<(Vec<Vec<String>>, Vec<CellRow>)> = (0..4).map(|_| (Vec::new(), Vec::new())).collect();
+    for m in &matches {
+        let mut row: Vec<String> = match m.left {
+            Some(idx) => input.left_rows[idx].clone(),
+            None => Vec::new(),
+        };
+        row.resize(left_width, String::new());
+        if let Some(idx) = m.right {
+            row.extend(input.right_rows[idx].clone());
+        }
+        row.resize(total_width - 3, String::new());
+        row.push(m.status.to_string());
+        row.push(m.diff_cols.iter().map(|&i| input.left_headers[i].as_str()).collect::<Vec<_>>().join(","));
+        row.push(if m.dup { "1" } else { "0" }.to_string());
+
+        let table = &mut tables[m.category as usize];
+        table.0.push(row);
+        if has_cells {
+            let mut cells = match m.left {
+                Some(idx) => cell_row(&input.left_cells, idx, left_width),
+                None => vec![Value::Null; left_width],
+            };
+            if let Some(idx) = m.right {
+                cells.extend(cell_row(&input.right_cells, idx, right_width));
             }
-            processed_keys.insert(normalized_key.clone());
+            cells.resize(total_width, Value::Null);
+            table.1.push(cells);
         }
     }
 
-    // Process matches and singles
-    for (normalized_key, left_indices) in &left_map {
-        if processed_keys.contains(normalized_key) {
-            continue;
+    let mut tables = tables.into_iter().map(|(rows, cells)| TableData {
+        headers: result_headers.clone(),
+        rows,
+        cells: if has_cells { Some(cells) } else { None },
+    });
+    let output = CompareOutput {
+        result: tables.next().unwrap(),
+        left_only: tables.next().unwrap(),
+        right_only: tables.next().unwrap(),
+        duplicates: tables.next().unwrap(),
+        log: vec![
+            ("left_rows".to_string(), input.left_rows.len().to_string()),
+            ("right_rows".to_string(), input.right_rows.len().to_string()),
+            ("key_column".to_string(), input.key.clone()),
+            ("trim".to_string(), input.options.trim.to_string()),
+            ("case_insensitive".to_string(), input.options.case_insensitive.to_string()),
+            ("match_mode".to_string(), input.options.match_mode.as_str().to_string()),
+            ("column_rules".to_string(), input.options.column_rules.len().to_string()),
+            ("column_mapping".to_string(), input.column_mapping.iter()
+                .map(|p| format!("{}={}", p.left, p.right))
+                .collect::<Vec<_>>()
+                .join(",")),
+        ],
+    };
+    Ok(output)
+}
+
+// Marks a missing left/right row in `compare_columnar` output
+const NO_ROW: u32 = u32::MAX;
+
+// Columnar variant of `compare_files`: rows arrive as UTF-8 buffers plus cell offsets
+// (see `ColumnarTable`) and the result is returned as indices into them instead of copied rows.
+// Output (u32): row count, then per row
+// [category (0 result, 1 left_only, 2 right_only, 3 duplicates), left row or NO_ROW,
+//  right row or NO_ROW, index into MATCH_STATUSES, dup flag, diff count, diff left column indices...]
+// Errors are thrown as a `WasmError` JSON string.
+#[wasm_bindgen]
+pub fn compare_columnar(
+    settings_json: &str,
+    left_data: &[u8],
+    left_offsets: &[u32],
+    right_data: &[u8],
+    right_offsets: &[u32],
+) -> Result<Vec<u32>, String> {
+    let input: ColumnarCompareInput = parse_input(settings_json, "ColumnarCompareInput")
+        .map_err(|e| e.to_json())?;
+    let settings = MatchSettings {
+        left_headers: &input.left_headers,
+        right_headers: &input.right_headers,
+        key: &input.key,
+        options: &input.options,
+        column_mapping: &input.column_mapping,
+    };
+    let left = ColumnarTable { data: left_data, offsets: left_offsets, columns: input.left_headers.len() };
+    let right = ColumnarTable { data: right_data, offsets: right_offsets, columns: input.right_headers.len() };
+    left.validate("left", &input.left_headers).map_err(|e| e.to_json())?;
+    right.validate("right", &input.right_headers).map_err(|e| e.to_json())?;
+    let matches = match_rows(&settings, &left, &right).map_err(|e| e.to_json())?;
+
+    let mut out: Vec<u32> = Vec::with_capacity(1 + matches.len() * 6);
+    out.push(matches.len() as u32);
+    for m in &matches {
+        out.push(m.category as u32);
+        out.push(m.left.map(|i| i as u32).unwrap_or(NO_ROW));
+        out.push(m.right.map(|i| i as u32).unwrap_or(NO_ROW));
+        out.push(MATCH_STATUSES.iter().position(|s| *s == m.status).unwrap_or(0) as u32);
+        out.push(m.dup as u32);
+        out.push(m.diff_cols.len() as u32);
+        out.extend(m.diff_cols.iter().map(|&i| i as u32));
+    }
+    Ok(out)
+}
+
+// Label of the n-th input in `compare_multi` headers ("F1", "F2", ...)
+fn input_label(idx: usize) -> String {
+    format!("F{}", idx + 1)
+}
+
+// Compares two or more files against a baseline. Rows sharing a key are paired by their order
+// within the key in every file (like the sequence match mode), so each output row holds at most
+// one row per file. Output headers:
+//   match_key, then per file Fn_present ("1"/"0"), Fn__<header>... and, except for the baseline,
+//   Fn_diff_cols (baseline columns whose values differ), then match_status, dup_key_flag.
+// match_status: "all" (every file), "partial", "baseline_only" or "no_baseline" (missing from the baseline)
+#[wasm_bindgen]
+pub fn compare_multi(input_json: &str) -> String {
+    to_envelope(compare_multi_tables(input_json))
+}
+
+fn compare_multi_tables(input_json: &str) -> Result<MultiCompareOutput, WasmError> {
+    let input: MultiCompareInput = parse_input(input_json, "MultiCompareInput")?;
+    let options = &input.options;
+    let count = input.inputs.len();
+    if count < 2 {
+        return Err(WasmError::new(ErrorCode::InvalidInput, "At least two inputs are required"));
+    }
+    let base_idx = input.baseline;
+    let baseline = input.inputs.get(base_idx)
+        .ok_or_else(|| WasmError::new(ErrorCode::InvalidInput, format!("Baseline {} is out of range", base_idx)))?;
+
+    // Key column of every input (through the column mapping, except for the baseline)
+    let key_indices: Vec<usize> = input.inputs.iter()
+        .enumerate()
+        .map(|(k, source)| {
+            let idx = if k == base_idx {
+                source.headers.iter().position(|h| h == &input.key)
+            } else {
+                right_column_index(&source.headers, &source.column_mapping, &input.key)
+            };
+            idx.ok_or_else(|| WasmError::new(ErrorCode::KeyNotFound, format!("Key column not found in headers of {}", source.name))
+                .side("input")
+                .input(k)
+                .column(&input.key))
+        })
+        .collect::<Result<_, _>>()?;
+    let tables: Vec<JsonTable> = input.inputs.iter()
+        .map(|source| JsonTable { rows: &source.rows, cells: &source.cells })
+        .collect();
+
+    // Row indices per normalized key and input (keys in first-appearance order, baseline first)
+    let mut key_order: Vec<String> = Vec::new();
+    let mut key_rows: std::collections::HashMap<String, Vec<Vec<usize>>> = std::collections::HashMap::new();
+    let scan_order = std::iter::once(base_idx).chain((0..count).filter(|&k| k != base_idx));
+    for k in scan_order {
+        for idx in 0..tables[k].row_count() {
+            let normalized = normalize_key(tables[k].text(idx, key_indices[k]), options);
+            let entry = key_rows.entry(normalized.clone()).or_insert_with(|| {
+                key_order.push(normalized.clone());
+                vec![Vec::new(); count]
+            });
+            entry[k].push(idx);
         }
-        let right_indices = right_map.get(normalized_key);
-
-        if let Some(right_idxs) = right_indices {
-            if right_idxs.len() == 1 && left_indices.len() == 1 {
-                // Match
-                let left_row = &input.left_rows[left_indices[0]];
-                let right_row = &input.right_rows[right_idxs[0]];
-
-                let mut result_row: Vec<String> = left_row.clone();
-                result_row.extend(right_row.clone());
-
-                // Find diff cols
-                let mut diff_cols: Vec<String> = Vec::new();
-                for (i, left_header) in input.left_headers.iter().enumerate() {
-                    if let Some(right_idx) = input.right_headers.iter().position(|h| h == left_header) {
-                        let left_val = left_row.get(i).map(|s| s.as_str()).unwrap_or("");
-                        let right_val = right_row.get(right_idx).map(|s| s.as_str()).unwrap_or("");
-                        if left_val != right_val {
-                            diff_cols.push(left_header.clone());
-                        }
+    }
+
+    // Baseline columns paired with each other input, with their rule (empty for the baseline itself)
+    let common_cols: Vec<Vec<(usize, usize, ColumnRule)>> = input.inputs.iter()
+        .enumerate()
+        .map(|(k, source)| {
+            if k == base_idx {
+                return Vec::new();
+            }
+            baseline.headers.iter()
+                .enumerate()
+                .filter_map(|(i, h)| right_column_index(&source.headers, &source.column_mapping, h).map(|j| (i, j, h)))
+                .map(|(i, j, h)| (i, j, options.column_rules.get(h).cloned().unwrap_or_default()))
+                .filter(|(_, _, rule)| *rule != ColumnRule::Ignore)
+                .collect()
+        })
+        .collect();
+
+    let mut headers = vec!["match_key".to_string()];
+    for (k, source) in input.inputs.iter().enumerate() {
+        let label = input_label(k);
+        headers.push(format!("{}_present", label));
+        headers.extend(source.headers.iter().map(|h| format!("{}__{}", label, h)));
+        if k != base_idx {
+            headers.push(format!("{}_diff_cols", label));
+        }
+    }
+    headers.push("match_status".to_string());
+    headers.push("dup_key_flag".to_string());
+
+    let has_cells = input.inputs.iter().any(|source| source.cells.is_some());
+    let mut rows: Vec<Vec<String>> = Vec::new();
+    let mut cells: Vec<CellRow> = Vec::new();
+    for key in &key_order {
+        let indices = &key_rows[key];
+        let dup = indices.iter().any(|v| v.len() > 1);
+        let depth = indices.iter().map(|v| v.len()).max().unwrap_or(0);
+        for n in 0..depth {
+            let picked: Vec<Option<usize>> = indices.iter().map(|v| v.get(n).copied()).collect();
+            let base_row = picked[base_idx];
+            // Key as written in the baseline row, or in the first input that has this row
+            let key_from = if base_row.is_some() { base_idx } else { (0..count).find(|&k| picked[k].is_some()).unwrap_or(base_idx) };
+            let mut row = vec![picked[key_from].map(|idx| tables[key_from].text(idx, key_indices[key_from]).to_string()).unwrap_or_default()];
+            let mut cell_values: CellRow = vec![Value::Null];
+
+            for (k, source) in input.inputs.iter().enumerate() {
+                let width = source.headers.len();
+                row.push(if picked[k].is_some() { "1" } else { "0" }.to_string());
+                let mut values = picked[k].map(|idx| source.rows[idx].clone()).unwrap_or_default();
+                values.resize(width, String::new());
+                row.extend(values);
+                if has_cells {
+                    cell_values.push(Value::Null);
+                    match picked[k] {
+                        Some(idx) => cell_values.extend(cell_row(&source.cells, idx, width)),
+                        None => cell_values.extend(std::iter::repeat(Value::Null).take(width)),
+                    }
+                }
+                if k != base_idx {
+                    let diff = match (base_row, picked[k]) {
+                        (Some(b), Some(r)) => common_cols[k].iter()
+                            .filter(|(i, j, rule)| {
+                                let base_side = Side { text: tables[base_idx].text(b, *i), typed: tables[base_idx].typed(b, *i) };
+                                let other_side = Side { text: tables[k].text(r, *j), typed: tables[k].typed(r, *j) };
+                                !values_equal(&base_side, &other_side, rule)
+                            })
+                            .map(|(i, _, _)| baseline.headers[*i].as_str())
+                            .collect::<Vec<_>>()
+                            .join(","),
+                        _ => String::new(),
+                    };
+                    row.push(diff);
+                    if has_cells {
+                        cell_values.push(Value::Null);
                     }
                 }
+            }
 
-                result_row.push("both".to_string());
-                result_row.push(diff_cols.join(","));
-                result_row.push("0".to_string());
-                result_rows.push(result_row);
+            let present = picked.iter().filter(|p| p.is_some()).count();
+            let status = if base_row.is_none() {
+                "no_baseline"
+            } else if present == count {
+                "all"
+            } else if present == 1 {
+                "baseline_only"
+            } else {
+                "partial"
+            };
+            row.push(status.to_string());
+            row.push(if dup { "1" } else { "0" }.to_string());
+            rows.push(row);
+            if has_cells {
+                cell_values.resize(headers.len(), Value::Null);
+                cells.push(cell_values);
             }
-        } else {
-            // Left only
-            for &idx in left_indices {
-                let mut row = input.left_rows[idx].clone();
-                row.resize(result_headers.len() - 3, String::new());
-                row.push("left_only".to_string());
-                row.push(String::new());
-                row.push("0".to_string());
-                left_only_rows.push(row);
+        }
+    }
+
+    let log = vec![
+        ("inputs".to_string(), input.inputs.iter()
+            .enumerate()
+            .map(|(k, source)| format!("{}={}", input_label(k), source.name))
+            .collect::<Vec<_>>()
+            .join(",")),
+        ("baseline".to_string(), input_label(base_idx)),
+        ("input_rows".to_string(), input.inputs.iter()
+            .enumerate()
+            .map(|(k, source)| format!("{}={}", input_label(k), source.rows.len()))
+            .collect::<Vec<_>>()
+            .join(",")),
+        ("key_column".to_string(), input.key.clone()),
+        ("trim".to_string(), options.trim.to_string()),
+        ("case_insensitive".to_string(), options.case_insensitive.to_string()),
+        ("column_rules".to_string(), options.column_rules.len().to_string()),
+        ("column_mapping".to_string(), input.inputs.iter()
+            .enumerate()
+            .flat_map(|(k, source)| source.column_mapping.iter().map(move |p| format!("{}:{}={}", input_label(k), p.left, p.right)))
+            .collect::<Vec<_>>()
+            .join(",")),
+    ];
+    Ok(MultiCompareOutput {
+        result: TableData { headers, rows, cells: if has_cells { Some(cells) } else { None } },
+        log,
+    })
+}
+
+// Hyphens and dashes dropped by the hyphen_space normalizer (with whitespace)
+const FUZZY_HYPHENS: &str = "-‐‑‒–—―−";
+
+// Corporate designations dropped anywhere in the key by the corporate_suffix normalizer
+const CORPORATE_DESIGNATIONS: [&str; 17] = [
+    "株式会社", "有限会社", "合同会社", "合資会社", "合名会社",
+    "(株)", "(有)", "(同)", "(資)", "(名)",
+    "（株）", "（有）", "（同）", "（資）", "（名）",
+    "㈱", "㈲",
+];
+
+// Latin-script designations, dropped (case-insensitively) only at the end of the key and only when
+// not preceded by a letter or digit, so "Zinc" keeps its "inc". Longer forms come first.
+const CORPORATE_SUFFIXES: [&str; 12] = [
+    "co., ltd.", "co.,ltd.", "co., ltd", "co.,ltd", "ltd.", "ltd", "inc.", "inc", "corp.", "corp", "llc", "k.k.",
+];
+
+fn strip_corporate_designations(value: &str) -> String {
+    let mut text = value.to_string();
+    for designation in CORPORATE_DESIGNATIONS {
+        text = text.replace(designation, "");
+    }
+    loop {
+        let kept = text.trim_end_matches(|c: char| c == ',' || c.is_whitespace()).len();
+        text.truncate(kept);
+        let lower = text.to_ascii_lowercase();
+        let suffix = CORPORATE_SUFFIXES.iter().find(|s| {
+            lower.ends_with(**s)
+                && !lower[..lower.len() - s.len()].chars().last().is_some_and(|c| c.is_ascii_alphanumeric())
+        });
+        match suffix {
+            Some(s) => {
+                let kept = text.len() - s.len();
+                text.truncate(kept);
             }
+            None => break,
         }
     }
+    text.trim().to_string()
+}
+
+// Key as compared by the fuzzy pass: the compare normalization (trim / case) plus the selected normalizers
+fn fuzzy_key(key: &str, options: &CompareOptions, fuzzy: &FuzzyOptions) -> Vec<char> {
+    let enabled = |n: FuzzyNormalizer| fuzzy.normalizers.contains(&n);
+    let mut text = normalize_key(key, options);
+    if enabled(FuzzyNormalizer::Width) {
+        text = normalize_width(&text);
+    }
+    if enabled(FuzzyNormalizer::Kana) {
+        text = text.chars()
+            .map(|c| match c as u32 {
+                0x3041..=0x3096 => char::from_u32(c as u32 + 0x60).unwrap_or(c),
+                _ => c,
+            })
+            .collect();
+    }
+    if enabled(FuzzyNormalizer::CorporateSuffix) {
+        text = strip_corporate_designations(&text);
+    }
+    if enabled(FuzzyNormalizer::HyphenSpace) {
+        text = text.chars().filter(|&c| !c.is_whitespace() && !FUZZY_HYPHENS.contains(c)).collect();
+    }
+    text.chars().collect()
+}
 
-    for (normalized_key, right_indices) in &right_map {
-        if processed_keys.contains(normalized_key) {
+fn jaro_winkler(a: &[char], b: &[char]) -> f64 {
+    if a.is_empty() || b.is_empty() {
+        return if a.is_empty() && b.is_empty() { 1.0 } else { 0.0 };
+    }
+    // Characters match when equal and no further apart than the window
+    let window = (a.len().max(b.len()) / 2).saturating_sub(1);
+    let mut a_matched = vec![false; a.len()];
+    let mut b_matched = vec![false; b.len()];
+    let mut matches = 0usize;
+    for (i, &c) in a.iter().enumerate() {
+        let end = (i + window + 1).min(b.len());
+        for j in i.saturating_sub(window)..end {
+            if !b_matched[j] && b[j] == c {
+                a_matched[i] = true;
+                b_matched[j] = true;
+                matches += 1;
+                break;
+            }
+        }
+    }
+    if matches == 0 {
+        return 0.0;
+    }
+    // Matched characters in a different order, counted per pair
+    let mut transpositions = 0usize;
+    let mut j = 0;
+    for (i, &c) in a.iter().enumerate() {
+        if !a_matched[i] {
             continue;
         }
-        if !left_map.contains_key(normalized_key) {
-            // Right only
-            for &idx in right_indices {
-                let mut row: Vec<String> = Vec::new();
-                row.resize(input.left_headers.len(), String::new());
-                row.extend(input.right_rows[idx].clone());
-                row.resize(result_headers.len() - 3, String::new());
-                row.push("right_only".to_string());
-                row.push(String::new());
-                row.push("0".to_string());
-                right_only_rows.push(row);
-            }
+        while !b_matched[j] {
+            j += 1;
         }
+        if c != b[j] {
+            transpositions += 1;
+        }
+        j += 1;
     }
+    let m = matches as f64;
+    let jaro = (m / a.len() as f64 + m / b.len() as f64 + (m - transpositions as f64 / 2.0) / m) / 3.0;
+    // Boost for a common prefix of up to 4 characters
+    let prefix = a.iter().zip(b.iter()).take(4).take_while(|(x, y)| x == y).count();
+    jaro + prefix as f64 * 0.1 * (1.0 - jaro)
+}
 
-    let output = CompareOutput {
-        result: TableData {
-            headers: result_headers.clone(),
-            rows: result_rows,
-        },
-        left_only: TableData {
-            headers: result_headers.clone(),
-            rows: left_only_rows,
-        },
-        right_only: TableData {
-            headers: result_headers.clone(),
-            rows: right_only_rows,
-        },
-        duplicates: TableData {
-            headers: result_headers.clone(),
-            rows: duplicates_rows,
-        },
-        log: vec![
-            ("left_rows".to_string(), input.left_rows.len().to_string()),
-            ("right_rows".to_string(), input.right_rows.len().to_string()),
-            ("key_column".to_string(), input.key.clone()),
-            ("trim".to_string(), input.options.trim.to_string()),
-            ("case_insensitive".to_string(), input.options.case_insensitive.to_string()),
-        ],
+fn levenshtein_similarity(a: &[char], b: &[char]) -> f64 {
+    let longest = a.len().max(b.len());
+    if longest == 0 {
+        return 1.0;
+    }
+    let mut prev: Vec<usize> = (0..=b.len()).collect();
+    for (i, &ca) in a.iter().enumerate() {
+        let mut current = vec![i + 1; b.len() + 1];
+        for (j, &cb) in b.iter().enumerate() {
+            let cost = if ca == cb { 0 } else { 1 };
+            current[j + 1] = (prev[j] + cost).min(prev[j + 1] + 1).min(current[j] + 1);
+        }
+        prev = current;
+    }
+    1.0 - prev[b.len()] as f64 / longest as f64
+}
+
+// Pairs left and right rows whose keys did not match exactly but are similar. Every pair scoring
+// at least the threshold is a candidate; the best-scoring candidates are taken first and each row
+// is used at most once. Rows with an empty (normalized) key are skipped. Matches are returned in
+// left row order, with diff_cols computed as in `compare_files`.
+#[wasm_bindgen]
+pub fn fuzzy_match(input_json: &str) -> String {
+    to_envelope(fuzzy_match_tables(input_json))
+}
+
+fn fuzzy_match_tables(input_json: &str) -> Result<FuzzyMatchOutput, WasmError> {
+    let input: FuzzyMatchInput = parse_input(input_json, "FuzzyMatchInput")?;
+    let options = &input.options;
+    let fuzzy = &input.fuzzy;
+    let settings = MatchSettings {
+        left_headers: &input.left_headers,
+        right_headers: &input.right_headers,
+        key: &input.key,
+        options,
+        column_mapping: &input.column_mapping,
     };
+    let left_key_idx = input.left_headers.iter()
+        .position(|h| h == &input.key)
+        .ok_or_else(|| WasmError::new(ErrorCode::KeyNotFound, "Key column not found in left headers")
+            .side("left")
+            .column(&input.key))?;
+    let right_key_idx = right_column_index(&input.right_headers, &input.column_mapping, &input.key)
+        .ok_or_else(|| WasmError::new(ErrorCode::KeyNotFound, "Key column not found in right headers")
+            .side("right")
+            .column(&input.key))?;
+    let left = JsonTable { rows: &input.left_rows, cells: &input.left_cells };
+    let right = JsonTable { rows: &input.right_rows, cells: &input.right_cells };
+
+    let left_keys: Vec<Vec<char>> = (0..left.row_count())
+        .map(|idx| fuzzy_key(left.text(idx, left_key_idx), options, fuzzy))
+        .collect();
+    let right_keys: Vec<Vec<char>> = (0..right.row_count())
+        .map(|idx| fuzzy_key(right.text(idx, right_key_idx), options, fuzzy))
+        .collect();
 
-    serde_json::to_string(&output).expect("Failed to serialize CompareOutput")
+    let mut candidates: Vec<(f64, usize, usize)> = Vec::new();
+    for (l, a) in left_keys.iter().enumerate().filter(|(_, k)| !k.is_empty()) {
+        for (r, b) in right_keys.iter().enumerate().filter(|(_, k)| !k.is_empty()) {
+            let score = match fuzzy.algorithm {
+                FuzzyAlgorithm::JaroWinkler => jaro_winkler(a, b),
+                FuzzyAlgorithm::Levenshtein => levenshtein_similarity(a, b),
+            };
+            if score >= fuzzy.threshold {
+                candidates.push((score, l, r));
+            }
+        }
+    }
+    // Best score first; ties go to the earlier left row, then the earlier right row
+    candidates.sort_by(|x, y| {
+        y.0.partial_cmp(&x.0)
+            .unwrap_or(std::cmp::Ordering::Equal)
+            .then(x.1.cmp(&y.1))
+            .then(x.2.cmp(&y.2))
+    });
+
+    let common_cols = paired_columns(&settings);
+    let mut left_used = vec![false; left_keys.len()];
+    let mut right_used = vec![false; right_keys.len()];
+    let mut matches: Vec<FuzzyMatch> = Vec::new();
+    for (score, l, r) in candidates {
+        if left_used[l] || right_used[r] {
+            continue;
+        }
+        left_used[l] = true;
+        right_used[r] = true;
+        matches.push(FuzzyMatch {
+            left: l,
+            right: r,
+            score,
+            diff_cols: differing_columns(&common_cols, &left, l, &right, r)
+                .into_iter()
+                .map(|i| input.left_headers[i].clone())
+                .collect(),
+        });
+    }
+    matches.sort_by_key(|m| m.left);
+
+    let log = vec![
+        ("fuzzy_algorithm".to_string(), fuzzy.algorithm.as_str().to_string()),
+        ("fuzzy_threshold".to_string(), fuzzy.threshold.to_string()),
+        ("fuzzy_normalizers".to_string(), fuzzy.normalizers.iter().map(|n| n.as_str()).collect::<Vec<_>>().join(",")),
+        ("fuzzy_candidates".to_string(), matches.len().to_string()),
+    ];
+    Ok(FuzzyMatchOutput { matches, log })
+}
+
+// Group row indices by the trimmed key value ("EMPTY" when blank), sorted by key value
+fn group_rows<S: CellSource>(source: &S, key_idx: usize) -> Vec<(String, Vec<usize>)> {
+    let mut groups: std::collections::HashMap<String, Vec<usize>> = std::collections::HashMap::new();
+    for idx in 0..source.row_count() {
+        let key_value = source.text(idx, key_idx).trim();
+        let key_value = if key_value.is_empty() { "EMPTY" } else { key_value };
+        groups.entry(key_value.to_string()).or_insert_with(Vec::new).push(idx);
+    }
+    let mut groups: Vec<(String, Vec<usize>)> = groups.into_iter().collect();
+    groups.sort_by(|a, b| a.0.cmp(&b.0));
+    groups
 }
 
 #[wasm_bindgen]
 pub fn split_file(input_json: &str) -> String {
-    let input: SplitInput = serde_json::from_str(input_json)
-        .expect("Failed to parse SplitInput");
+    to_envelope(split_table(input_json))
+}
+
+fn split_table(input_json: &str) -> Result<SplitOutput, WasmError> {
+    let input: SplitInput = parse_input(input_json, "SplitInput")?;
     
     let key_idx = input.headers.iter()
         .position(|h| h == &input.key)
-        .expect("Key column not found in headers");
+        .ok_or_else(|| WasmError::new(ErrorCode::KeyNotFound, "Key column not found in headers").column(&input.key))?;
 
-    let mut groups: std::collections::HashMap<String, Vec<Vec<String>>> = std::collections::HashMap::new();
-
-    for row in input.rows {
-        let key_value = row.get(key_idx)
-            .map(|s| s.trim())
-            .filter(|s| !s.is_empty())
-            .unwrap_or("EMPTY")
-            .to_string();
-        groups.entry(key_value).or_insert_with(Vec::new).push(row);
-    }
+    let has_cells = input.cells.is_some();
+    let width = input.headers.len();
+    let groups = group_rows(&JsonTable { rows: &input.rows, cells: &input.cells }, key_idx);
 
-    let mut parts: Vec<SplitPart> = groups.into_iter()
-        .map(|(key_value, rows)| {
+    let parts: Vec<SplitPart> = groups.into_iter()
+        .map(|(key_value, indices)| {
             SplitPart {
-                key_value: key_value.clone(),
+                key_value,
                 table: TableData {
                     headers: input.headers.clone(),
-                    rows,
+                    rows: indices.iter().map(|&idx| input.rows[idx].clone()).collect(),
+                    cells: if has_cells {
+                        Some(indices.iter().map(|&idx| cell_row(&input.cells, idx, width)).collect())
+                    } else {
+                        None
+                    },
                 },
             }
         })
         .collect();
 
-    parts.sort_by(|a, b| a.key_value.cmp(&b.key_value));
+    Ok(SplitOutput { parts })
+}
 
-    let output = SplitOutput { parts };
-    serde_json::to_string(&output).expect("Failed to serialize SplitOutput")
+// Columnar variant of `split_file` (input layout as in `compare_columnar`).
+// Output (u32): group count, then per group (sorted by key value) [row count, row indices...]
+// Errors are thrown as a `WasmError` JSON string.
+#[wasm_bindgen]
+pub fn split_columnar(columns: u32, key_column: u32, data: &[u8], offsets: &[u32]) -> Result<Vec<u32>, String> {
+    let table = ColumnarTable { data, offsets, columns: columns as usize };
+    if key_column >= columns {
+        return Err(WasmError::new(ErrorCode::KeyNotFound, format!("Key column {} is out of range", key_column)).to_json());
+    }
+    table.validate("input", &[]).map_err(|e| e.to_json())?;
+    let groups = group_rows(&table, key_column as usize);
+
+    let mut out: Vec<u32> = Vec::with_capacity(1 + groups.len() + table.row_count());
+    out.push(groups.len() as u32);
+    for (_, indices) in &groups {
+        out.push(indices.len() as u32);
+        out.extend(indices.iter().map(|&idx| idx as u32));
+    }
+    Ok(out)
 }
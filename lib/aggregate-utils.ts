@@ -0,0 +1,161 @@
+import type { CellValue, TableData } from './excel-utils';
+
+// 集計方法
+export type AggregateFunction = 'sum' | 'count' | 'min' | 'max' | 'first';
+
+export const aggregateFunctions: { id: AggregateFunction; name: string }[] = [
+  { id: 'sum', name: '合計' },
+  { id: 'count', name: '件数' },
+  { id: 'min', name: '最小' },
+  { id: 'max', name: '最大' },
+  { id: 'first', name: '先頭の値' },
+];
+
+// 片側の集計設定（columnsに無い列は既定の集計方法）
+export interface AggregateOptions {
+  enabled: boolean;
+  columns: Record<string, AggregateFunction>;
+}
+
+export const defaultAggregateOptions: AggregateOptions = {
+  enabled: false,
+  columns: {},
+};
+
+// 集計前の行数を保持する列
+export const ROW_COUNT_COLUMN = '集計行数';
+
+// 「1,234」「¥1,234」「(1,234)」なども数値として扱う
+export function parseAmount(value: string): number | null {
+  let text = value.trim().replace(/[¥$€,\s]/g, '');
+  if (text === '') return null;
+  let negative = false;
+  if (/^\(.*\)$/.test(text) || /^▲/.test(text)) {
+    negative = true;
+    text = text.replace(/^\(|\)$/g, '').replace(/^▲/, '');
+  }
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(text)) return null;
+  const num = Number(text);
+  return negative ? -num : num;
+}
+
+const cellNumber = (value: string, cell: CellValue | null | undefined): number | null =>
+  cell?.kind === 'number' ? (cell.value as number) : parseAmount(value);
+
+// 浮動小数点の誤差（0.1 + 0.2 など）を表示前に丸める
+const formatNumber = (num: number): string => parseFloat(num.toPrecision(15)).toString();
+
+// 空でない値がすべて数値の列は合計、それ以外は先頭の値
+export function defaultAggregateFunction(data: TableData, header: string): AggregateFunction {
+  const idx = data.headers.indexOf(header);
+  if (idx === -1) return 'first';
+  let hasValue = false;
+  for (let r = 0; r < data.rows.length; r++) {
+    const value = data.rows[r][idx] || '';
+    if (value.trim() === '') continue;
+    const cell = data.cells?.[r]?.[idx];
+    if (cell && cell.kind !== 'number') return 'first';
+    if (cellNumber(value, cell) === null) return 'first';
+    hasValue = true;
+  }
+  return hasValue ? 'sum' : 'first';
+}
+
+export function getAggregateFunction(data: TableData, options: AggregateOptions, header: string): AggregateFunction {
+  return options.columns[header] ?? defaultAggregateFunction(data, header);
+}
+
+// 列の値を集計（min/maxは数値なら数値順、それ以外は文字列順。日付はISO形式なので文字列順で正しく並ぶ）
+function aggregateColumn(
+  values: string[],
+  cells: (CellValue | null)[],
+  fn: AggregateFunction
+): { text: string; typed: CellValue | null } {
+  if (fn === 'first') {
+    return { text: values[0] ?? '', typed: cells[0] ?? null };
+  }
+  if (fn === 'count') {
+    const count = values.filter(value => value.trim() !== '').length;
+    return { text: count.toString(), typed: { kind: 'number', value: count } };
+  }
+
+  const numFmt = cells.find(cell => cell?.num_fmt)?.num_fmt;
+  if (fn === 'sum') {
+    let sum = 0;
+    values.forEach((value, i) => {
+      sum += cellNumber(value, cells[i]) ?? 0;
+    });
+    const text = formatNumber(sum);
+    return { text, typed: { kind: 'number', value: Number(text), ...(numFmt && { num_fmt: numFmt }) } };
+  }
+
+  // min / max
+  let best = -1;
+  let bestNum: number | null = null;
+  values.forEach((value, i) => {
+    if (value.trim() === '') return;
+    if (best === -1) {
+      best = i;
+      bestNum = cellNumber(value, cells[i]);
+      return;
+    }
+    const num = cellNumber(value, cells[i]);
+    const better = num !== null && bestNum !== null
+      ? (fn === 'min' ? num < bestNum : num > bestNum)
+      : (fn === 'min' ? value < values[best] : value > values[best]);
+    if (better) {
+      best = i;
+      bestNum = num;
+    }
+  });
+  if (best === -1) return { text: '', typed: null };
+  return { text: values[best], typed: cells[best] ?? null };
+}
+
+// キー列でグループ化して集計（キーの正規化は keyOf に任せる。グループは最初に出現した順）
+export function aggregateTable(
+  data: TableData,
+  keyColumns: string[],
+  options: AggregateOptions,
+  keyOf: (row: string[], keyIndices: number[]) => string
+): TableData {
+  const keyIndices = keyColumns.map(key => data.headers.indexOf(key)).filter(idx => idx !== -1);
+  if (keyIndices.length === 0) return data;
+
+  const groups = new Map<string, number[]>();
+  data.rows.forEach((row, r) => {
+    const key = keyOf(row, keyIndices);
+    const group = groups.get(key);
+    if (group) {
+      group.push(r);
+    } else {
+      groups.set(key, [r]);
+    }
+  });
+
+  // キー列は先頭の値、それ以外は列ごとの集計方法
+  const functions = data.headers.map(header =>
+    keyColumns.includes(header) ? 'first' : getAggregateFunction(data, options, header)
+  );
+  const headers = [...data.headers, ROW_COUNT_COLUMN];
+  const rows: string[][] = [];
+  const cells: (CellValue | null)[][] = [];
+
+  groups.forEach(indices => {
+    const row: string[] = [];
+    const cellRow: (CellValue | null)[] = [];
+    functions.forEach((fn, c) => {
+      const values = indices.map(r => data.rows[r][c] || '');
+      const columnCells = indices.map(r => data.cells?.[r]?.[c] ?? null);
+      const { text, typed } = aggregateColumn(values, columnCells, fn);
+      row.push(text);
+      cellRow.push(typed);
+    });
+    row.push(indices.length.toString());
+    cellRow.push({ kind: 'number', value: indices.length });
+    rows.push(row);
+    cells.push(cellRow);
+  });
+
+  return { headers, rows, cells };
+}
@@ -0,0 +1,252 @@
+// 比較結果のレビュー（行ごとの対応状況・コメント・担当者）の保存・出力と、前回の出力からの引き継ぎ
+//
+// レビューは比較した左右のファイル・シート・キー列ごと（job）に IndexedDB に保存し、
+// 行はキーの値と match_status（同じ組が複数ある場合は出現順）で識別する
+
+import { getSheetTable, type ExcelBook, type TableData } from './excel-utils';
+import type { CompareReportSettings } from './excel-export';
+import type { RowHighlight } from './compare-result';
+import { withStore } from './local-db';
+
+export type ReviewStatus = 'open' | 'explained' | 'adjusted' | 'ignored';
+
+export const reviewStatuses: { id: ReviewStatus; name: string; description: string }[] = [
+  { id: 'open', name: '未対応', description: 'まだ説明していない行' },
+  { id: 'explained', name: '説明済み', description: '差異の理由を説明した行' },
+  { id: 'adjusted', name: '修正済み', description: '元データを修正・調整した行' },
+  { id: 'ignored', name: '対象外', description: '確認の対象としない行' },
+];
+
+export interface RowAnnotation {
+  status: ReviewStatus;
+  comment: string;
+  reviewer: string;
+  updatedAt: string; // ISO形式（前回の出力から引き継いだ行は前回の reviewed_at。読み取れない場合は空）
+  carriedOver?: boolean;    // 前回の出力から引き継いだレビュー
+  changedColumns?: string[]; // 引き継いだ後、前回から値が変わった列（対応状況を変更すると確認済みとして消す）
+}
+
+// 1件の比較（job）のレビュー（rows は行の識別子 → レビュー）
+export interface JobAnnotations {
+  jobId: string;
+  rows: Record<string, RowAnnotation>;
+  updatedAt: string;
+}
+
+// 出力に追加する列
+export const ANNOTATION_HEADERS = ['review_status', 'review_comment', 'reviewer', 'reviewed_at', 'review_changed_columns'];
+
+export const emptyAnnotation: RowAnnotation = { status: 'open', comment: '', reviewer: '', updatedAt: '' };
+
+// 比較したファイル・シート・キー列から job の識別子を作る
+export function getAnnotationJobId(settings: CompareReportSettings): string {
+  return [
+    settings.leftFileName,
+    settings.leftSheet,
+    settings.rightFileName,
+    settings.rightSheet,
+    settings.keys.map(k => `${k.left}=${k.right}`).join(','),
+  ].join('\u001f');
+}
+
+// 統合した表の行ごとの識別子（keys は統合後の結合キー列）
+export function getAnnotationRowKeys(data: TableData, keys: string[]): string[] {
+  const keyIndices = keys.map(key => data.headers.indexOf(key));
+  const statusIdx = data.headers.indexOf('match_status');
+  const seen = new Map<string, number>();
+  return data.rows.map(row => {
+    const base = [row[statusIdx] || '', ...keyIndices.map(idx => row[idx] || '')].join('\u001f');
+    const occurrence = seen.get(base) ?? 0;
+    seen.set(base, occurrence + 1);
+    return `${base}\u001f${occurrence}`;
+  });
+}
+
+// 説明が必要な行（一致しなかった行・重複キーの行・値が異なる行）
+export function needsReview(highlight: RowHighlight): boolean {
+  return highlight.category !== 'both' || highlight.diffPairs.length > 0;
+}
+
+// レビューの集計（unresolved は説明が必要で未対応の行数、changed は前回から値が変わり未確認の行数）
+export interface AnnotationSummary {
+  required: number;
+  unresolved: number;
+  changed: number;
+  statuses: Record<ReviewStatus, number>;
+}
+
+export function summarizeAnnotations(
+  highlights: RowHighlight[],
+  rowKeys: string[],
+  rows: Record<string, RowAnnotation>
+): AnnotationSummary {
+  const statuses: Record<ReviewStatus, number> = { open: 0, explained: 0, adjusted: 0, ignored: 0 };
+  let required = 0;
+  let unresolved = 0;
+  let changed = 0;
+  highlights.forEach(h => {
+    const annotation = rows[rowKeys[h.rowIdx]];
+    const status = annotation?.status ?? 'open';
+    statuses[status]++;
+    if (annotation?.changedColumns?.length) changed++;
+    if (needsReview(h)) {
+      required++;
+      if (status === 'open') unresolved++;
+    }
+  });
+  return { required, unresolved, changed, statuses };
+}
+
+// レビューの列を末尾に追加する（rowIdxs は data の行ごとの統合した表の行番号）
+export function appendAnnotationColumns(
+  data: TableData,
+  rowIdxs: number[],
+  rowKeys: string[],
+  rows: Record<string, RowAnnotation>
+): TableData {
+  const values = rowIdxs.map(rowIdx => {
+    const annotation = rows[rowKeys[rowIdx]] ?? emptyAnnotation;
+    return [
+      reviewStatuses.find(s => s.id === annotation.status)?.name ?? annotation.status,
+      annotation.comment,
+      annotation.reviewer,
+      annotation.updatedAt ? new Date(annotation.updatedAt).toLocaleString('ja-JP') : '',
+      (annotation.changedColumns ?? []).join(','),
+    ];
+  });
+  return {
+    headers: [...data.headers, ...ANNOTATION_HEADERS],
+    rows: data.rows.map((row, i) => [...row, ...values[i]]),
+    ...(data.cells && { cells: data.cells.map(row => [...row, ...ANNOTATION_HEADERS.map(() => null)]) }),
+  };
+}
+
+export async function loadAnnotations(jobId: string): Promise<JobAnnotations> {
+  const saved = await withStore<JobAnnotations | undefined>('annotations', 'readonly', store => store.get(jobId));
+  return saved ?? { jobId, rows: {}, updatedAt: new Date().toISOString() };
+}
+
+export async function saveAnnotations(annotations: JobAnnotations): Promise<void> {
+  await withStore('annotations', 'readwrite', store => store.put(annotations));
+}
+
+// 前回出力したファイルのうち、レビューの列があるシート（比較結果は1シート、レポートは分類ごとのシート）
+export function readAnnotatedSheets(book: ExcelBook): TableData[] {
+  const tables = book.sheets
+    .filter(sheet => sheet.rowCount > 1)
+    .flatMap(sheet => {
+      try {
+        return [getSheetTable(book, sheet.name)];
+      } catch {
+        return [];
+      }
+    })
+    .filter(table => table.headers.includes('review_status'));
+  if (tables.length === 0) {
+    throw new Error(`レビューの列（review_status）があるシートが見つかりません: ${book.fileName}`);
+  }
+  return tables;
+}
+
+// 引き継ぎの結果（carried は引き継いだ行数、changed はそのうち値が変わった行数、unmatched は今回の結果に無い行数）
+export interface CarryForwardResult {
+  rows: Record<string, RowAnnotation>;
+  carried: number;
+  changed: number;
+  unmatched: number;
+}
+
+// 値の比較用（数値は桁区切りを除いて数値として比較する。金額の列は空欄を0として出力するため、空欄は0と同じとする）
+function comparableValue(value: string): string {
+  const text = (value || '').trim();
+  const num = Number(text.replace(/,/g, ''));
+  return !isNaN(num) ? String(num) : text;
+}
+
+// 出力した reviewed_at（toLocaleString('ja-JP') の「2024/4/1 9:05:00」形式、またはISO形式）をISO形式にする。読み取れない場合は空
+function parseReviewedAt(value: string): string {
+  const text = (value || '').trim();
+  const match = text.match(/^(\d{4})\/(\d{1,2})\/(\d{1,2})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  const date = match
+    ? new Date(+match[1], +match[2] - 1, +match[3], +match[4], +match[5], +(match[6] ?? 0))
+    : /^\d{4}-\d{2}-\d{2}T/.test(text) ? new Date(text) : null;
+  return date && !isNaN(date.getTime()) ? date.toISOString() : '';
+}
+
+// 前回の出力のレビューを、結合キーの値（前回の出力に match_status があれば一致状況も）が同じ今回の行に引き継ぐ。
+// 今回すでにレビューがある行は変更しない。レビューの日時は前回の reviewed_at をそのまま使う。
+// keys は統合後の結合キー列、rowKeys は data の行ごとの識別子
+export function carryForwardAnnotations(
+  previous: TableData[],
+  data: TableData,
+  keys: string[],
+  rowKeys: string[],
+  current: Record<string, RowAnnotation>
+): CarryForwardResult {
+  const usable = previous.filter(table => keys.every(key => table.headers.includes(key)));
+  if (usable.length === 0) {
+    throw new Error(`前回のファイルに結合キー列がありません: ${keys.join(', ')}`);
+  }
+
+  // 前回の行（識別子は結合キーの値と match_status、同じ組は出現順）
+  const previousRows = new Map<string, { table: TableData; row: string[]; annotation: RowAnnotation }>();
+  const seen = new Map<string, number>();
+  usable.forEach(table => {
+    const col = (header: string) => table.headers.indexOf(header);
+    const statusIdx = col('match_status');
+    table.rows.forEach(row => {
+      const keyValues = keys.map(key => row[col(key)] || '');
+      if (keyValues.every(value => value === '')) return; // 合計行など
+      const base = [statusIdx !== -1 ? row[statusIdx] || '' : '*', ...keyValues].join('\u001f');
+      const occurrence = seen.get(base) ?? 0;
+      seen.set(base, occurrence + 1);
+
+      const statusText = row[col('review_status')] || '';
+      const status = reviewStatuses.find(s => s.name === statusText || s.id === statusText)?.id ?? 'open';
+      const comment = row[col('review_comment')] || '';
+      if (status === 'open' && comment === '') return;
+      previousRows.set(`${base}\u001f${occurrence}`, {
+        table,
+        row,
+        annotation: {
+          status,
+          comment,
+          reviewer: row[col('reviewer')] || '',
+          updatedAt: parseReviewedAt(row[col('reviewed_at')]),
+          carriedOver: true,
+        },
+      });
+    });
+  });
+
+  const rows = { ...current };
+  const matched = new Set<string>();
+  let carried = 0;
+  let changed = 0;
+  const statusIdx = data.headers.indexOf('match_status');
+  const keyOnly = new Map<string, number>();
+  data.rows.forEach((row, rowIdx) => {
+    // 前回の出力に match_status が無い場合はキーの値だけで照合する
+    const keyValues = keys.map(key => row[data.headers.indexOf(key)] || '');
+    const base = ['*', ...keyValues].join('\u001f');
+    const occurrence = keyOnly.get(base) ?? 0;
+    keyOnly.set(base, occurrence + 1);
+    const withStatus = [row[statusIdx] || '', ...keyValues, rowKeys[rowIdx].split('\u001f').pop()].join('\u001f');
+    const id = previousRows.has(withStatus) ? withStatus : `${base}\u001f${occurrence}`;
+    const prev = previousRows.get(id);
+    if (!prev || matched.has(id) || rows[rowKeys[rowIdx]]) return;
+    matched.add(id);
+
+    // 両方にある列（レビューの列を除く）のうち値が変わった列
+    const changedColumns = prev.table.headers.filter((header, c) => {
+      const idx = data.headers.indexOf(header);
+      return header !== '' && idx !== -1 && !ANNOTATION_HEADERS.includes(header)
+        && comparableValue(prev.row[c]) !== comparableValue(row[idx]);
+    });
+    rows[rowKeys[rowIdx]] = { ...prev.annotation, ...(changedColumns.length > 0 && { changedColumns }) };
+    carried++;
+    if (changedColumns.length > 0) changed++;
+  });
+
+  return { rows, carried, changed, unmatched: previousRows.size - matched.size };
+}
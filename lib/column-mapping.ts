@@ -0,0 +1,127 @@
+import type { TableData } from './excel-utils';
+import type { ColumnPair } from './wasm-types';
+
+// 対応付けの候補（score は列名の類似度と値の重なりから算出、0〜1）
+export interface ColumnSuggestion extends ColumnPair {
+  score: number;
+  nameScore: number;
+  valueScore: number;
+}
+
+// 値の重なりを調べる先頭行数
+const VALUE_SAMPLE_ROWS = 1000;
+
+// 候補として採用する最低スコア
+const MIN_SUGGESTION_SCORE = 0.4;
+
+// 列名でよく使われる言い換え（比較前に共通の表記へ寄せる）
+const NAME_SYNONYMS: [RegExp, string][] = [
+  [/コード|code|cd/g, 'cd'],
+  [/番号|no\.?|number|num/g, 'no'],
+  [/名称|氏名|name/g, '名'],
+  [/金額|amount|amt/g, '額'],
+  [/日付|年月日|date/g, '日'],
+  [/得意先|取引先|顧客|customer|client/g, '取引先'],
+];
+
+function normalizeName(name: string): string {
+  let text = name.normalize('NFKC').toLowerCase().replace(/[\s_\-・()（）［］[\]]/g, '');
+  for (const [pattern, replacement] of NAME_SYNONYMS) {
+    text = text.replace(pattern, replacement);
+  }
+  return text;
+}
+
+function bigrams(text: string): string[] {
+  const chars = Array.from(text);
+  if (chars.length < 2) return chars;
+  return chars.slice(0, -1).map((c, i) => c + chars[i + 1]);
+}
+
+// 列名の類似度（正規化後のバイグラムのDice係数）
+export function nameSimilarity(a: string, b: string): number {
+  const na = normalizeName(a);
+  const nb = normalizeName(b);
+  if (na === '' || nb === '') return 0;
+  if (na === nb) return 1;
+  // 「額」と「請求額」のように一方が他方を含む場合
+  if (na.includes(nb) || nb.includes(na)) return 0.8;
+  const ba = bigrams(na);
+  const counts = new Map<string, number>();
+  for (const gram of bigrams(nb)) {
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  let shared = 0;
+  for (const gram of ba) {
+    const count = counts.get(gram) || 0;
+    if (count > 0) {
+      shared++;
+      counts.set(gram, count - 1);
+    }
+  }
+  return (2 * shared) / (ba.length + bigrams(nb).length);
+}
+
+function columnValues(data: TableData, header: string): Set<string> {
+  const idx = data.headers.indexOf(header);
+  const values = new Set<string>();
+  if (idx === -1) return values;
+  for (const row of data.rows.slice(0, VALUE_SAMPLE_ROWS)) {
+    const value = (row[idx] || '').trim().normalize('NFKC').toLowerCase();
+    if (value !== '') values.add(value);
+  }
+  return values;
+}
+
+// 値の重なり（少ない方の値の種類のうち、もう一方にも現れる割合）
+function valueOverlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let shared = 0;
+  small.forEach(value => {
+    if (large.has(value)) shared++;
+  });
+  return shared / small.size;
+}
+
+// 右側の対応列（明示的な対応付け、なければ同名の列。他の左列に対応付け済みの右列は除く）
+export function resolveRightColumn(mapping: ColumnPair[], leftHeader: string, rightHeaders: string[]): string | undefined {
+  const pair = mapping.find(p => p.left === leftHeader);
+  if (pair) {
+    return rightHeaders.includes(pair.right) ? pair.right : undefined;
+  }
+  if (mapping.some(p => p.right === leftHeader)) return undefined;
+  return rightHeaders.includes(leftHeader) ? leftHeader : undefined;
+}
+
+// 同名の列がない左右の列について、対応付けの候補を挙げる（スコアの高い組から1対1で割り当て）
+export function suggestColumnMapping(left: TableData, right: TableData, mapping: ColumnPair[] = []): ColumnSuggestion[] {
+  const leftColumns = left.headers.filter(h => resolveRightColumn(mapping, h, right.headers) === undefined && h !== '');
+  const usedRight = new Set(left.headers.map(h => resolveRightColumn(mapping, h, right.headers)));
+  const rightColumns = right.headers.filter(h => !usedRight.has(h) && h !== '');
+
+  const rightValues = new Map(rightColumns.map(h => [h, columnValues(right, h)]));
+  const candidates: ColumnSuggestion[] = [];
+  for (const leftHeader of leftColumns) {
+    const leftValues = columnValues(left, leftHeader);
+    for (const rightHeader of rightColumns) {
+      const nameScore = nameSimilarity(leftHeader, rightHeader);
+      const valueScore = valueOverlap(leftValues, rightValues.get(rightHeader) as Set<string>);
+      // 値がない列は列名だけで判定
+      const score = leftValues.size === 0 ? nameScore : (nameScore + valueScore) / 2;
+      if (score >= MIN_SUGGESTION_SCORE) {
+        candidates.push({ left: leftHeader, right: rightHeader, score, nameScore, valueScore });
+      }
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+  const takenLeft = new Set<string>();
+  const takenRight = new Set<string>();
+  return candidates.filter(candidate => {
+    if (takenLeft.has(candidate.left) || takenRight.has(candidate.right)) return false;
+    takenLeft.add(candidate.left);
+    takenRight.add(candidate.right);
+    return true;
+  });
+}
@@ -0,0 +1,264 @@
+import type { TableData } from './excel-utils';
+import { aggregateTable, type AggregateOptions } from './aggregate-utils';
+import { combineKeys, removeColumn, sortByKeyColumns } from './table-utils';
+import { typescriptEngine, type Engine } from './ts-engine';
+import {
+  compareMultiTables,
+  compareTables,
+  fuzzyMatchTables,
+  splitTable,
+  type ColumnPair,
+  type CompareInput,
+  type CompareOptions,
+  type CompareOutput,
+  type FuzzyMatch,
+  type FuzzyOptions,
+  type MultiCompareInput,
+  type MultiCompareOutput,
+  type SplitInput,
+  type SplitOutput,
+  type TransferStep,
+} from './wasm-types';
+import type { WorkerRequest, WorkerResults, WorkerTaskType } from './worker-protocol';
+
+// 処理の段階（進捗表示に使用）
+export type TaskPhase = 'normalize' | 'parse' | 'match' | 'build';
+
+export const taskPhases: { id: TaskPhase; name: string }[] = [
+  { id: 'normalize', name: 'キーの正規化・ソート' },
+  { id: 'parse', name: 'エンジンへの受け渡し' },
+  { id: 'match', name: '突合・分割' },
+  { id: 'build', name: '結果の作成' },
+];
+
+// phase の進捗（0〜1）を通知
+export type ProgressCallback = (phase: TaskPhase, ratio: number) => void;
+
+// 進捗を通知する行数の間隔
+const PROGRESS_INTERVAL_ROWS = 10000;
+
+export interface CompareRequest {
+  left: TableData;
+  right: TableData;
+  leftKeys: string[];
+  rightKeys: string[]; // 列の対応付けを解決した右側のキー列
+  options: CompareOptions;
+  columnMapping: ColumnPair[];
+  sortByKeys: boolean;
+  leftAggregate: AggregateOptions;
+  rightAggregate: AggregateOptions;
+  fuzzy: FuzzyOptions;
+}
+
+export interface CompareResponse {
+  output: CompareOutput;
+  fuzzyMatches: FuzzyMatch[]; // あいまい一致の候補（left / right は left_only / right_only の行番号）
+  leftRowCount: number; // 比較した行数（集計した場合は集計後）
+  rightRowCount: number;
+}
+
+// 複数ファイルの比較の1ファイル
+export interface MultiCompareFile {
+  name: string;
+  data: TableData;
+  keys: string[];              // このファイルのキー列（列の対応付けを解決したもの）
+  columnMapping: ColumnPair[]; // 基準ファイルの列 → このファイルの列
+}
+
+export interface MultiCompareRequest {
+  files: MultiCompareFile[];
+  baseline: number; // 基準ファイルの番号
+  options: CompareOptions;
+  sortByKeys: boolean;
+}
+
+export interface MultiCompareResponse {
+  output: MultiCompareOutput;
+  rowCounts: number[];
+}
+
+export interface SplitRequest {
+  data: TableData;
+  keys: string[];
+}
+
+// 受け渡しの段階を進捗の段階に対応付け
+const transferPhase = (onProgress: ProgressCallback) => (step: TransferStep) =>
+  onProgress(step === 'encode' ? 'parse' : 'match', 1);
+
+// 結合キー列を末尾に追加
+function appendCombinedKey(
+  data: TableData,
+  keyColumns: string[],
+  keyName: string,
+  options: CompareOptions,
+  onProgress: (ratio: number) => void
+): { headers: string[]; rows: string[][] } {
+  const keyIndices = keyColumns.map(key => data.headers.indexOf(key));
+  const rows = data.rows.map((row, i) => {
+    if (i % PROGRESS_INTERVAL_ROWS === 0) onProgress(i / data.rows.length);
+    return [...row, combineKeys(row, keyIndices, options)];
+  });
+  onProgress(1);
+  return { headers: [...data.headers, keyName], rows };
+}
+
+// 集計・ソート・キーの結合を行い、エンジン（WASMまたはTypeScript版）で比較する
+export function runCompare(engine: Engine, request: CompareRequest, onProgress: ProgressCallback): CompareResponse {
+  const { options } = request;
+
+  // 集計する場合、キー列でグループ化した表を比較する
+  const keyOf = (row: string[], keyIndices: number[]) => combineKeys(row, keyIndices, options);
+  let left = request.leftAggregate.enabled ? aggregateTable(request.left, request.leftKeys, request.leftAggregate, keyOf) : request.left;
+  let right = request.rightAggregate.enabled ? aggregateTable(request.right, request.rightKeys, request.rightAggregate, keyOf) : request.right;
+
+  // キー列でソートする場合、事前にソート
+  if (request.sortByKeys) {
+    left = sortByKeyColumns(left, request.leftKeys, options);
+    right = sortByKeyColumns(right, request.rightKeys, options);
+  }
+  onProgress('normalize', 0.5);
+
+  // 複数キーの場合、一時的に結合キー列を作成
+  const combinedKeyName = request.leftKeys.join('|');
+  const leftWithKey = appendCombinedKey(left, request.leftKeys, combinedKeyName, options, ratio => onProgress('normalize', 0.5 + ratio / 4));
+  const rightWithKey = appendCombinedKey(right, request.rightKeys, combinedKeyName, options, ratio => onProgress('normalize', 0.75 + ratio / 4));
+  onProgress('normalize', 1);
+
+  const input: CompareInput = {
+    left_headers: leftWithKey.headers,
+    left_rows: leftWithKey.rows,
+    right_headers: rightWithKey.headers,
+    right_rows: rightWithKey.rows,
+    left_cells: left.cells,
+    right_cells: right.cells,
+    key: combinedKeyName,
+    options,
+    column_mapping: request.columnMapping,
+  };
+  const output = compareTables(engine.module, input, transferPhase(onProgress));
+  output.log.push(['engine', engine.type]);
+  const fuzzyMatches = request.fuzzy.enabled ? findFuzzyMatches(engine, output, input, request) : [];
+
+  // 結合キー列を結果から削除
+  const removeCombinedKey = (data: TableData) => removeColumn(data, data.headers.indexOf(combinedKeyName));
+  output.result = removeCombinedKey(output.result);
+  output.left_only = removeCombinedKey(output.left_only);
+  output.right_only = removeCombinedKey(output.right_only);
+  output.duplicates = removeCombinedKey(output.duplicates);
+  onProgress('build', 1);
+
+  return { output, fuzzyMatches, leftRowCount: left.rows.length, rightRowCount: right.rows.length };
+}
+
+// 左のみ・右のみの行（重複キーを除く）をあいまい一致で組にする
+// （fuzzy_match の無い古いWASMのビルドではTypeScript版で処理する）
+function findFuzzyMatches(engine: Engine, output: CompareOutput, input: CompareInput, request: CompareRequest): FuzzyMatch[] {
+  const leftWidth = input.left_headers.length;
+  const rightWidth = input.right_headers.length;
+  const dupIdx = output.result.headers.indexOf('dup_key_flag');
+  const candidateRows = (table: TableData) => table.rows.flatMap((row, idx) => (row[dupIdx] === '1' ? [] : [idx]));
+  const leftRows = candidateRows(output.left_only);
+  const rightRows = candidateRows(output.right_only);
+  if (leftRows.length === 0 || rightRows.length === 0) return [];
+
+  const { left_only: leftOnly, right_only: rightOnly } = output;
+  let used = engine;
+  if (!engine.module.fuzzy_match) {
+    console.warn('WASMモジュールにあいまい一致が無いため、TypeScript版で処理します');
+    used = { type: 'typescript', module: typescriptEngine };
+  }
+  const { matches, log } = fuzzyMatchTables(used.module, {
+    ...input,
+    left_rows: leftRows.map(idx => leftOnly.rows[idx].slice(0, leftWidth)),
+    right_rows: rightRows.map(idx => rightOnly.rows[idx].slice(leftWidth, leftWidth + rightWidth)),
+    left_cells: leftOnly.cells && leftRows.map(idx => leftOnly.cells?.[idx]?.slice(0, leftWidth) ?? []),
+    right_cells: rightOnly.cells && rightRows.map(idx => rightOnly.cells?.[idx]?.slice(leftWidth, leftWidth + rightWidth) ?? []),
+    fuzzy: request.fuzzy,
+  });
+  output.log.push(...log, ['fuzzy_engine', used.type]);
+
+  // キー列（結合キー列を含む）は値が異なるのが当然のため差分に含めない
+  return matches.map(match => ({
+    ...match,
+    left: leftRows[match.left],
+    right: rightRows[match.right],
+    diff_cols: match.diff_cols.filter(col => col !== input.key && !request.leftKeys.includes(col)),
+  }));
+}
+
+// ソート・キーの結合を行い、2つ以上のファイルを基準ファイルと比較する
+// （compare_multi の無い古いWASMのビルドではTypeScript版で処理する）
+export function runMultiCompare(engine: Engine, request: MultiCompareRequest, onProgress: ProgressCallback): MultiCompareResponse {
+  const { options, files } = request;
+  const combinedKeyName = files[request.baseline].keys.join('|');
+  const inputs = files.map((file, i) => {
+    const data = request.sortByKeys ? sortByKeyColumns(file.data, file.keys, options) : file.data;
+    const withKey = appendCombinedKey(data, file.keys, combinedKeyName, options, ratio => onProgress('normalize', (i + ratio) / files.length));
+    return {
+      name: file.name,
+      headers: withKey.headers,
+      rows: withKey.rows,
+      cells: data.cells,
+      column_mapping: file.columnMapping,
+    };
+  });
+  onProgress('normalize', 1);
+
+  const input: MultiCompareInput = { inputs, baseline: request.baseline, key: combinedKeyName, options };
+  let used = engine;
+  if (!engine.module.compare_multi) {
+    console.warn('WASMモジュールに複数ファイルの比較が無いため、TypeScript版で処理します');
+    used = { type: 'typescript', module: typescriptEngine };
+  }
+  const output = compareMultiTables(used.module, input, transferPhase(onProgress));
+  output.log.push(['engine', used.type]);
+
+  // ファイルごとの結合キー列を結果から削除（キー列が1列の場合は同名の元の列があるため末尾のもの）
+  output.result = files.reduce(
+    (data, _, i) => removeColumn(data, data.headers.lastIndexOf(`F${i + 1}__${combinedKeyName}`)),
+    output.result
+  );
+  onProgress('build', 1);
+
+  return { output, rowCounts: inputs.map(input => input.rows.length) };
+}
+
+// 要求の種類に応じて処理を実行する（Web Worker・メインスレッドのどちらからも使用）
+export function runTask(engine: Engine, request: WorkerRequest, onProgress: ProgressCallback): WorkerResults[WorkerTaskType] {
+  switch (request.type) {
+    case 'compare':
+      return runCompare(engine, request.payload, onProgress);
+    case 'multi_compare':
+      return runMultiCompare(engine, request.payload, onProgress);
+    case 'split':
+      return runSplit(engine, request.payload, onProgress);
+  }
+}
+
+// キーの結合を行い、エンジン（WASMまたはTypeScript版）で分割する
+export function runSplit(engine: Engine, request: SplitRequest, onProgress: ProgressCallback): SplitOutput {
+  const { data, keys } = request;
+
+  // 複数キーの場合、一時的に結合キー列を作成
+  const combinedKeyName = keys.join('|');
+  const withKey = appendCombinedKey(data, keys, combinedKeyName, { trim: true, case_insensitive: false }, ratio => onProgress('normalize', ratio));
+
+  const input: SplitInput = {
+    headers: withKey.headers,
+    rows: withKey.rows,
+    cells: data.cells,
+    key: combinedKeyName,
+  };
+  const output = splitTable(engine.module, input, transferPhase(onProgress));
+
+  // 結合キー列を結果から削除
+  const keyIdx = withKey.headers.indexOf(combinedKeyName);
+  output.parts = output.parts.map(part => ({
+    ...part,
+    table: removeColumn(part.table, keyIdx),
+  }));
+  onProgress('build', 1);
+
+  return output;
+}
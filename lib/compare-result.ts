@@ -0,0 +1,403 @@
+// 比較結果の統合（結合キー列・差額列）と、行ごとの分類・差分セルの判定（複数ファイルの比較の列の構成・集計を含む）
+
+import type { CellValue, TableData } from './excel-utils';
+import { resolveRightColumn } from './column-mapping';
+import type { ColumnPair, CompareOutput, FuzzyMatch, MultiMatchStatus } from './wasm-types';
+
+// 差額を出力する比較列（左側の列 - 右側の列を label の列に出力）
+export interface CompareColumn {
+  left: string;
+  right: string;
+  label: string;
+}
+
+// 比較結果の行の分類（Excel出力の色分けに使用）
+export type MatchCategory = 'both' | 'fuzzy' | 'left_only' | 'right_only' | 'duplicate';
+
+export const matchCategoryStyles: { id: MatchCategory; name: string; description: string; argb: string }[] = [
+  { id: 'both', name: '一致', description: '左右両方にキーがある行', argb: 'FFE8F5E9' },
+  { id: 'fuzzy', name: 'あいまい一致', description: 'キーが近い左右の行を組にしたもの（採用した候補）', argb: 'FFFFFDE7' },
+  { id: 'left_only', name: '左のみ', description: '左側にだけキーがある行', argb: 'FFE3F2FD' },
+  { id: 'right_only', name: '右のみ', description: '右側にだけキーがある行', argb: 'FFFFF3E0' },
+  { id: 'duplicate', name: '重複キー', description: 'キーが重複している行（dup_key_flag = 1）', argb: 'FFF3E5F5' },
+];
+
+// match_status と dup_key_flag から行の分類を決める（重複キーを優先）
+export function getMatchCategory(status: string, dupFlag: string): MatchCategory {
+  if (dupFlag === '1') return 'duplicate';
+  if (status === 'left_only' || status === 'right_only' || status === 'fuzzy') return status;
+  return 'both';
+}
+
+// 行の分類と差分セル（L__/R__ の列名の組）
+export interface RowHighlight {
+  rowIdx: number;
+  category: MatchCategory;
+  diffPairs: ColumnPair[];
+  valueOf: (header: string) => string;
+}
+
+// 分類ごとの行数
+export interface CompareCounts {
+  total: number;
+  categories: Record<MatchCategory, number>;
+  unmatched: number; // 左のみ・右のみの行数（突合しなかった重複キーの行を含む）
+  diffRows: number;  // 一致した行のうち diff_cols が空でない行数
+}
+
+// あいまい一致の候補のうち採用したもの（accepted[i] が true）を一致の行（match_status = fuzzy）にし、
+// 左のみ・右のみの行から除く。候補がある場合は全行の末尾に fuzzy_score 列を追加する
+export function applyFuzzyMatches(output: CompareOutput, matches: FuzzyMatch[], accepted: boolean[]): CompareOutput {
+  if (matches.length === 0) return output;
+
+  const headers = [...output.result.headers, 'fuzzy_score'];
+  const leftWidth = headers.filter(h => h.startsWith('L__')).length;
+  const dataWidth = output.result.headers.length - 3;
+  const withScore = (table: TableData, keep: (idx: number) => boolean = () => true): TableData => ({
+    headers,
+    rows: table.rows.filter((_, idx) => keep(idx)).map(row => [...row, '']),
+    ...(table.cells && { cells: table.cells.filter((_, idx) => keep(idx)).map(row => [...row, null]) }),
+  });
+
+  const taken = matches.filter((_, i) => accepted[i]);
+  const takenLeft = new Set(taken.map(m => m.left));
+  const takenRight = new Set(taken.map(m => m.right));
+  const result = withScore(output.result);
+  taken.forEach(match => {
+    const leftRow = output.left_only.rows[match.left];
+    const rightRow = output.right_only.rows[match.right];
+    result.rows.push([
+      ...leftRow.slice(0, leftWidth),
+      ...rightRow.slice(leftWidth, dataWidth),
+      'fuzzy',
+      match.diff_cols.join(','),
+      '0',
+      match.score.toFixed(3),
+    ]);
+    if (result.cells) {
+      const leftCells = output.left_only.cells?.[match.left] ?? [];
+      const rightCells = output.right_only.cells?.[match.right] ?? [];
+      const cells = [...leftCells.slice(0, leftWidth), ...rightCells.slice(leftWidth, dataWidth)];
+      while (cells.length < headers.length) cells.push(null);
+      result.cells.push(cells);
+    }
+  });
+
+  return {
+    ...output,
+    result,
+    left_only: withScore(output.left_only, idx => !takenLeft.has(idx)),
+    right_only: withScore(output.right_only, idx => !takenRight.has(idx)),
+    duplicates: withScore(output.duplicates),
+  };
+}
+
+// あいまい一致の候補の左右のキー（キー列が複数の場合は " / " で区切る。keys は左右のキー列の組）
+export function getFuzzyMatchKeys(output: CompareOutput, matches: FuzzyMatch[], keys: ColumnPair[]): { left: string; right: string }[] {
+  const keyText = (table: TableData, row: number, columns: string[]) =>
+    columns.map(column => table.rows[row]?.[table.headers.indexOf(column)] ?? '').join(' / ');
+  const leftColumns = keys.map(key => `L__${key.left}`);
+  const rightColumns = keys.map(key => `R__${key.right}`);
+  return matches.map(match => ({
+    left: keyText(output.left_only, match.left, leftColumns),
+    right: keyText(output.right_only, match.right, rightColumns),
+  }));
+}
+
+// あいまい一致の行の右側のキーの列（統合した表では結合キー列を1列にするため、fuzzy_score の後に右側の値を残す）
+export function getFuzzyRightKeyHeaders(keyCount: number): string[] {
+  return keyCount === 1 ? ['fuzzy_right_key'] : Array.from({ length: keyCount }, (_, i) => `fuzzy_right_key_${i + 1}`);
+}
+
+// 比較結果を1つの表にまとめる（L__/R__ の結合キー列を左側の列名の1列に統合し、比較列の差額を末尾に追加）
+export function mergeCompareOutput(
+  output: CompareOutput,
+  compareKeys: string[],
+  rightKeyColumns: string[],
+  compareColumns: CompareColumn[]
+): TableData {
+  const mergedHeaders = output.result.headers;
+  const mergedRows: string[][] = [
+    ...output.result.rows,
+    ...output.left_only.rows,
+    ...output.right_only.rows,
+    ...output.duplicates.rows,
+  ];
+  // 型付きの値（元ファイルがExcelの場合のみ）
+  const mergedCells: (CellValue | null)[][] | undefined = output.result.cells && [
+    ...output.result.cells,
+    ...(output.left_only.cells ?? []),
+    ...(output.right_only.cells ?? []),
+    ...(output.duplicates.cells ?? []),
+  ];
+
+  // 結合キー列を統合（L__とR__を1つの列に）
+  const unifiedHeaders: string[] = [];
+  const processedKeys = new Set<string>();
+  const fuzzyRightKeyHeaders = getFuzzyRightKeyHeaders(compareKeys.length);
+  for (const header of mergedHeaders) {
+    // 右側のキー列は対応付けされた列名の場合がある（統合後は左側の列名を使う）
+    const keyIdx = compareKeys.findIndex((key, i) => header === `L__${key}` || header === `R__${rightKeyColumns[i]}`);
+    if (keyIdx !== -1) {
+      const keyName = compareKeys[keyIdx];
+      if (!processedKeys.has(keyName)) {
+        unifiedHeaders.push(keyName);
+        processedKeys.add(keyName);
+      }
+    } else {
+      unifiedHeaders.push(header);
+      if (header === 'fuzzy_score') unifiedHeaders.push(...fuzzyRightKeyHeaders);
+    }
+  }
+
+  // 統合前の行マップ（ヘッダー名 → 値）
+  const rowMaps = mergedRows.map(row => new Map(mergedHeaders.map((header, idx) => [header, row[idx] || ''])));
+
+  const unifiedRows: string[][] = [];
+  const unifiedCells: (CellValue | null)[][] = [];
+  mergedRows.forEach((_, rowIdx) => {
+    const rowMap = rowMaps[rowIdx];
+    const cellMap = new Map(mergedHeaders.map((header, idx) => [header, mergedCells?.[rowIdx]?.[idx] ?? null]));
+    const unifiedRow: string[] = [];
+    const unifiedCellRow: (CellValue | null)[] = [];
+    for (const header of unifiedHeaders) {
+      const fuzzyKeyIdx = fuzzyRightKeyHeaders.indexOf(header);
+      if (fuzzyKeyIdx !== -1) {
+        const source = `R__${rightKeyColumns[fuzzyKeyIdx]}`;
+        const isFuzzy = rowMap.get('match_status') === 'fuzzy';
+        unifiedRow.push(isFuzzy ? rowMap.get(source) || '' : '');
+        unifiedCellRow.push(isFuzzy ? cellMap.get(source) ?? null : null);
+        continue;
+      }
+      // 結合キー列の場合、L__またはR__から値を取得（どちらかが存在すればその値を使用）
+      const source = !processedKeys.has(header)
+        ? header
+        : rowMap.get(`L__${header}`) ? `L__${header}` : `R__${rightKeyColumns[compareKeys.indexOf(header)]}`;
+      unifiedRow.push(rowMap.get(source) || '');
+      unifiedCellRow.push(cellMap.get(source) ?? null);
+    }
+    unifiedRows.push(unifiedRow);
+    unifiedCells.push(unifiedCellRow);
+  });
+
+  // 比較列の差額を計算して追加（統合前の行マップを使用）
+  const finalHeaders = [...unifiedHeaders];
+  let finalRows = unifiedRows;
+  let finalCells = unifiedCells;
+  compareColumns.forEach(col => {
+    if (col.left && col.right && col.label) {
+      finalHeaders.push(col.label);
+      finalRows = finalRows.map((row, rowIdx) => {
+        const rowMap = rowMaps[rowIdx];
+        const leftValue = parseFloat(rowMap.get(`L__${col.left}`) || '0') || 0;
+        const rightValue = parseFloat(rowMap.get(`R__${col.right}`) || '0') || 0;
+        return [...row, (leftValue - rightValue).toString()];
+      });
+      finalCells = finalCells.map(row => [...row, null]);
+    }
+  });
+
+  return {
+    headers: finalHeaders,
+    rows: finalRows,
+    ...(mergedCells && { cells: finalCells }),
+  };
+}
+
+// 統合した表の行ごとの分類と差分セル。diff_cols は左側の列名なので、右側は対応付けから解決する
+export function getRowHighlights(data: TableData, order: number[], columnMapping: ColumnPair[]): RowHighlight[] {
+  const headerIndex = new Map(data.headers.map((header, idx) => [header, idx]));
+  const rightHeaders = data.headers.filter(h => h.startsWith('R__')).map(h => h.slice(3));
+  return order.map(rowIdx => {
+    const row = data.rows[rowIdx];
+    const valueOf = (header: string) => row[headerIndex.get(header) ?? -1] || '';
+    const diffPairs = valueOf('diff_cols')
+      .split(',')
+      .filter(col => col !== '')
+      .map(col => ({
+        left: `L__${col}`,
+        right: `R__${resolveRightColumn(columnMapping, col, rightHeaders) ?? col}`,
+      }));
+    return {
+      rowIdx,
+      category: getMatchCategory(valueOf('match_status'), valueOf('dup_key_flag')),
+      diffPairs,
+      valueOf,
+    };
+  });
+}
+
+// 行の詳細の1項目（左右の列の組。対応する列が無い側は null）
+export interface RowField {
+  left: string | null;
+  right: string | null;
+  leftValue: string;
+  rightValue: string;
+  key: boolean;     // 結合キー列（統合した表では1列のため、あいまい一致の行以外は左右に同じ値を表示する）
+  differs: boolean; // diff_cols に含まれる列（結合キー列は左右の値が異なる場合）
+}
+
+export interface RowDetail {
+  rowIdx: number;
+  category: MatchCategory;
+  status: string;
+  fuzzyScore: string;
+  fields: RowField[];
+}
+
+// 統合した表の1行を、比較と同じ列の対応付けで左右の項目に並べる（keys は左右のキー列の組）
+export function getRowDetail(data: TableData, rowIdx: number, columnMapping: ColumnPair[], keys: ColumnPair[]): RowDetail {
+  const row = data.rows[rowIdx];
+  const valueOf = (header: string) => row[data.headers.indexOf(header)] || '';
+  const status = valueOf('match_status');
+  const diffCols = valueOf('diff_cols').split(',').filter(col => col !== '');
+  const leftHeaders = data.headers.filter(h => h.startsWith('L__')).map(h => h.slice(3));
+  const rightHeaders = data.headers.filter(h => h.startsWith('R__')).map(h => h.slice(3));
+
+  const fuzzyRightKeyHeaders = getFuzzyRightKeyHeaders(keys.length);
+  const keyFields: RowField[] = keys.map((key, i) => {
+    const leftValue = status === 'right_only' ? '' : valueOf(key.left);
+    // あいまい一致の行は右側のキーを fuzzy_right_key 列から取る
+    const rightValue = status === 'left_only' ? '' : status === 'fuzzy' ? valueOf(fuzzyRightKeyHeaders[i]) : valueOf(key.left);
+    return {
+      left: key.left,
+      right: key.right,
+      leftValue,
+      rightValue,
+      key: true,
+      differs: status === 'fuzzy' && leftValue !== rightValue,
+    };
+  });
+  const pairedRight = new Set<string>();
+  const pairFields: RowField[] = leftHeaders.map(left => {
+    const right = resolveRightColumn(columnMapping, left, rightHeaders) ?? null;
+    if (right !== null) pairedRight.add(right);
+    return {
+      left,
+      right,
+      leftValue: valueOf(`L__${left}`),
+      rightValue: right !== null ? valueOf(`R__${right}`) : '',
+      key: false,
+      differs: diffCols.includes(left),
+    };
+  });
+  const rightFields: RowField[] = rightHeaders
+    .filter(right => !pairedRight.has(right))
+    .map(right => ({ left: null, right, leftValue: '', rightValue: valueOf(`R__${right}`), key: false, differs: false }));
+
+  return {
+    rowIdx,
+    category: getMatchCategory(status, valueOf('dup_key_flag')),
+    status,
+    fuzzyScore: valueOf('fuzzy_score'),
+    fields: [...keyFields, ...pairFields, ...rightFields],
+  };
+}
+
+export function countHighlights(highlights: RowHighlight[]): CompareCounts {
+  const categories: Record<MatchCategory, number> = { both: 0, fuzzy: 0, left_only: 0, right_only: 0, duplicate: 0 };
+  highlights.forEach(h => categories[h.category]++);
+  return {
+    total: highlights.length,
+    categories,
+    // 重複キーの行も match_status が left_only・right_only なら突合していない（1対1では重複キーの行はすべてこれにあたる）
+    unmatched: highlights.filter(h => ['left_only', 'right_only'].includes(h.valueOf('match_status'))).length,
+    diffRows: highlights.filter(h => h.diffPairs.length > 0).length,
+  };
+}
+
+// 複数ファイルの比較の match_status（Excel出力の色分けに使用）
+export const multiMatchStatusStyles: { id: MultiMatchStatus; name: string; description: string; argb: string }[] = [
+  { id: 'all', name: '全ファイル', description: 'すべてのファイルにキーがある行', argb: 'FFE8F5E9' },
+  { id: 'partial', name: '一部欠落', description: '基準ファイルと一部のファイルにだけキーがある行', argb: 'FFFFF3E0' },
+  { id: 'baseline_only', name: '基準のみ', description: '基準ファイルにだけキーがある行', argb: 'FFE3F2FD' },
+  { id: 'no_baseline', name: '基準に無し', description: '基準ファイルにキーが無い行', argb: 'FFF3E5F5' },
+];
+
+// 複数ファイルの比較結果の1ファイル分の列
+export interface MultiCompareColumnGroup {
+  label: string;    // 結果の列名の接頭辞（F1, F2, ...）
+  name: string;     // ファイル名
+  baseline: boolean;
+  presentIdx: number;
+  columns: { header: string; idx: number }[]; // 元の列名と結果の列番号
+  diffIdx: number;  // Fn_diff_cols の列番号（基準ファイルは -1）
+  diffColumns: Map<string, number>; // 基準ファイルの列名 → このファイルの対応する列の列番号
+}
+
+// 結果の列をファイルごとにまとめる（files は比較したファイルの順。columnMapping は基準ファイルの列 → そのファイルの列）
+export function getMultiCompareColumnGroups(
+  data: TableData,
+  files: { name: string; columnMapping: ColumnPair[] }[],
+  baseline: number
+): MultiCompareColumnGroup[] {
+  const groups = files.map((file, i) => {
+    const label = `F${i + 1}`;
+    const prefix = `${label}__`;
+    const columns = data.headers.flatMap((header, idx) => (header.startsWith(prefix) ? [{ header: header.slice(prefix.length), idx }] : []));
+    return {
+      label,
+      name: file.name,
+      baseline: i === baseline,
+      presentIdx: data.headers.indexOf(`${label}_present`),
+      columns,
+      diffIdx: data.headers.indexOf(`${label}_diff_cols`),
+      diffColumns: new Map<string, number>(),
+    };
+  });
+  const baseHeaders = groups[baseline].columns.map(c => c.header);
+  groups.forEach((group, i) => {
+    if (group.baseline) return;
+    const headers = group.columns.map(c => c.header);
+    baseHeaders.forEach(header => {
+      const mapped = resolveRightColumn(files[i].columnMapping, header, headers);
+      const column = group.columns.find(c => c.header === mapped);
+      if (column) group.diffColumns.set(header, column.idx);
+    });
+  });
+  return groups;
+}
+
+// 行ごとの、差分のあるセルの列番号（基準ファイル以外のファイルの列）
+export function getMultiDiffCells(row: string[], groups: MultiCompareColumnGroup[]): Set<number> {
+  const cells = new Set<number>();
+  groups.forEach(group => {
+    if (group.diffIdx === -1) return;
+    (row[group.diffIdx] || '').split(',').filter(col => col !== '').forEach(col => {
+      const idx = group.diffColumns.get(col);
+      if (idx !== undefined) cells.add(idx);
+    });
+  });
+  return cells;
+}
+
+// ファイルごとの行数（欠落はキーがそのファイルに無い行、差分は基準ファイルと値が異なる行）
+export interface MultiCompareCounts {
+  total: number;
+  statuses: Record<MultiMatchStatus, number>;
+  files: { label: string; name: string; baseline: boolean; present: number; missing: number; diffRows: number }[];
+}
+
+export function countMultiCompare(data: TableData, groups: MultiCompareColumnGroup[]): MultiCompareCounts {
+  const statusIdx = data.headers.indexOf('match_status');
+  const statuses: Record<MultiMatchStatus, number> = { all: 0, partial: 0, baseline_only: 0, no_baseline: 0 };
+  data.rows.forEach(row => {
+    const status = row[statusIdx] as MultiMatchStatus;
+    if (status in statuses) statuses[status]++;
+  });
+  return {
+    total: data.rows.length,
+    statuses,
+    files: groups.map(group => {
+      const present = data.rows.filter(row => row[group.presentIdx] === '1').length;
+      return {
+        label: group.label,
+        name: group.name,
+        baseline: group.baseline,
+        present,
+        missing: data.rows.length - present,
+        diffRows: group.diffIdx === -1 ? 0 : data.rows.filter(row => (row[group.diffIdx] || '') !== '').length,
+      };
+    }),
+  };
+}
@@ -0,0 +1,202 @@
+import * as XLSX from 'xlsx';
+import type { ExcelBook } from './excel-utils';
+
+// CSV/TSVの文字コード
+export type CsvEncoding = 'utf-8' | 'utf-8-bom' | 'shift_jis' | 'euc-jp';
+
+// CSV/TSVの区切り文字
+export type CsvDelimiter = ',' | '\t' | ';' | '|';
+
+// 読み込み設定（autoの場合は内容から判定）
+export interface CsvOptions {
+  encoding: CsvEncoding | 'auto';
+  delimiter: CsvDelimiter | 'auto';
+}
+
+// 実際に使用した文字コードと区切り文字
+export interface CsvDetection {
+  encoding: CsvEncoding;
+  delimiter: CsvDelimiter;
+}
+
+export const defaultCsvOptions: CsvOptions = {
+  encoding: 'auto',
+  delimiter: 'auto',
+};
+
+export const csvEncodings: { id: CsvEncoding; name: string }[] = [
+  { id: 'utf-8', name: 'UTF-8' },
+  { id: 'utf-8-bom', name: 'UTF-8（BOM付き）' },
+  { id: 'shift_jis', name: 'Shift_JIS（CP932）' },
+  { id: 'euc-jp', name: 'EUC-JP' },
+];
+
+export const csvDelimiters: { id: CsvDelimiter; name: string }[] = [
+  { id: ',', name: 'カンマ' },
+  { id: '\t', name: 'タブ' },
+  { id: ';', name: 'セミコロン' },
+  { id: '|', name: 'パイプ' },
+];
+
+// 区切り文字の判定に使う先頭行数
+const DELIMITER_SAMPLE_LINES = 20;
+
+export function isCsvFile(file: File): boolean {
+  return /\.(csv|tsv|txt)$/i.test(file.name);
+}
+
+const hasUtf8Bom = (bytes: Uint8Array): boolean =>
+  bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf;
+
+const countReplacementChars = (text: string): number => text.split('\uFFFD').length - 1;
+
+const countHalfwidthKana = (text: string): number => (text.match(/[\uFF61-\uFF9F]/g) || []).length;
+
+export function detectEncoding(bytes: Uint8Array): CsvEncoding {
+  if (hasUtf8Bom(bytes)) {
+    return 'utf-8-bom';
+  }
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    // UTF-8として不正なバイト列 → 日本語の旧文字コードとして判定
+  }
+  // 0x81-0x9F（0x8E/0x8Fを除く）はShift_JISの第1バイトにのみ現れる
+  if (bytes.some(b => b >= 0x81 && b <= 0x9f && b !== 0x8e && b !== 0x8f)) {
+    return 'shift_jis';
+  }
+  const sjisText = new TextDecoder('shift_jis').decode(bytes);
+  const eucText = new TextDecoder('euc-jp').decode(bytes);
+  const sjisErrors = countReplacementChars(sjisText);
+  const eucErrors = countReplacementChars(eucText);
+  if (sjisErrors !== eucErrors) {
+    return eucErrors < sjisErrors ? 'euc-jp' : 'shift_jis';
+  }
+  // EUC-JPの全角文字はShift_JISでは半角カナの並びとして読めてしまうため、半角カナの多さで判定
+  return countHalfwidthKana(sjisText) > countHalfwidthKana(eucText) ? 'euc-jp' : 'shift_jis';
+}
+
+export function decodeText(bytes: Uint8Array, encoding: CsvEncoding): string {
+  // TextDecoderはUTF-8のBOMを自動的に取り除く
+  const label = encoding === 'utf-8-bom' ? 'utf-8' : encoding;
+  return new TextDecoder(label).decode(bytes);
+}
+
+// 引用符の外にある区切り文字の数を行ごとに数える
+function countDelimiters(line: string, delimiter: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === delimiter && !inQuotes) {
+      count++;
+    }
+  }
+  return count;
+}
+
+export function detectDelimiter(text: string): CsvDelimiter {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '').slice(0, DELIMITER_SAMPLE_LINES);
+  if (lines.length === 0) return ',';
+
+  let best: { delimiter: CsvDelimiter; consistent: number; count: number } = { delimiter: ',', consistent: 0, count: 0 };
+  for (const { id: delimiter } of csvDelimiters) {
+    const counts = lines.map(line => countDelimiters(line, delimiter));
+    const count = counts[0];
+    if (count === 0) continue;
+    // 先頭行と同じ数の区切り文字を持つ行が多いほど確からしい
+    const consistent = counts.filter(c => c === count).length;
+    if (consistent > best.consistent || (consistent === best.consistent && count > best.count)) {
+      best = { delimiter, consistent, count };
+    }
+  }
+  return best.delimiter;
+}
+
+// RFC 4180 形式のCSVを解析（引用符内の区切り文字・改行・""に対応）
+export function parseCsv(text: string, delimiter: CsvDelimiter): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  // 末尾に改行がない最終行
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+async function readFileBytes(file: File): Promise<Uint8Array> {
+  return new Uint8Array(await file.arrayBuffer());
+}
+
+// 文字列セルのみのワークシートを作成（先頭ゼロなどを保持するため型変換しない）
+function toWorksheet(rows: string[][]): XLSX.WorkSheet {
+  const worksheet: XLSX.WorkSheet = {};
+  let maxColumn = 0;
+  rows.forEach((row, r) => {
+    row.forEach((value, c) => {
+      if (value === '') return;
+      worksheet[XLSX.utils.encode_cell({ r, c })] = { t: 's', v: value };
+      maxColumn = Math.max(maxColumn, c);
+    });
+  });
+  worksheet['!ref'] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: Math.max(rows.length - 1, 0), c: maxColumn } });
+  return worksheet;
+}
+
+// CSV/TSVを1シートのブックとして読み込む（シート名はファイル名）
+export async function readCsvBook(file: File, options: CsvOptions = defaultCsvOptions): Promise<ExcelBook> {
+  const bytes = await readFileBytes(file);
+  const encoding = options.encoding === 'auto' ? detectEncoding(bytes) : options.encoding;
+  const text = decodeText(bytes, encoding);
+  const delimiter = options.delimiter === 'auto'
+    ? (/\.tsv$/i.test(file.name) ? '\t' : detectDelimiter(text))
+    : options.delimiter;
+  const rows = parseCsv(text, delimiter);
+
+  if (rows.length === 0) {
+    throw new Error('ファイルが空です');
+  }
+
+  const sheetName = file.name.replace(/\.[^.]+$/, '');
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  return {
+    fileName: file.name,
+    sheets: [{ name: sheetName, rowCount: rows.length, columnCount }],
+    workbook: { SheetNames: [sheetName], Sheets: { [sheetName]: toWorksheet(rows) } },
+    csv: { encoding, delimiter },
+  };
+}
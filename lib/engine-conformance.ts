@@ -0,0 +1,293 @@
+// WASMとTypeScript版のエンジンの一致確認（同じ入力で両方を実行し、結果・エラーが同じかを調べる）
+
+import type { CellValue } from './excel-utils';
+import { typescriptEngine } from './ts-engine';
+import {
+  compareMultiTables,
+  compareTables,
+  defaultFuzzyOptions,
+  fuzzyMatchTables,
+  splitTable,
+  WasmError,
+  type CompareInput,
+  type CompareOptions,
+  type FuzzyMatchInput,
+  type MultiCompareInput,
+  type SplitInput,
+  type WasmModule,
+} from './wasm-types';
+
+export type ConformanceFixture =
+  | { name: string; type: 'compare'; input: CompareInput }
+  | { name: string; type: 'multi_compare'; input: MultiCompareInput }
+  | { name: string; type: 'fuzzy_match'; input: FuzzyMatchInput }
+  | { name: string; type: 'split'; input: SplitInput };
+
+export interface ConformanceResult {
+  name: string;
+  passed: boolean;
+  detail?: string; // 一致しない場合の内容
+}
+
+const options = (extra: Partial<CompareOptions> = {}): CompareOptions => ({ trim: true, case_insensitive: false, ...extra });
+
+const num = (value: number): CellValue => ({ kind: 'number', value });
+const date = (value: string): CellValue => ({ kind: 'date', value });
+
+// 重複キーを含む左右の表（突合方法ごとの確認に使用）
+const duplicateLeft = {
+  left_headers: ['id', 'v'],
+  left_rows: [['1', 'a'], ['2', 'b'], ['2', 'c'], ['3', 'd'], ['4', 'e'], ['4', 'f']],
+  right_headers: ['id', 'v'],
+  right_rows: [['1', 'a'], ['2', 'b'], ['3', 'x'], ['3', 'd'], ['4', 'f'], ['4', 'e'], ['4', 'g'], ['5', 'h']],
+  key: 'id',
+};
+
+export const conformanceFixtures: ConformanceFixture[] = [
+  {
+    name: '比較: 基本（差分・片側のみ・空白と大文字小文字）',
+    type: 'compare',
+    input: {
+      left_headers: ['code', 'name', 'amount'],
+      left_rows: [[' A01', 'りんご', '100'], ['a02', 'みかん', '200'], ['A03', 'ぶどう'], ['', '空キー', '0']],
+      right_headers: ['code', 'amount', 'name', 'note'],
+      right_rows: [['A01 ', '100', 'りんご', ''], ['A02', '250', 'みかん', 'x'], ['A04', '1', 'もも', ''], ['', '0', '空キー', '']],
+      key: 'code',
+      options: options({ case_insensitive: true }),
+    },
+  },
+  ...(['one_to_one', 'one_to_many', 'many_to_one', 'many_to_many', 'sequence'] as const).map((mode): ConformanceFixture => ({
+    name: `比較: 突合方法 ${mode}`,
+    type: 'compare',
+    input: { ...duplicateLeft, options: options({ match_mode: mode }) },
+  })),
+  {
+    name: '比較: 列ごとの比較ルールと型付きの値',
+    type: 'compare',
+    input: {
+      left_headers: ['id', 'price', 'rate', 'day', 'name', 'memo', 'skip'],
+      left_rows: [
+        ['1', '1,000', '0.30000000000000004', '2024/1/5', 'ｱｲｳ', 'x', 'a'],
+        ['2', '(500)', '1.00', '2024年1月5日', 'ｶﾞｷﾞ ', 'y', 'b'],
+        ['3', '¥１，２００', '', '2024-01-05 10:00', 'ﾊﾟﾋﾟ', 'z', 'c'],
+        ['4', 'abc', 'n/a', '不明', 'ABC', 'w', 'd'],
+        ['5', '100', '100', '45296', 'ｳﾞｧ', 'v', 'e'],
+      ],
+      right_headers: ['id', 'price', 'rate', 'day', 'name', 'memo', 'skip'],
+      right_rows: [
+        ['1', '1000', '0.3', '2024-01-05', 'アイウ', 'x', 'z'],
+        ['2', '▲500', '1.04', '2024/01/05 00:00:00', 'ガギ', 'Y', 'y'],
+        ['3', '1200', ' ', '2024/1/5 10:00:00', 'パピ', 'z', 'x'],
+        ['4', 'ABC ', 'N/A', '不明 ', 'abc', 'w', 'w'],
+        ['5', '101', '103', '2023-12-31', 'ヴァ', 'v', 'v'],
+      ],
+      left_cells: [
+        [null, num(1000), null, date('2024-01-05T00:00:00'), null, null, null],
+        [null, null, null, null, null, null, null],
+        [],
+        [null, { kind: 'string', value: 'abc' }],
+        [null, num(100), null, date('2024-01-05T00:00:00')],
+      ],
+      key: 'id',
+      options: options({
+        column_rules: {
+          price: { type: 'numeric', abs_tolerance: 0, rel_tolerance: 0 },
+          rate: { type: 'numeric', abs_tolerance: 0.05, rel_tolerance: 0.02 },
+          day: { type: 'date' },
+          name: { type: 'text', trim: true, case_insensitive: true, normalize_width: true },
+          skip: { type: 'ignore' },
+        },
+      }),
+    },
+  },
+  {
+    name: '比較: 列の対応付け（キー列・同名の列の付け替え）',
+    type: 'compare',
+    input: {
+      left_headers: ['社員番号', '氏名', 'name', '部署'],
+      left_rows: [['1', '山田', 'yamada', '営業'], ['2', '佐藤', 'sato', '経理'], ['3', '鈴木', 'suzuki']],
+      right_headers: ['emp_no', 'name', '部署', '氏名'],
+      right_rows: [['1', '山田', '営業', 'x'], ['2', '佐藤', '総務', 'y'], ['4', '田中', '営業', 'z', '余分な列']],
+      right_cells: [[num(1)], [], []],
+      key: '社員番号',
+      options: options(),
+      column_mapping: [{ left: '社員番号', right: 'emp_no' }, { left: '氏名', right: 'name' }],
+    },
+  },
+  {
+    name: '比較: 左にキー列が無い',
+    type: 'compare',
+    input: { ...duplicateLeft, key: 'code', options: options() },
+  },
+  {
+    name: '比較: 右にキー列が無い',
+    type: 'compare',
+    input: { ...duplicateLeft, right_headers: ['ID', 'v'], options: options() },
+  },
+  {
+    name: '複数比較: 3ファイル（欠落・重複キー・列の対応付け・比較ルール）',
+    type: 'multi_compare',
+    input: {
+      inputs: [
+        {
+          name: 'ERP',
+          headers: ['code', 'amount', 'name'],
+          rows: [['A01', '1,000', 'りんご'], ['A02', '200', 'みかん'], ['A03', '300', 'ぶどう'], ['A03', '310', 'ぶどう']],
+          cells: [[null, num(1000)]],
+        },
+        {
+          name: '銀行',
+          headers: ['コード', '金額'],
+          rows: [['A01', '1000'], ['a02 ', '250'], ['A04', '1']],
+          column_mapping: [{ left: 'code', right: 'コード' }, { left: 'amount', right: '金額' }],
+        },
+        {
+          name: '補助元帳',
+          headers: ['code', 'name', 'amount', 'memo'],
+          rows: [['A01', 'りんご', '1000', ''], ['A03', 'ﾌﾞﾄﾞｳ', '300', 'x'], ['A05', 'もも', '5', '']],
+        },
+      ],
+      baseline: 0,
+      key: 'code',
+      options: options({
+        case_insensitive: true,
+        column_rules: {
+          amount: { type: 'numeric', abs_tolerance: 0, rel_tolerance: 0 },
+          name: { type: 'text', trim: true, case_insensitive: false, normalize_width: true },
+        },
+      }),
+    },
+  },
+  {
+    name: '複数比較: 基準ファイル以外にキー列が無い',
+    type: 'multi_compare',
+    input: {
+      inputs: [
+        { name: '左', headers: ['id'], rows: [['1']] },
+        { name: '中', headers: ['id'], rows: [['1']] },
+        { name: '右', headers: ['ID'], rows: [['1']] },
+      ],
+      baseline: 1,
+      key: 'id',
+      options: options(),
+    },
+  },
+  {
+    name: 'あいまい一致: 法人格・ハイフン・全角・かな（Jaro-Winkler）',
+    type: 'fuzzy_match',
+    input: {
+      left_headers: ['取引先', 'code', '金額'],
+      left_rows: [
+        ['株式会社ABC', 'A-00123', '1,000'],
+        ['ｶﾌﾞｼｷ商事', 'B 001', '200'],
+        ['Zinc Trading Co., Ltd.', 'C001', '5'],
+        ['', '', '0'],
+        ['まるや', 'D001', '7'],
+      ],
+      right_headers: ['取引先', 'コード', '金額'],
+      right_rows: [
+        ['(株)ABC', 'A00123', '1000'],
+        ['カブシキ商事', 'Ｂ００１', '250'],
+        ['Zinc Tradng', 'C002', '5'],
+        ['マルヤ', 'D001', '7'],
+        ['まるやま', 'D002', '8'],
+      ],
+      key: '取引先',
+      options: options({ column_rules: { 金額: { type: 'numeric', abs_tolerance: 0, rel_tolerance: 0 } } }),
+      column_mapping: [{ left: 'code', right: 'コード' }],
+      fuzzy: { ...defaultFuzzyOptions, enabled: true, threshold: 0.8 },
+    },
+  },
+  {
+    name: 'あいまい一致: Levenshtein・正規化なし・同点',
+    type: 'fuzzy_match',
+    input: {
+      left_headers: ['code'],
+      left_rows: [['A-00123'], ['AB12'], ['AB13'], ['𠮷野家1']],
+      right_headers: ['code'],
+      right_rows: [['A00123'], ['AB14'], ['AB15'], ['𠮷野家2']],
+      key: 'code',
+      options: options({ case_insensitive: true }),
+      fuzzy: { enabled: true, normalizers: [], algorithm: 'levenshtein', threshold: 0.7 },
+    },
+  },
+  {
+    name: 'あいまい一致: 右側にキー列が無い',
+    type: 'fuzzy_match',
+    input: {
+      left_headers: ['id'],
+      left_rows: [['1']],
+      right_headers: ['ID'],
+      right_rows: [['1']],
+      key: 'id',
+      options: options(),
+      fuzzy: { ...defaultFuzzyOptions, enabled: true },
+    },
+  },
+  {
+    name: '分割: 空のキー・文字の並び順',
+    type: 'split',
+    input: {
+      headers: ['支店', '金額'],
+      rows: [['東京', '1'], [' 大阪', '2'], ['', '3'], ['東京 ', '4'], ['Tokyo', '5'], ['tokyo', '6'], ['𠮷野家', '7'], ['ｱ', '8'], ['  ', '9'], ['EMPTY', '10']],
+      cells: [[null, num(1)], [], [null, num(3)]],
+      key: '支店',
+    },
+  },
+  {
+    name: '分割: キー列が無い',
+    type: 'split',
+    input: { headers: ['支店'], rows: [['東京']], key: '店舗' },
+  },
+];
+
+// オブジェクトのキーの順序によらない比較用のJSON
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) => {
+    if (v && typeof v === 'object' && !Array.isArray(v)) {
+      return Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+    }
+    return v;
+  });
+}
+
+// 結果またはエラーの種類・列・側（メッセージは比較しない）
+function runFixture(engine: WasmModule, fixture: ConformanceFixture): string {
+  try {
+    switch (fixture.type) {
+      case 'compare':
+        return canonicalJson(compareTables(engine, fixture.input));
+      case 'multi_compare':
+        return canonicalJson(compareMultiTables(engine, fixture.input));
+      case 'fuzzy_match':
+        return canonicalJson(fuzzyMatchTables(engine, fixture.input));
+      case 'split':
+        return canonicalJson(splitTable(engine, fixture.input));
+    }
+  } catch (error) {
+    if (error instanceof WasmError) {
+      const { code, side, column, row, input } = error.info;
+      return canonicalJson({ error: { code, side, column, row, input } });
+    }
+    return canonicalJson({ error: { code: 'internal_error', message: error instanceof Error ? error.message : String(error) } });
+  }
+}
+
+// 一致しない箇所（先頭の差異の前後を示す）
+function firstDifference(expected: string, actual: string): string {
+  let i = 0;
+  while (i < expected.length && expected[i] === actual[i]) i++;
+  const start = Math.max(0, i - 40);
+  return `WASM: …${expected.slice(start, i + 40)}… / TypeScript: …${actual.slice(start, i + 40)}…`;
+}
+
+// 全フィクスチャをWASMとTypeScript版で実行して結果を比べる
+export function runConformance(wasm: WasmModule, fixtures: ConformanceFixture[] = conformanceFixtures): ConformanceResult[] {
+  return fixtures.map(fixture => {
+    const expected = runFixture(wasm, fixture);
+    const actual = runFixture(typescriptEngine, fixture);
+    return expected === actual
+      ? { name: fixture.name, passed: true }
+      : { name: fixture.name, passed: false, detail: firstDifference(expected, actual) };
+  });
+}
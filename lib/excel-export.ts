@@ -0,0 +1,892 @@
+// 比較結果・分割結果のExcel出力（ExcelJSのブックを作成。画面とコマンドラインの両方で使用）
+
+import type { Border, Row, Workbook, Worksheet } from 'exceljs';
+import JSZip from 'jszip';
+import { aggregateFunctions, parseAmount, type AggregateOptions } from './aggregate-utils';
+import { countMultiCompare, getMultiDiffCells, matchCategoryStyles, multiMatchStatusStyles, type CompareColumn, type MultiCompareColumnGroup, type RowHighlight } from './compare-result';
+import { getCellNumFmt, toExcelValue, type ImportOptions, type TableData } from './excel-utils';
+import { columnRuleTypes, matchModes, type ColumnPair, type ColumnRule, type CompareOptions } from './wasm-types';
+
+export type ExcelJSModule = typeof import('exceljs');
+
+// データ形式の型定義
+export type DataFormat =
+  | 'text'           // 文字列（デフォルト）
+  | 'number'         // 数値（整数）
+  | 'number_decimal' // 数値（小数点）
+  | 'date_ymd'       // 日付（yyyy/mm/dd）
+  | 'date_ymd_dash'  // 日付（yyyy-mm-dd）
+  | 'date_mdy'       // 日付（mm/dd/yyyy）
+  | 'time'           // 時刻（hh:mm:ss）
+  | 'datetime'       // 日時（yyyy/mm/dd hh:mm:ss）
+  | 'currency_jpy'   // 通貨（¥）
+  | 'currency_usd'   // 通貨（$）
+  | 'currency_eur'   // 通貨（€）
+  | 'percent';       // パーセント
+
+// データ形式の定義
+export const dataFormats: { id: DataFormat; name: string; excelFormat: string }[] = [
+  { id: 'text', name: '文字列', excelFormat: '@' },
+  { id: 'number', name: '数値（整数）', excelFormat: '#,##0' },
+  { id: 'number_decimal', name: '数値（小数点）', excelFormat: '#,##0.00' },
+  { id: 'date_ymd', name: '日付（yyyy/mm/dd）', excelFormat: 'yyyy/mm/dd' },
+  { id: 'date_ymd_dash', name: '日付（yyyy-mm-dd）', excelFormat: 'yyyy-mm-dd' },
+  { id: 'date_mdy', name: '日付（mm/dd/yyyy）', excelFormat: 'mm/dd/yyyy' },
+  { id: 'time', name: '時刻（hh:mm:ss）', excelFormat: 'hh:mm:ss' },
+  { id: 'datetime', name: '日時（yyyy/mm/dd hh:mm:ss）', excelFormat: 'yyyy/mm/dd hh:mm:ss' },
+  { id: 'currency_jpy', name: '通貨（¥）', excelFormat: '¥#,##0' },
+  { id: 'currency_usd', name: '通貨（$）', excelFormat: '$#,##0.00' },
+  { id: 'currency_eur', name: '通貨（€）', excelFormat: '€#,##0.00' },
+  { id: 'percent', name: 'パーセント', excelFormat: '0.00%' },
+];
+
+// 合計行の対象とするデータ形式
+const numericFormats: DataFormat[] = ['number', 'number_decimal', 'currency_jpy', 'currency_usd', 'currency_eur'];
+
+// Excelヘッダー行のカラーパレット（視認性の良い10種類）
+export const excelHeaderColors = [
+  { id: 'aqua', name: 'アクア', color: '#B3E5FC', argb: 'FFB3E5FC' }, // Accent5 lighter80%
+  { id: 'blue', name: '青', color: '#90CAF9', argb: 'FF90CAF9' },
+  { id: 'green', name: 'グリーン', color: '#A5D6A7', argb: 'FFA5D6A7' },
+  { id: 'orange', name: 'オレンジ', color: '#FFCC80', argb: 'FFFFCC80' },
+  { id: 'purple', name: 'パープル', color: '#CE93D8', argb: 'FFCE93D8' },
+  { id: 'pink', name: 'ピンク', color: '#F48FB1', argb: 'FFF48FB1' },
+  { id: 'yellow', name: 'イエロー', color: '#FFF59D', argb: 'FFFFF59D' },
+  { id: 'teal', name: 'ティール', color: '#80CBC4', argb: 'FF80CBC4' },
+  { id: 'cyan', name: 'シアン', color: '#80DEEA', argb: 'FF80DEEA' },
+  { id: 'lime', name: 'ライム', color: '#E6EE9C', argb: 'FFE6EE9C' },
+];
+
+// 出力するExcelの書式設定
+export interface ExcelOptions {
+  headerColor: boolean;
+  borders: boolean;
+  highlightDiffs: boolean;
+  headerColorValue: string;
+  showTotal: boolean;
+}
+
+export const defaultExcelOptions: ExcelOptions = {
+  headerColor: true,
+  borders: true,
+  highlightDiffs: true,
+  headerColorValue: 'aqua',
+  showTotal: true,
+};
+
+// 差分のあるセルの書式
+export const DIFF_CELL_ARGB = 'FFFFCDD2';
+export const DIFF_FONT_ARGB = 'FFC62828';
+
+// 比較実行時の設定（レポート出力で監査証跡として記録する）
+export interface CompareReportSettings {
+  executedAt: Date;
+  leftFileName: string;
+  rightFileName: string;
+  leftSheet: string;
+  rightSheet: string;
+  leftRowCount: number;
+  rightRowCount: number;
+  keys: ColumnPair[];
+  options: CompareOptions;
+  columnMapping: ColumnPair[];
+  leftAggregate: AggregateOptions;
+  rightAggregate: AggregateOptions;
+  leftImportOptions: ImportOptions;
+  rightImportOptions: ImportOptions;
+  compareColumns: CompareColumn[];
+}
+
+// 複数ファイルの比較の実行時の設定（files は比較したファイルの順。keys はそのファイルのキー列）
+export interface MultiCompareReportSettings {
+  executedAt: Date;
+  files: { name: string; sheet: string; rowCount: number; keys: string[]; columnMapping: ColumnPair[] }[];
+  baseline: number;
+  options: CompareOptions;
+}
+
+// 合計行の対象列（列番号、小数点以下の有無、合計行の値）
+export interface TotalColumns {
+  indices: number[];
+  hasDecimalPlaces: boolean[];
+  totals: (string | number)[];
+}
+
+const thinBorder: Partial<Border> = { style: 'thin', color: { argb: 'FF000000' } };
+
+// 文字列の表示幅（全角文字を2、半角文字を1として計算）
+export const displayWidth = (value: string): number =>
+  value.split('').reduce((sum, char) => sum + (char.charCodeAt(0) > 127 ? 2 : 1), 0);
+
+// ファイル名に使用できない文字を置換
+export const toSafeFileName = (name: string): string =>
+  name.replace(/[<>:"/\\|?*]/g, '_').replace(/\s+/g, '_');
+
+// Excelのシート名の上限（UTF-16の文字数）
+const MAX_SHEET_NAME_LENGTH = 31;
+
+// Excelのシート名（使えない文字を置き換えて31文字以内にする。used は使用済みの名前で、大文字小文字を区別せずに重複する場合は「名前 (2)」のように番号を付ける）
+export function toSheetName(name: string, used: Set<string>): string {
+  const truncate = (text: string, max: number) => {
+    let result = '';
+    for (const char of Array.from(text)) {
+      if (result.length + char.length > max) break;
+      result += char;
+    }
+    return result;
+  };
+  // 先頭・末尾のアポストロフィと、予約されている History は使えない
+  let base = name.replace(/[\\/?*[\]:]/g, '_').replace(/^'+|'+$/g, '').trim();
+  if (base === '') base = '(空)';
+  if (base.toLowerCase() === 'history') base = `${base}_`;
+  base = truncate(base, MAX_SHEET_NAME_LENGTH).replace(/'+$/, '');
+
+  let sheetName = base;
+  for (let n = 2; used.has(sheetName.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    sheetName = truncate(base, MAX_SHEET_NAME_LENGTH - suffix.length).replace(/'+$/, '') + suffix;
+  }
+  used.add(sheetName.toLowerCase());
+  return sheetName;
+}
+
+const headerArgb = (options: ExcelOptions): string =>
+  (excelHeaderColors.find(c => c.id === options.headerColorValue) || excelHeaderColors[0]).argb;
+
+// 日付の検出と変換のヘルパー関数
+function parseDate(value: string): Date | null {
+  if (!value || typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  // Excelのシリアル値（5桁の数字）を検出（最初にチェック）
+  const serialMatch = trimmed.match(/^\d{5}$/);
+  if (serialMatch) {
+    const serial = parseInt(trimmed, 10);
+    // Excelのシリアル値は1900年1月1日からの日数（ただし1900年を閏年として扱うバグがあるため、1日引く）
+    // Excelのエポックは1899年12月30日（1900年1月1日を1として扱う）
+    const excelEpoch = new Date(1899, 11, 30);
+    const date = new Date(excelEpoch.getTime() + serial * 24 * 60 * 60 * 1000);
+    if (date.getTime() && !isNaN(date.getTime())) {
+      return date;
+    }
+  }
+
+  // yyyy/mm/dd または yyyy-mm-dd
+  const ymdMatch = trimmed.match(/^(\d{4})[\/\-](\d{1,2})[\/\-](\d{1,2})/);
+  if (ymdMatch) {
+    const year = parseInt(ymdMatch[1], 10);
+    const month = parseInt(ymdMatch[2], 10) - 1;
+    const day = parseInt(ymdMatch[3], 10);
+    const date = new Date(year, month, day);
+    if (date.getFullYear() === year && date.getMonth() === month && date.getDate() === day) {
+      return date;
+    }
+  }
+
+  // mm/dd/yyyy
+  const mdyMatch = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (mdyMatch) {
+    const month = parseInt(mdyMatch[1], 10) - 1;
+    const day = parseInt(mdyMatch[2], 10);
+    const year = parseInt(mdyMatch[3], 10);
+    const date = new Date(year, month, day);
+    if (date.getFullYear() === year && date.getMonth() === month && date.getDate() === day) {
+      return date;
+    }
+  }
+
+  return null;
+}
+
+// データ形式に応じて値を変換
+export function convertValueByFormat(value: string, format: DataFormat): string | number | Date {
+  if (!value) return value;
+
+  switch (format) {
+    case 'text':
+      return value;
+    case 'number': {
+      const num = parseFloat(value);
+      return isNaN(num) ? value : Math.round(num);
+    }
+    case 'number_decimal': {
+      const numDec = parseFloat(value);
+      return isNaN(numDec) ? value : numDec;
+    }
+    case 'date_ymd':
+    case 'date_ymd_dash':
+    case 'date_mdy':
+      // Dateオブジェクトを返す（ExcelJSが日付として認識）
+      return parseDate(value) || value;
+    case 'time': {
+      // 時刻形式の検出（hh:mm:ss または hh:mm）
+      const timeMatch = value.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?/);
+      if (timeMatch) {
+        // 時刻をDateオブジェクトに変換（1900-01-01を基準日として使用）
+        const hours = parseInt(timeMatch[1], 10);
+        const minutes = parseInt(timeMatch[2], 10);
+        const seconds = timeMatch[3] ? parseInt(timeMatch[3], 10) : 0;
+        return new Date(1900, 0, 1, hours, minutes, seconds);
+      }
+      return value;
+    }
+    case 'datetime': {
+      const dateTime = parseDate(value);
+      // 日時形式の検出（yyyy/mm/dd hh:mm:ss など）
+      const dateTimeMatch = value.match(/(\d{4}[\/\-]\d{1,2}[\/\-]\d{1,2})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?/);
+      if (dateTimeMatch) {
+        const datePart = parseDate(dateTimeMatch[1]);
+        if (datePart) {
+          const hours = parseInt(dateTimeMatch[2], 10);
+          const minutes = parseInt(dateTimeMatch[3], 10);
+          const seconds = dateTimeMatch[4] ? parseInt(dateTimeMatch[4], 10) : 0;
+          datePart.setHours(hours, minutes, seconds);
+          return datePart;
+        }
+      }
+      return dateTime || value;
+    }
+    case 'currency_jpy':
+    case 'currency_usd':
+    case 'currency_eur': {
+      const currencyNum = parseFloat(value.replace(/[¥$€,\s]/g, ''));
+      return isNaN(currencyNum) ? value : currencyNum;
+    }
+    case 'percent': {
+      const percentNum = parseFloat(value.replace(/[%,\s]/g, ''));
+      return isNaN(percentNum) ? value : percentNum / 100;
+    }
+    default:
+      return value;
+  }
+}
+
+// 指定した列の合計行（小数点以下を含む列は小数点以下2桁で表示する）
+function totalColumns(data: TableData, indices: number[], hasDecimal: (colIdx: number) => boolean): TotalColumns {
+  return {
+    indices,
+    hasDecimalPlaces: indices.map(colIdx =>
+      hasDecimal(colIdx) || data.rows.some(row => {
+        const num = parseFloat(row[colIdx] || '');
+        return !isNaN(num) && num % 1 !== 0;
+      })
+    ),
+    totals: data.headers.map((_, idx) => {
+      if (indices.includes(idx)) {
+        return data.rows.reduce((acc, row) => acc + (parseFloat(row[idx] || '0') || 0), 0);
+      }
+      return idx === 0 ? '合計' : '';
+    }),
+  };
+}
+
+// 比較結果の金額列（比較列・差額列と、勘定科目らしい名前の左側の列）
+export function getAmountColumns(data: TableData, compareColumns: CompareColumn[]): TotalColumns {
+  const amountColumnHeaders = new Set<string>();
+  compareColumns.forEach(col => {
+    if (col.left && col.right) {
+      amountColumnHeaders.add(`L__${col.left}`);
+      amountColumnHeaders.add(`R__${col.right}`);
+      if (col.label) {
+        amountColumnHeaders.add(col.label);
+      }
+    }
+  });
+  const indices = data.headers
+    .map((header, idx) => {
+      const isAmountColumn = amountColumnHeaders.has(header) ||
+        compareColumns.some(col => col.label === header) ||
+        (header.includes('L__') && ['残高', '借方', '貸方', '金額', '発生'].some(word => header.includes(word)));
+      return isAmountColumn ? idx : -1;
+    })
+    .filter(idx => idx !== -1);
+  return totalColumns(data, indices, () => false);
+}
+
+// 分割結果の数値列（数値・通貨の形式を指定した列と、数値列に指定した列）
+export function getNumericColumns(data: TableData, columnFormats: Record<string, DataFormat>, numericColumns: string[]): TotalColumns {
+  const formatOf = (colIdx: number) => columnFormats[data.headers[colIdx]] || 'text';
+  const indices = data.headers
+    .map((header, idx) => (numericFormats.includes(formatOf(idx)) || numericColumns.includes(header) ? idx : -1))
+    .filter(idx => idx !== -1);
+  // 小数点を含む形式は常に小数点以下を表示
+  return totalColumns(data, indices, colIdx => ['number_decimal', 'currency_usd', 'currency_eur'].includes(formatOf(colIdx)));
+}
+
+// 1シートの表を書き込む（データ形式・元ファイルの型付きの値・合計行・ヘッダー色・罫線・列幅）
+function writeTableSheet(
+  worksheet: Worksheet,
+  data: TableData,
+  columnFormats: Record<string, DataFormat>,
+  numeric: TotalColumns,
+  isNumericColumn: (header: string, idx: number) => boolean,
+  showTotal: boolean,
+  options: ExcelOptions
+): void {
+  worksheet.addRow(data.headers);
+
+  data.rows.forEach((row, rowIdx) => {
+    worksheet.addRow(row.map((cell, idx) => {
+      const header = data.headers[idx];
+      // 元ファイルの型付きの値をそのまま出力（データ形式が指定されていない場合のみ）
+      const typed = data.cells?.[rowIdx]?.[idx];
+      if (!columnFormats[header] && typed) {
+        return toExcelValue(typed);
+      }
+      // 既存の金額列・数値列の処理（後方互換性のため）
+      if (isNumericColumn(header, idx)) {
+        const num = parseFloat(cell || '0');
+        if (!isNaN(num)) {
+          return num;
+        }
+      }
+      return convertValueByFormat(cell, columnFormats[header] || 'text');
+    }));
+  });
+
+  if (showTotal) {
+    worksheet.addRow(numeric.totals);
+  }
+
+  const totalRowNumber = showTotal ? data.rows.length + 2 : data.rows.length + 1;
+  worksheet.eachRow((row, rowNumber) => {
+    row.eachCell((cell, colNumber) => {
+      // ヘッダー行（1行目）に色を付ける
+      if (rowNumber === 1 && options.headerColor) {
+        cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: headerArgb(options) } };
+        cell.font = { bold: true, color: { argb: 'FF000000' } };
+      }
+      if (options.borders) {
+        cell.border = { top: thinBorder, bottom: thinBorder, left: thinBorder, right: thinBorder };
+      }
+
+      const header = data.headers[colNumber - 1];
+      const format = columnFormats[header] || 'text';
+      if (rowNumber > 1 && rowNumber <= totalRowNumber) {
+        // データ形式に応じてnumFmtを設定
+        const formatDef = format !== 'text' ? dataFormats.find(f => f.id === format) : undefined;
+        if (formatDef) {
+          cell.numFmt = formatDef.excelFormat;
+        }
+        // 既存の金額列・数値列の処理（形式が指定されていない場合のみ）
+        const numericIdx = numeric.indices.indexOf(colNumber - 1);
+        if (!columnFormats[header] && numericIdx !== -1) {
+          cell.numFmt = numeric.hasDecimalPlaces[numericIdx] ? '#,##0.00' : '#,##0';
+        }
+      }
+
+      // 元ファイルの表示形式を引き継ぐ（データ形式が指定されていない場合のみ）
+      const typed = rowNumber > 1 ? data.cells?.[rowNumber - 2]?.[colNumber - 1] : null;
+      const sourceNumFmt = typed && getCellNumFmt(typed);
+      if (!columnFormats[header] && sourceNumFmt) {
+        cell.numFmt = sourceNumFmt;
+      }
+    });
+  });
+
+  // 列幅を自動調整（ヘッダーは1文字を2として計算、余裕を持たせて+2、最小幅10、最大幅50）
+  worksheet.columns = data.headers.map((header, colIdx) => {
+    let maxWidth = header.length * 2;
+    data.rows.forEach(row => {
+      maxWidth = Math.max(maxWidth, displayWidth(row[colIdx] || ''));
+    });
+    const total = numeric.totals[colIdx];
+    if (showTotal && total !== undefined && total !== '') {
+      maxWidth = Math.max(maxWidth, displayWidth(String(total)));
+    }
+    return { width: Math.min(Math.max(maxWidth + 2, 10), 50) };
+  });
+}
+
+// 統合した比較結果のブック（highlights は data の行と同じ順序。一致状況の色分け・差分セルのコメント・凡例シート）
+export function buildMergedWorkbook(
+  ExcelJS: ExcelJSModule,
+  data: TableData,
+  highlights: RowHighlight[],
+  compareColumns: CompareColumn[],
+  columnFormats: Record<string, DataFormat>,
+  options: ExcelOptions
+): Workbook {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet('Sheet1');
+  const amount = getAmountColumns(data, compareColumns);
+  writeTableSheet(worksheet, data, columnFormats, amount, (_, idx) => amount.indices.includes(idx), options.showTotal, options);
+
+  // 一致状況で行を色分けし、差分のあるセルを強調してもう一方の値をコメントに表示
+  if (options.highlightDiffs) {
+    highlights.forEach((highlight, rowIdx) => {
+      const style = matchCategoryStyles.find(s => s.id === highlight.category);
+      worksheet.getRow(rowIdx + 2).eachCell((cell, colNumber) => {
+        const header = data.headers[colNumber - 1];
+        const diffPair = highlight.diffPairs.find(pair => pair.left === header || pair.right === header);
+        if (diffPair) {
+          cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: DIFF_CELL_ARGB } };
+          cell.font = { bold: true, color: { argb: DIFF_FONT_ARGB } };
+          cell.note = header === diffPair.left
+            ? `右側（${diffPair.right.slice(3)}）の値: ${highlight.valueOf(diffPair.right) || '（空）'}`
+            : `左側（${diffPair.left.slice(3)}）の値: ${highlight.valueOf(diffPair.left) || '（空）'}`;
+        } else if (style) {
+          cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: style.argb } };
+        }
+      });
+    });
+
+    // 凡例シート
+    const legend = workbook.addWorksheet('凡例');
+    legend.addRow(['色', '分類', '説明']);
+    matchCategoryStyles.forEach(style => legend.addRow(['', style.name, style.description]));
+    legend.addRow(['', '差分セル', '左右で値が異なるセル（diff_cols）。コメントにもう一方の値を表示']);
+    legend.getRow(1).font = { bold: true };
+    [...matchCategoryStyles.map(style => style.argb), DIFF_CELL_ARGB].forEach((argb, idx) => {
+      legend.getCell(idx + 2, 1).fill = { type: 'pattern', pattern: 'solid', fgColor: { argb } };
+    });
+    legend.getCell(matchCategoryStyles.length + 2, 2).font = { bold: true, color: { argb: DIFF_FONT_ARGB } };
+    legend.columns = [{ width: 8 }, { width: 12 }, { width: 60 }];
+  }
+
+  return workbook;
+}
+
+// 分割した1つ分の表を書き込む（合計行は数値列がある場合のみ）
+function writeSplitSheet(
+  worksheet: Worksheet,
+  data: TableData,
+  columnFormats: Record<string, DataFormat>,
+  numericColumns: string[],
+  options: ExcelOptions
+): void {
+  const numeric = getNumericColumns(data, columnFormats, numericColumns);
+  writeTableSheet(
+    worksheet,
+    data,
+    columnFormats,
+    numeric,
+    header => !columnFormats[header] && numericColumns.includes(header),
+    options.showTotal && numeric.indices.length > 0,
+    options
+  );
+}
+
+// 分割した1ファイル分のブック
+export function buildSplitWorkbook(
+  ExcelJS: ExcelJSModule,
+  data: TableData,
+  columnFormats: Record<string, DataFormat>,
+  numericColumns: string[],
+  options: ExcelOptions
+): Workbook {
+  const workbook = new ExcelJS.Workbook();
+  writeSplitSheet(workbook.addWorksheet('Sheet1'), data, columnFormats, numericColumns, options);
+  return workbook;
+}
+
+// 分割結果の出力形式（キーごとのファイルのzip・キーごとのシートの1ブック・両方。両方の場合は1ブックをzipに含める）
+export type SplitOutputMode = 'zip' | 'workbook' | 'both';
+
+export const splitOutputModes: { id: SplitOutputMode; name: string }[] = [
+  { id: 'zip', name: 'キーごとのファイル（zip）' },
+  { id: 'workbook', name: 'キーごとのシート（1つのブック）' },
+  { id: 'both', name: '両方（1つのブックもzipに含める）' },
+];
+
+// 1つのブックに出力する場合の一覧シートの名前
+export const SPLIT_INDEX_SHEET_NAME = '一覧';
+
+// キーごとのシートの名前（一覧シートの名前とは重ならない）
+export function getSplitSheetNames(parts: { key_value: string }[]): string[] {
+  const used = new Set([SPLIT_INDEX_SHEET_NAME.toLowerCase()]);
+  return parts.map(part => toSheetName(part.key_value, used));
+}
+
+// キーごとのシートと、キー・行数・シートへのリンクの一覧シートを持つ1つのブック
+export function buildSplitBook(
+  ExcelJS: ExcelJSModule,
+  parts: { key_value: string; table: TableData }[],
+  columnFormats: Record<string, DataFormat>,
+  numericColumns: string[],
+  options: ExcelOptions
+): Workbook {
+  const workbook = new ExcelJS.Workbook();
+  const sheetNames = getSplitSheetNames(parts);
+
+  const index = workbook.addWorksheet(SPLIT_INDEX_SHEET_NAME);
+  index.addRow(['キー', 'シート', '行数']);
+  parts.forEach((part, i) => {
+    const row = index.addRow([part.key_value, '', part.table.rows.length]);
+    row.getCell(2).value = { text: sheetNames[i], hyperlink: `#'${sheetNames[i].replace(/'/g, "''")}'!A1` };
+    row.getCell(2).font = { color: { argb: 'FF0563C1' }, underline: true };
+    row.getCell(3).numFmt = '#,##0';
+  });
+  const total = index.addRow(['合計', '', parts.reduce((sum, part) => sum + part.table.rows.length, 0)]);
+  total.font = { bold: true };
+  total.getCell(3).numFmt = '#,##0';
+  index.eachRow((row, rowNumber) => {
+    row.eachCell({ includeEmpty: true }, (cell) => {
+      if (rowNumber === 1 && options.headerColor) {
+        cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: headerArgb(options) } };
+        cell.font = { bold: true, color: { argb: 'FF000000' } };
+      }
+      if (options.borders) {
+        cell.border = { top: thinBorder, bottom: thinBorder, left: thinBorder, right: thinBorder };
+      }
+    });
+  });
+  index.columns = [
+    { width: Math.min(Math.max(...parts.map(part => displayWidth(part.key_value)), 10) + 2, 50) },
+    { width: Math.min(Math.max(...sheetNames.map(displayWidth), 10) + 2, 50) },
+    { width: 12 },
+  ];
+  index.views = [{ state: 'frozen', ySplit: 1 }];
+
+  parts.forEach((part, i) => {
+    writeSplitSheet(workbook.addWorksheet(sheetNames[i]), part.table, columnFormats, numericColumns, options);
+  });
+  return workbook;
+}
+
+// 分割したファイルをまとめたzip（ファイル名はキーの値）
+export async function buildSplitZip(
+  ExcelJS: ExcelJSModule,
+  parts: { key_value: string; table: TableData }[],
+  columnFormats: Record<string, DataFormat>,
+  numericColumns: string[],
+  options: ExcelOptions,
+  bookFileName?: string // 指定した場合は、キーごとのシートの1つのブック（buildSplitBook）もこの名前で含める
+): Promise<Uint8Array> {
+  const zip = new JSZip();
+  for (const part of parts) {
+    const workbook = buildSplitWorkbook(ExcelJS, part.table, columnFormats, numericColumns, options);
+    zip.file(`${toSafeFileName(part.key_value)}.xlsx`, await workbook.xlsx.writeBuffer());
+  }
+  if (bookFileName) {
+    const book = buildSplitBook(ExcelJS, parts, columnFormats, numericColumns, options);
+    zip.file(bookFileName, await book.xlsx.writeBuffer());
+  }
+  return zip.generateAsync({ type: 'uint8array' });
+}
+
+const yesNo = (value: boolean) => (value ? 'はい' : 'いいえ');
+
+const describeRule = (rule: ColumnRule): string => {
+  const name = columnRuleTypes.find(t => t.id === rule.type)?.name ?? rule.type;
+  if (rule.type === 'numeric') return `${name}（許容差 ${rule.abs_tolerance}、相対許容差 ${rule.rel_tolerance * 100}%）`;
+  if (rule.type === 'text') {
+    const flags = [rule.trim && '空白を無視', rule.case_insensitive && '大文字小文字を無視', rule.normalize_width && '全角/半角を無視'].filter(Boolean);
+    return flags.length > 0 ? `${name}（${flags.join('、')}）` : name;
+  }
+  return name;
+};
+
+const describeAggregate = (aggregate: AggregateOptions): string =>
+  aggregate.enabled
+    ? ['有効', ...Object.entries(aggregate.columns).map(([column, fn]) => `${column}: ${aggregateFunctions.find(f => f.id === fn)?.name ?? fn}`)].join(', ')
+    : '無効';
+
+const describeImport = (options: ImportOptions): string =>
+  [
+    options.autoDetectHeader ? 'ヘッダー行: 自動検出' : `ヘッダー行: ${options.headerRow}`,
+    `ヘッダーの行数: ${options.headerRowCount}`,
+    `除外行数: ${options.skipRows}`,
+    `空行で終了: ${yesNo(options.stopAtBlankRow)}`,
+  ].join(', ');
+
+// 監査証跡用のレポート（サマリー・分類ごとのシート・設定シート）。highlights は merged の全行
+export function buildCompareReportWorkbook(
+  ExcelJS: ExcelJSModule,
+  merged: TableData,
+  highlights: RowHighlight[],
+  settings: CompareReportSettings,
+  log: [string, string][],
+  options: ExcelOptions
+): Workbook {
+  const workbook = new ExcelJS.Workbook();
+  const styleHeader = (row: Row) => {
+    row.eachCell((cell) => {
+      if (options.headerColor) {
+        cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: headerArgb(options) } };
+      }
+      cell.font = { bold: true, color: { argb: 'FF000000' } };
+    });
+  };
+
+  const counts = matchCategoryStyles.map(style => ({
+    style,
+    rows: highlights.filter(h => h.category === style.id),
+  }));
+
+  // サマリーシート
+  const summary = workbook.addWorksheet('サマリー');
+  summary.addRow(['突合レポート']).font = { bold: true, size: 14 };
+  summary.addRow([]);
+  [
+    ['比較実行日時', settings.executedAt.toLocaleString('ja-JP')],
+    ['レポート作成日時', new Date().toLocaleString('ja-JP')],
+    ['左側ファイル', settings.leftFileName],
+    ['左側シート', settings.leftSheet],
+    ['左側行数', settings.leftRowCount],
+    ['右側ファイル', settings.rightFileName],
+    ['右側シート', settings.rightSheet],
+    ['右側行数', settings.rightRowCount],
+    ['キー列', settings.keys.map(k => (k.left === k.right ? k.left : `${k.left} = ${k.right}`)).join(', ')],
+    ['重複キーの突合方法', matchModes.find(m => m.id === (settings.options.match_mode ?? 'one_to_one'))?.name ?? ''],
+    ['前後の空白をトリム', yesNo(settings.options.trim)],
+    ['大文字小文字を区別しない', yesNo(settings.options.case_insensitive)],
+  ].forEach(([label, value]) => {
+    summary.addRow([label, value]).getCell(1).font = { bold: true };
+  });
+
+  summary.addRow([]);
+  styleHeader(summary.addRow(['分類', '件数', '説明']));
+  counts.forEach(({ style, rows }) => {
+    const row = summary.addRow([style.name, rows.length, style.description]);
+    row.getCell(1).fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: style.argb } };
+  });
+  summary.addRow(['合計', merged.rows.length]).font = { bold: true };
+  summary.addRow(['差分のある行', highlights.filter(h => h.diffPairs.length > 0).length, '一致した行のうち diff_cols が空でない行']);
+
+  // 比較列ごとの合計
+  if (settings.compareColumns.length > 0) {
+    summary.addRow([]);
+    styleHeader(summary.addRow(['比較列', '左側合計', '右側合計', '差額合計', '数値でないため除いたセル']));
+    settings.compareColumns.forEach(col => {
+      // 型付きの値が数値ならその値、それ以外は「1,234」「¥1,234」なども数値として合計する（空欄は0、数値でない値は除いて件数を出力）
+      const sumOf = (header: string) => {
+        const idx = merged.headers.indexOf(header);
+        let total = 0;
+        let skipped = 0;
+        highlights.forEach(h => {
+          const typed = merged.cells?.[h.rowIdx]?.[idx];
+          const value = h.valueOf(header);
+          const num = typed?.kind === 'number' ? (typed.value as number) : parseAmount(value);
+          if (num !== null) {
+            total += num;
+          } else if (value.trim() !== '') {
+            skipped++;
+          }
+        });
+        return { total, skipped };
+      };
+      const left = sumOf(`L__${col.left}`);
+      const right = sumOf(`R__${col.right}`);
+      const skipped = left.skipped + right.skipped > 0 ? `左側 ${left.skipped} 件・右側 ${right.skipped} 件` : 0;
+      const row = summary.addRow([`${col.label}（${col.left} - ${col.right}）`, left.total, right.total, left.total - right.total, skipped]);
+      [2, 3, 4].forEach(c => { row.getCell(c).numFmt = '#,##0.##'; });
+    });
+  }
+  summary.columns = [{ width: 28 }, { width: 40 }, { width: 40 }, { width: 16 }, { width: 24 }];
+
+  // 分類ごとのシート（すべての列を出力し、差分のあるセルを強調）
+  counts.forEach(({ style, rows }) => {
+    const sheet = workbook.addWorksheet(style.name);
+    styleHeader(sheet.addRow(merged.headers));
+    rows.forEach(h => {
+      const values = merged.rows[h.rowIdx].map((value, c) => {
+        const typed = merged.cells?.[h.rowIdx]?.[c];
+        return typed ? toExcelValue(typed) : value;
+      });
+      const row = sheet.addRow(values);
+      merged.headers.forEach((header, c) => {
+        const cell = row.getCell(c + 1);
+        const typed = merged.cells?.[h.rowIdx]?.[c];
+        const numFmt = typed && getCellNumFmt(typed);
+        if (numFmt) cell.numFmt = numFmt;
+        const diffPair = h.diffPairs.find(pair => pair.left === header || pair.right === header);
+        if (diffPair) {
+          cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: DIFF_CELL_ARGB } };
+          cell.font = { bold: true, color: { argb: DIFF_FONT_ARGB } };
+        }
+      });
+    });
+    sheet.eachRow((row) => {
+      row.eachCell((cell) => {
+        cell.border = { top: thinBorder, bottom: thinBorder, left: thinBorder, right: thinBorder };
+      });
+    });
+    sheet.columns = merged.headers.map((header, c) => ({
+      width: Math.min(Math.max(
+        rows.reduce((max, h) => Math.max(max, displayWidth(merged.rows[h.rowIdx][c] || '')), displayWidth(header)) + 2,
+        10
+      ), 50),
+    }));
+    sheet.views = [{ state: 'frozen', ySplit: 1 }];
+  });
+
+  // 設定シート（エンジンの実行ログと比較の設定）
+  const settingsSheet = workbook.addWorksheet('設定');
+  styleHeader(settingsSheet.addRow(['項目', '値']));
+  [
+    ...log,
+    ['列の対応付け', settings.columnMapping.map(p => `${p.left} = ${p.right}`).join(', ') || 'なし'],
+    ...Object.entries(settings.options.column_rules ?? {}).map(([column, rule]) => [`比較ルール: ${column}`, describeRule(rule)]),
+    ['左側の集計', describeAggregate(settings.leftAggregate)],
+    ['右側の集計', describeAggregate(settings.rightAggregate)],
+    ['左側の読み込み設定', describeImport(settings.leftImportOptions)],
+    ['右側の読み込み設定', describeImport(settings.rightImportOptions)],
+    ...settings.compareColumns.map(col => [`比較列: ${col.label}`, `${col.left} - ${col.right}`]),
+  ].forEach(([label, value]) => settingsSheet.addRow([label, value]));
+  settingsSheet.columns = [{ width: 28 }, { width: 80 }];
+
+  return workbook;
+}
+
+// キーが無いファイルの列の背景色
+const MISSING_CELL_ARGB = 'FFEEEEEE';
+
+// 複数ファイルの比較のレポート（サマリー・ファイルごとの列グループの結果シート・設定シート）
+export function buildMultiCompareReportWorkbook(
+  ExcelJS: ExcelJSModule,
+  data: TableData,
+  groups: MultiCompareColumnGroup[],
+  settings: MultiCompareReportSettings,
+  log: [string, string][],
+  options: ExcelOptions
+): Workbook {
+  const workbook = new ExcelJS.Workbook();
+  const fill = (argb: string) => ({ type: 'pattern' as const, pattern: 'solid' as const, fgColor: { argb } });
+  const styleHeader = (row: Row) => {
+    row.eachCell((cell) => {
+      if (options.headerColor) cell.fill = fill(headerArgb(options));
+      cell.font = { bold: true, color: { argb: 'FF000000' } };
+    });
+  };
+  const counts = countMultiCompare(data, groups);
+  const baseline = settings.files[settings.baseline];
+
+  // サマリーシート
+  const summary = workbook.addWorksheet('サマリー');
+  summary.addRow(['複数ファイル突合レポート']).font = { bold: true, size: 14 };
+  summary.addRow([]);
+  [
+    ['比較実行日時', settings.executedAt.toLocaleString('ja-JP')],
+    ['レポート作成日時', new Date().toLocaleString('ja-JP')],
+    ['基準ファイル', `${baseline.name}（${baseline.sheet}）`],
+    ['キー列', baseline.keys.join(', ')],
+    ['前後の空白をトリム', yesNo(settings.options.trim)],
+    ['大文字小文字を区別しない', yesNo(settings.options.case_insensitive)],
+  ].forEach(([label, value]) => {
+    summary.addRow([label, value]).getCell(1).font = { bold: true };
+  });
+
+  summary.addRow([]);
+  styleHeader(summary.addRow(['ファイル', 'シート', '行数', 'キーあり', '欠落', '基準との差分のある行']));
+  counts.files.forEach((file, i) => {
+    const info = settings.files[i];
+    summary.addRow([
+      `${file.label}: ${file.name}${file.baseline ? '（基準）' : ''}`,
+      info.sheet,
+      info.rowCount,
+      file.present,
+      file.missing,
+      file.baseline ? '' : file.diffRows,
+    ]);
+  });
+
+  summary.addRow([]);
+  styleHeader(summary.addRow(['分類', '件数', '説明']));
+  multiMatchStatusStyles.forEach(style => {
+    const row = summary.addRow([style.name, counts.statuses[style.id], style.description]);
+    row.getCell(1).fill = fill(style.argb);
+  });
+  summary.addRow(['合計', counts.total]).font = { bold: true };
+  summary.columns = [{ width: 36 }, { width: 24 }, { width: 12 }, { width: 12 }, { width: 12 }, { width: 22 }];
+
+  // 結果シート（1行目にファイル名、2行目に列名。ファイルごとに 有無・列・差分列 をまとめる）
+  const sheet = workbook.addWorksheet('比較結果');
+  const statusIdx = data.headers.indexOf('match_status');
+  const dupIdx = data.headers.indexOf('dup_key_flag');
+  const groupOf = new Map<number, MultiCompareColumnGroup>();
+  groups.forEach(group => {
+    [group.presentIdx, ...group.columns.map(c => c.idx), group.diffIdx].filter(idx => idx !== -1).forEach(idx => groupOf.set(idx, group));
+  });
+  const columnName = (header: string, idx: number): string => {
+    const group = groupOf.get(idx);
+    if (idx === 0) return 'キー';
+    if (idx === statusIdx) return '一致状況';
+    if (idx === dupIdx) return '重複キー';
+    if (!group) return header;
+    if (idx === group.presentIdx) return '有無';
+    if (idx === group.diffIdx) return '差分列';
+    return group.columns.find(c => c.idx === idx)?.header ?? header;
+  };
+  const topRow = sheet.addRow(data.headers.map((_, idx) => {
+    const group = groupOf.get(idx);
+    return group ? `${group.label}: ${group.name}${group.baseline ? '（基準）' : ''}` : columnName(data.headers[idx], idx);
+  }));
+  const headerRow = sheet.addRow(data.headers.map(columnName));
+  styleHeader(topRow);
+  styleHeader(headerRow);
+  // ファイル名を列グループの上で結合し、グループ外の列は2行を結合
+  groups.forEach(group => {
+    const indices = [...groupOf.entries()].filter(([, g]) => g === group).map(([idx]) => idx);
+    sheet.mergeCells(1, Math.min(...indices) + 1, 1, Math.max(...indices) + 1);
+  });
+  data.headers.forEach((_, idx) => {
+    if (!groupOf.has(idx)) sheet.mergeCells(1, idx + 1, 2, idx + 1);
+  });
+  topRow.alignment = { horizontal: 'center', vertical: 'middle' };
+
+  const statusStyle = new Map(multiMatchStatusStyles.map(style => [style.id as string, style]));
+  data.rows.forEach((values, rowIdx) => {
+    const diffCells = getMultiDiffCells(values, groups);
+    const row = sheet.addRow(values.map((value, idx) => {
+      const group = groupOf.get(idx);
+      if (idx === statusIdx) return statusStyle.get(value)?.name ?? value;
+      if (idx === dupIdx) return value === '1' ? 'はい' : '';
+      if (group && idx === group.presentIdx) return value === '1' ? 'あり' : 'なし';
+      const typed = data.cells?.[rowIdx]?.[idx];
+      return typed ? toExcelValue(typed) : value;
+    }));
+    values.forEach((value, idx) => {
+      const cell = row.getCell(idx + 1);
+      const typed = data.cells?.[rowIdx]?.[idx];
+      const numFmt = typed && getCellNumFmt(typed);
+      if (numFmt) cell.numFmt = numFmt;
+      if (options.borders) {
+        cell.border = { top: thinBorder, bottom: thinBorder, left: thinBorder, right: thinBorder };
+      }
+      if (!options.highlightDiffs) return;
+      const group = groupOf.get(idx);
+      if (diffCells.has(idx) && group) {
+        // 基準ファイルと値が異なるセル（コメントに基準ファイルの値を表示）
+        const baseHeader = [...group.diffColumns.entries()].find(([, i]) => i === idx)?.[0] ?? '';
+        const baseIdx = groups[settings.baseline].columns.find(c => c.header === baseHeader)?.idx ?? -1;
+        cell.fill = fill(DIFF_CELL_ARGB);
+        cell.font = { bold: true, color: { argb: DIFF_FONT_ARGB } };
+        cell.note = `基準（${baseHeader}）の値: ${values[baseIdx] || '（空）'}`;
+      } else if (group && values[group.presentIdx] !== '1') {
+        cell.fill = fill(MISSING_CELL_ARGB);
+      } else if (idx === statusIdx) {
+        const style = statusStyle.get(value);
+        if (style) cell.fill = fill(style.argb);
+      }
+    });
+  });
+  if (options.borders) {
+    [topRow, headerRow].forEach(row => row.eachCell((cell) => {
+      cell.border = { top: thinBorder, bottom: thinBorder, left: thinBorder, right: thinBorder };
+    }));
+  }
+  sheet.columns = data.headers.map((header, idx) => ({
+    width: Math.min(Math.max(
+      data.rows.reduce((max, row) => Math.max(max, displayWidth(row[idx] || '')), displayWidth(columnName(header, idx))) + 2,
+      8
+    ), 50),
+  }));
+  sheet.views = [{ state: 'frozen', xSplit: 1, ySplit: 2 }];
+
+  // 設定シート（エンジンの実行ログと比較の設定）
+  const settingsSheet = workbook.addWorksheet('設定');
+  styleHeader(settingsSheet.addRow(['項目', '値']));
+  [
+    ...log,
+    ...settings.files.map((file, i) => [
+      `${groups[i].label}: ${file.name}`,
+      `シート: ${file.sheet}, キー列: ${file.keys.join(', ')}, 列の対応付け: ${file.columnMapping.map(p => `${p.left} = ${p.right}`).join(', ') || 'なし'}`,
+    ]),
+    ...Object.entries(settings.options.column_rules ?? {}).map(([column, rule]) => [`比較ルール: ${column}`, describeRule(rule)]),
+  ].forEach(([label, value]) => settingsSheet.addRow([label, value]));
+  settingsSheet.columns = [{ width: 28 }, { width: 80 }];
+
+  return workbook;
+}
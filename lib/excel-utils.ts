@@ -1,43 +1,315 @@
 import * as XLSX from 'xlsx';
+import { isCsvFile, readCsvBook, defaultCsvOptions, type CsvOptions, type CsvDetection } from './csv-utils';
+import type { LargeFileOptions, XlsxStreamSource } from './xlsx-stream';
+
+// セルの種類（数式セルは計算結果の種類で表し、formulaに数式を保持）
+export type CellKind = 'string' | 'number' | 'boolean' | 'date' | 'error';
+
+// 型付きのセル値
+export interface CellValue {
+  kind: CellKind;
+  value: string | number | boolean; // 日付は yyyy-mm-ddThh:mm:ss 形式
+  formula?: string;                 // 数式（valueは計算結果）
+  num_fmt?: string;                 // 元シートの表示形式
+}
 
 export interface TableData {
   headers: string[];
-  rows: string[][];
-}
-
-export function readExcelFile(file: File): Promise<TableData> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        const firstSheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[firstSheetName];
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: '' }) as any[][];
-
-        if (jsonData.length === 0) {
-          reject(new Error('ファイルが空です'));
-          return;
-        }
-
-        const headers = jsonData[0].map((cell: any) => String(cell || ''));
-        const rows = jsonData.slice(1).map((row: any[]) => row.map((cell: any) => String(cell || '')));
-
-        resolve({ headers, rows });
-      } catch (error) {
-        reject(error);
+  rows: string[][];                 // 比較・表示用の文字列
+  cells?: (CellValue | null)[][];   // rowsと同じ並びの型付きの値（nullは通常の文字列セル）
+}
+
+// シートの情報（シート選択用）
+export interface SheetInfo {
+  name: string;
+  rowCount: number;
+  columnCount: number;
+  estimated?: boolean; // 行数がシートの先頭部分からの推定値
+}
+
+// 読み込んだブック（シートは選択時に展開する）
+export interface ExcelBook {
+  fileName: string;
+  sheets: SheetInfo[];
+  workbook: XLSX.WorkBook;
+  csv?: CsvDetection; // CSV/TSVの場合の文字コード・区切り文字
+  stream?: XlsxStreamSource; // 大きなxlsxを逐次読み込みする場合（workbookにはシート名のみ）
+}
+
+// シートの使用範囲から行数・列数を取得
+function getSheetInfo(workbook: XLSX.WorkBook, name: string): SheetInfo {
+  const ref = workbook.Sheets[name]?.['!ref'];
+  if (!ref) {
+    return { name, rowCount: 0, columnCount: 0 };
+  }
+  const range = XLSX.utils.decode_range(ref);
+  return {
+    name,
+    rowCount: range.e.r - range.s.r + 1,
+    columnCount: range.e.c - range.s.c + 1,
+  };
+}
+
+export async function readExcelBook(file: File): Promise<ExcelBook> {
+  // FileReader ではなく Blob.arrayBuffer で読み込む（Nodeのコマンドラインからも使用するため）
+  const data = new Uint8Array(await file.arrayBuffer());
+  const workbook = XLSX.read(data, { type: 'array', cellNF: true });
+  const sheets = workbook.SheetNames.map(name => getSheetInfo(workbook, name));
+
+  if (sheets.every(sheet => sheet.rowCount === 0)) {
+    throw new Error('ファイルが空です');
+  }
+
+  return { fileName: file.name, sheets, workbook };
+}
+
+// 拡張子に応じてExcelまたはCSV/TSVとして読み込む（大きなxlsxはシートを逐次読み込みする）
+export async function readBookFile(
+  file: File,
+  csvOptions: CsvOptions = defaultCsvOptions,
+  largeFileOptions?: LargeFileOptions
+): Promise<ExcelBook> {
+  if (isCsvFile(file)) {
+    return readCsvBook(file, csvOptions);
+  }
+  const { openStreamingBook, shouldStream } = await import('./xlsx-stream');
+  if (largeFileOptions && shouldStream(file, largeFileOptions)) {
+    return openStreamingBook(file);
+  }
+  return readExcelBook(file);
+}
+
+// 初期選択するシート（先頭から見て最初にデータがあるシート）
+export function getDefaultSheetName(book: ExcelBook): string {
+  const sheet = book.sheets.find(s => s.rowCount > 0) || book.sheets[0];
+  return sheet.name;
+}
+
+// 読み込み設定（ヘッダー行とデータ範囲）
+export interface ImportOptions {
+  headerRow: number;        // ヘッダー行（1始まりの行番号）
+  headerRowCount: number;   // ヘッダーの行数（2以上で「売上|4月」のように結合）
+  autoDetectHeader: boolean; // ヘッダー行を自動検出する
+  skipRows: number;         // ヘッダー直後に読み飛ばす行数
+  stopAtBlankRow: boolean;  // 最初の空行でデータを打ち切る
+}
+
+export const defaultImportOptions: ImportOptions = {
+  headerRow: 1,
+  headerRowCount: 1,
+  autoDetectHeader: false,
+  skipRows: 0,
+  stopAtBlankRow: false,
+};
+
+// ヘッダー自動検出で調べる先頭行数
+export const HEADER_DETECT_ROWS = 50;
+
+export const isBlankRow = (row: string[]): boolean => row.every(cell => cell.trim() === '');
+
+const pad2 = (n: number): string => n.toString().padStart(2, '0');
+
+// セルの値を表示用の文字列と型付きの値に変換
+export function readCell(cell: XLSX.CellObject | undefined, date1904: boolean): { text: string; typed: CellValue | null } {
+  if (!cell || cell.t === 'z' || cell.v === undefined || cell.v === null) {
+    return { text: '', typed: null };
+  }
+  const numFmt = cell.z !== undefined && cell.z !== 'General' ? String(cell.z) : undefined;
+  let text: string;
+  let typed: CellValue | null;
+
+  if (cell.t === 'n' && numFmt && XLSX.SSF.is_date(numFmt)) {
+    const d = XLSX.SSF.parse_date_code(cell.v as number, { date1904 });
+    // 1未満のシリアル値は時刻のみ（日付部分はExcelの基準日 1899/12/30 とする）
+    const timeOnly = (cell.v as number) < 1;
+    const ymd = timeOnly ? '1899-12-30' : `${d.y}-${pad2(d.m)}-${pad2(d.d)}`;
+    const hms = `${pad2(d.H)}:${pad2(d.M)}:${pad2(d.S)}`;
+    const hasTime = d.H !== 0 || d.M !== 0 || d.S !== 0;
+    text = timeOnly ? hms : hasTime ? `${ymd.replace(/-/g, '/')} ${hms}` : ymd.replace(/-/g, '/');
+    typed = { kind: 'date', value: `${ymd}T${hms}`, num_fmt: numFmt };
+  } else if (cell.v instanceof Date) {
+    const v = cell.v;
+    const ymd = `${v.getFullYear()}-${pad2(v.getMonth() + 1)}-${pad2(v.getDate())}`;
+    const hms = `${pad2(v.getHours())}:${pad2(v.getMinutes())}:${pad2(v.getSeconds())}`;
+    text = ymd.replace(/-/g, '/');
+    typed = { kind: 'date', value: `${ymd}T${hms}`, num_fmt: numFmt };
+  } else if (cell.t === 'n') {
+    text = String(cell.v);
+    typed = { kind: 'number', value: cell.v as number, num_fmt: numFmt };
+  } else if (cell.t === 'b') {
+    text = String(cell.v);
+    typed = { kind: 'boolean', value: cell.v as boolean };
+  } else if (cell.t === 'e') {
+    text = cell.w || '#ERROR';
+    typed = { kind: 'error', value: text };
+  } else {
+    text = String(cell.v);
+    typed = null;
+  }
+
+  if (cell.f) {
+    typed = { ...(typed || { kind: 'string', value: text }), formula: cell.f };
+  }
+  return { text, typed };
+}
+
+// シートを1行目からの2次元配列として取得（配列の添字 = 行番号 - 1）
+function getSheetRows(worksheet: XLSX.WorkSheet, date1904 = false): { rows: string[][]; cells: (CellValue | null)[][]; startColumn: number } {
+  const ref = worksheet['!ref'];
+  if (!ref) {
+    return { rows: [], cells: [], startColumn: 0 };
+  }
+  const range = XLSX.utils.decode_range(ref);
+  const rows: string[][] = [];
+  const cells: (CellValue | null)[][] = [];
+  for (let r = 0; r <= range.e.r; r++) {
+    const row: string[] = [];
+    const cellRow: (CellValue | null)[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const { text, typed } = readCell(worksheet[XLSX.utils.encode_cell({ r, c })], date1904);
+      row.push(text);
+      cellRow.push(typed);
+    }
+    rows.push(row);
+    cells.push(cellRow);
+  }
+  return { rows, cells, startColumn: range.s.c };
+}
+
+// 結合セルの値を結合範囲全体に展開（複数行ヘッダーの上段を各列に行き渡らせる）
+export function fillMergedCells(merges: XLSX.Range[], rows: string[][], startColumn: number, fromRow: number, toRow: number): void {
+  for (const merge of merges) {
+    if (merge.e.r < fromRow || merge.s.r > toRow) continue;
+    const value = rows[merge.s.r]?.[merge.s.c - startColumn] ?? '';
+    for (let r = Math.max(merge.s.r, fromRow); r <= Math.min(merge.e.r, toRow); r++) {
+      if (!rows[r]) continue;
+      for (let c = merge.s.c - startColumn; c <= merge.e.c - startColumn; c++) {
+        if (c >= 0) rows[r][c] = value;
+      }
+    }
+  }
+}
+
+// ヘッダー行の検出（空でない値が過半数で、重複がなく、数値以外が多い最初の行）
+export function findHeaderRow(rows: string[][]): number {
+  const scanRows = rows.slice(0, HEADER_DETECT_ROWS);
+  const width = Math.max(0, ...scanRows.map(row => row.filter(cell => cell.trim() !== '').length));
+  if (width === 0) return 1;
+
+  const idx = scanRows.findIndex(row => {
+    const values = row.map(cell => cell.trim()).filter(cell => cell !== '');
+    if (values.length === 0 || values.length < width * 0.5) return false;
+    if (new Set(values).size !== values.length) return false;
+    const textCount = values.filter(value => isNaN(Number(value.replace(/,/g, '')))).length;
+    return textCount >= values.length * 0.5;
+  });
+  return idx === -1 ? 1 : idx + 1;
+}
+
+export function detectHeaderRow(book: ExcelBook, sheetName: string): number {
+  if (book.stream) {
+    return findHeaderRow(book.stream.previews[sheetName] ?? []);
+  }
+  const worksheet = book.workbook.Sheets[sheetName];
+  if (!worksheet) return 1;
+  return findHeaderRow(getSheetRows(worksheet).rows);
+}
+
+// 複数行のヘッダーを「上段|下段」の形で1行にまとめる
+export function flattenHeaderRows(headerRows: string[][]): string[] {
+  const width = Math.max(0, ...headerRows.map(row => row.length));
+  return Array.from({ length: width }, (_, col) => {
+    const parts: string[] = [];
+    for (const row of headerRows) {
+      const value = (row[col] || '').trim();
+      // 縦方向の結合セルで同じ値が続く場合は1つにまとめる
+      if (value && parts[parts.length - 1] !== value) {
+        parts.push(value);
       }
-    };
-    reader.onerror = reject;
-    reader.readAsArrayBuffer(file);
+    }
+    return parts.join('|');
   });
 }
 
+// ヘッダーの範囲（0始まりの行番号）。自動検出の場合は先頭の HEADER_DETECT_ROWS 行だけを見る
+export function resolveHeaderRange(sheetRows: string[][], options: ImportOptions): { headerRow: number; headerStart: number; headerEnd: number } {
+  // 指定行より前に使用されている行がない場合は、最初の使用行をヘッダーとする
+  const firstUsedRow = sheetRows.findIndex(row => !isBlankRow(row)) + 1;
+  const headerRow = options.autoDetectHeader
+    ? findHeaderRow(sheetRows)
+    : Math.max(1, options.headerRow, firstUsedRow);
+  const headerStart = headerRow - 1;
+  return { headerRow, headerStart, headerEnd: headerStart + Math.max(1, options.headerRowCount) - 1 };
+}
+
+export function getSheetTable(book: ExcelBook, sheetName: string, options: ImportOptions = defaultImportOptions): TableData {
+  const worksheet = book.workbook.Sheets[sheetName];
+  if (!worksheet) {
+    throw new Error(`シートが見つかりません: ${sheetName}`);
+  }
+  const date1904 = !!book.workbook.Workbook?.WBProps?.date1904;
+  const { rows: sheetRows, cells: sheetCells, startColumn } = getSheetRows(worksheet, date1904);
+
+  if (sheetRows.length === 0) {
+    throw new Error(`シートが空です: ${sheetName}`);
+  }
+
+  const { headerRow, headerStart, headerEnd } = resolveHeaderRange(sheetRows, options);
+  if (headerStart >= sheetRows.length) {
+    throw new Error(`ヘッダー行（${headerRow}行目）がシートの範囲外です: ${sheetName}`);
+  }
+
+  if (headerEnd > headerStart) {
+    fillMergedCells(worksheet['!merges'] || [], sheetRows, startColumn, headerStart, headerEnd);
+  }
+  const headers = headerEnd > headerStart
+    ? flattenHeaderRows(sheetRows.slice(headerStart, headerEnd + 1))
+    : sheetRows[headerStart];
+
+  const dataStart = headerEnd + 1 + Math.max(0, options.skipRows);
+  let rows = sheetRows.slice(dataStart);
+  let cells = sheetCells.slice(dataStart);
+  if (options.stopAtBlankRow) {
+    const blankIdx = rows.findIndex(isBlankRow);
+    if (blankIdx !== -1) {
+      rows = rows.slice(0, blankIdx);
+      cells = cells.slice(0, blankIdx);
+    }
+  }
+
+  // 文字列セルのみの場合（CSVなど）は型付きの値を持たない
+  const hasTypedCells = cells.some(row => row.some(cell => cell !== null));
+  return hasTypedCells ? { headers, rows, cells } : { headers, rows };
+}
+
+export async function readExcelFile(file: File, sheetName?: string, options?: ImportOptions): Promise<TableData> {
+  const book = await readBookFile(file);
+  return getSheetTable(book, sheetName ?? getDefaultSheetName(book), options);
+}
+
+// 型付きの値をExcelJSのセル値に変換（日付はタイムゾーンの影響を受けないようUTCで作成）
+export function toExcelValue(cell: CellValue): string | number | boolean | Date | { error: string } {
+  switch (cell.kind) {
+    case 'date': {
+      const m = String(cell.value).match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})$/);
+      if (!m) return String(cell.value);
+      return new Date(Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]));
+    }
+    case 'error':
+      return { error: String(cell.value) };
+    default:
+      return cell.value;
+  }
+}
+
+// 型付きの値に対応するExcelの表示形式（表示形式のない日付は yyyy/mm/dd）
+export function getCellNumFmt(cell: CellValue): string | undefined {
+  return cell.num_fmt || (cell.kind === 'date' ? 'yyyy/mm/dd' : undefined);
+}
+
 export function writeExcelFile(data: TableData, filename: string): void {
   const worksheet = XLSX.utils.aoa_to_sheet([data.headers, ...data.rows]);
   const workbook = XLSX.utils.book_new();
   XLSX.utils.book_append_sheet(workbook, worksheet, 'Sheet1');
   XLSX.writeFile(workbook, filename);
 }
-
@@ -0,0 +1,133 @@
+// 比較・分割のAPI（app/api/compare, app/api/split）の共通処理
+//
+// multipart/form-data の項目を読み取り、結果のファイル・JSONやエラーの応答を作る
+
+import { defaultImportOptions, type ImportOptions } from './excel-utils';
+import { parsePresetFile, type JobPreset } from './presets';
+import type { EngineMode } from './ts-engine';
+import { WasmError, type WasmErrorCode } from './wasm-types';
+
+// リクエストの誤り（400で応答する）
+export class JobRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobRequestError';
+  }
+}
+
+// 比較・分割で共通の項目
+export interface JobRequest {
+  presets: JobPreset[];
+  presetName?: string;
+  engineMode: EngineMode;
+  importOptions: ImportOptions;
+}
+
+// エラーの応答（{error: {code, message, side?, column?, row?}}）
+export interface JobErrorBody {
+  error: {
+    code: WasmErrorCode | 'invalid_request';
+    message: string;
+    side?: 'left' | 'right' | 'input';
+    column?: string;
+    row?: number;
+  };
+}
+
+// 入力データの誤りとして扱うWASMのエラー（それ以外はサーバー側の失敗）
+const inputErrorCodes: WasmErrorCode[] = ['invalid_input', 'key_not_found', 'invalid_cell_data'];
+
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export async function readFormData(request: Request): Promise<FormData> {
+  try {
+    return await request.formData();
+  } catch {
+    throw new JobRequestError('multipart/form-data で送信してください');
+  }
+}
+
+export function getFormText(form: FormData, name: string): string | undefined {
+  const value = form.get(name);
+  if (value === null) return undefined;
+  if (typeof value !== 'string') {
+    throw new JobRequestError(`${name} はテキストで指定してください`);
+  }
+  return value.trim() || undefined;
+}
+
+export function getFormFile(form: FormData, name: string): File {
+  const value = form.get(name);
+  if (!(value instanceof File)) {
+    throw new JobRequestError(`${name} にファイルを指定してください`);
+  }
+  return value;
+}
+
+// format は項目またはクエリ文字列で指定（省略時は最初の値）
+export function getFormat<T extends string>(form: FormData, request: Request, formats: readonly T[], defaultFormat: T = formats[0]): T {
+  const value = getFormText(form, 'format') ?? new URL(request.url).searchParams.get('format') ?? defaultFormat;
+  if (!formats.includes(value as T)) {
+    throw new JobRequestError(`format には ${formats.join(', ')} のいずれかを指定してください: ${value}`);
+  }
+  return value as T;
+}
+
+// job（設定のJSON。テキストまたはファイル）・preset・engine・headerRow・autoHeader を読み取る
+export async function readJobRequest(form: FormData): Promise<JobRequest> {
+  const job = form.get('job');
+  if (job === null) {
+    throw new JobRequestError('job に設定のJSONを指定してください');
+  }
+  const presets = await asRequestError(async () => parsePresetFile(typeof job === 'string' ? job : await job.text()));
+
+  const engineMode = (getFormText(form, 'engine') ?? 'auto') as EngineMode;
+  if (!['auto', 'wasm', 'typescript'].includes(engineMode)) {
+    throw new JobRequestError(`engine には auto, wasm, typescript のいずれかを指定してください: ${engineMode}`);
+  }
+  const headerRowText = getFormText(form, 'headerRow');
+  const headerRow = headerRowText !== undefined ? parseInt(headerRowText, 10) : defaultImportOptions.headerRow;
+  if (!(headerRow >= 1)) {
+    throw new JobRequestError(`headerRow には1以上の行番号を指定してください: ${headerRowText}`);
+  }
+  const autoHeader = getFormText(form, 'autoHeader');
+  return {
+    presets,
+    presetName: getFormText(form, 'preset'),
+    engineMode,
+    importOptions: { ...defaultImportOptions, headerRow, autoDetectHeader: autoHeader === 'true' || autoHeader === '1' },
+  };
+}
+
+// ファイルの読み込み・設定の選択などで発生したエラーをリクエストの誤りにする
+export async function asRequestError<T>(fn: () => T | Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    throw new JobRequestError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+export function fileResponse(data: Uint8Array | ArrayBuffer, fileName: string, contentType: string): Response {
+  // 日本語のファイル名は filename* で渡す（filename はASCIIのみの代替）
+  const asciiName = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  return new Response(new Uint8Array(data), {
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+    },
+  });
+}
+
+export function errorResponse(error: unknown): Response {
+  if (error instanceof JobRequestError) {
+    return Response.json({ error: { code: 'invalid_request', message: error.message } } satisfies JobErrorBody, { status: 400 });
+  }
+  if (error instanceof WasmError) {
+    const status = inputErrorCodes.includes(error.info.code) ? 400 : 500;
+    return Response.json({ error: error.info } satisfies JobErrorBody, { status });
+  }
+  console.error('APIの処理に失敗しました:', error);
+  const message = error instanceof Error ? error.message : String(error);
+  return Response.json({ error: { code: 'internal_error', message } } satisfies JobErrorBody, { status: 500 });
+}
@@ -0,0 +1,356 @@
+// 比較・分割のジョブ（画面で保存する設定と同じ形式）の実行。画面とコマンドラインの両方で使用
+
+import { defaultAggregateOptions, type AggregateOptions } from './aggregate-utils';
+import { resolveRightColumn } from './column-mapping';
+import { runCompare, runSplit, type CompareRequest, type CompareResponse, type MultiCompareRequest } from './compare-pipeline';
+import { applyFuzzyMatches, countHighlights, getRowHighlights, mergeCompareOutput, type CompareColumn, type CompareCounts, type RowHighlight } from './compare-result';
+import { defaultExcelOptions, getSplitSheetNames, toSafeFileName, type CompareReportSettings, type DataFormat, type ExcelOptions, type SplitOutputMode } from './excel-export';
+import { getDefaultSheetName, getSheetTable, readBookFile, type ImportOptions, type TableData } from './excel-utils';
+import { findMatchingPresets, type JobPreset, type PresetKind } from './presets';
+import { filterColumns, reorderRows, sortRowOrder, type SortColumn } from './table-utils';
+import type { Engine, EngineType } from './ts-engine';
+import { defaultFuzzyOptions, WasmError, type ColumnPair, type CompareOptions, type CompareOutput, type FuzzyMatch, type FuzzyOptions } from './wasm-types';
+import { defaultLargeFileOptions, readSheetTableStreaming } from './xlsx-stream';
+
+// 比較の設定（列の選択・順序・形式・ソートは実行後の結果に適用する）
+export interface CompareJobSettings {
+  compareKeys: string[];
+  columnMapping: ColumnPair[];
+  compareColumns: CompareColumn[];
+  compareOptions: CompareOptions;
+  sortByKeys: boolean;
+  leftAggregate: AggregateOptions;
+  rightAggregate: AggregateOptions;
+  fuzzyOptions: FuzzyOptions;
+  selectedColumns: string[];
+  columnOrder: string[];
+  columnFormats: Record<string, DataFormat>;
+  sortColumns: SortColumn[];
+  excel: ExcelOptions;
+}
+
+// 分割の設定
+export interface SplitJobSettings {
+  splitKeys: string[];
+  selectedColumns: string[];
+  columnOrder: string[];
+  numericColumns: string[];
+  columnFormats: Record<string, DataFormat>;
+  sortColumns: SortColumn[];
+  outputMode: SplitOutputMode;
+  excel: ExcelOptions;
+}
+
+// ジョブの入力（読み込んだシートの表と、レポートに記録するファイル名・シート名・読み込み設定）
+export interface JobSource {
+  data: TableData;
+  fileName: string;
+  sheet: string;
+  importOptions: ImportOptions;
+}
+
+// 比較のエンジンの出力（差分セルの判定に使う列の対応付け、あいまい一致の候補と、レポート用の設定を付加）
+export type CompareJobOutput = CompareOutput & { column_mapping: ColumnPair[]; fuzzy_matches: FuzzyMatch[]; report: CompareReportSettings };
+
+export interface CompareJobResult {
+  output: CompareJobOutput;
+  merged: TableData;            // 統合したすべての列・行（ソート前）
+  order: number[];              // merged の行番号を出力順に並べたもの
+  table: TableData;             // 選択した列を出力順に並べた表
+  highlights: RowHighlight[];   // merged の行を出力順に並べた分類と差分セル（table の行と対応）
+  counts: CompareCounts;
+}
+
+export interface SplitJobResult {
+  parts: { key_value: string; table: TableData }[]; // 選択した列を出力順に並べた表
+}
+
+// 結果の概要（コマンドラインの出力・APIの応答のJSON）
+export interface CompareJobSummary extends CompareCounts {
+  kind: 'compare';
+  preset: string;
+  engine: EngineType;
+  left: { file: string; sheet: string; rows: number };
+  right: { file: string; sheet: string; rows: number };
+  fuzzyCandidates: number;     // あいまい一致の候補の数（画面以外では採用しないため、左のみ・右のみに含まれる）
+  maxUnmatched: number | null; // 左のみ・右のみの行数（突合しなかった重複キーの行を含む）の上限
+  passed: boolean;             // 上限以下か（上限が無い場合は常に true）
+}
+
+export interface SplitJobSummary {
+  kind: 'split';
+  preset: string;
+  engine: EngineType;
+  input: { file: string; sheet: string; rows: number };
+  parts: { key: string; rows: number; file: string; sheet: string }[];
+}
+
+// 保存していない項目は画面の初期値とする
+export function resolveCompareJobSettings(settings: Partial<CompareJobSettings>): CompareJobSettings {
+  return {
+    compareKeys: [],
+    columnMapping: [],
+    compareColumns: [],
+    compareOptions: { trim: true, case_insensitive: false, match_mode: 'one_to_one' },
+    sortByKeys: true,
+    leftAggregate: defaultAggregateOptions,
+    rightAggregate: defaultAggregateOptions,
+    fuzzyOptions: defaultFuzzyOptions,
+    selectedColumns: [],
+    columnOrder: [],
+    columnFormats: {},
+    sortColumns: [],
+    ...settings,
+    excel: { ...defaultExcelOptions, ...settings.excel },
+  };
+}
+
+export function resolveSplitJobSettings(settings: Partial<SplitJobSettings>): SplitJobSettings {
+  return {
+    splitKeys: [],
+    selectedColumns: [],
+    columnOrder: [],
+    numericColumns: [],
+    columnFormats: {},
+    sortColumns: [],
+    outputMode: 'zip',
+    ...settings,
+    excel: { ...defaultExcelOptions, ...settings.excel },
+  };
+}
+
+// 保存した列の選択・順序を結果の見出しに合わせる（必須列は常に選択し、保存時に無かった列は末尾）
+export function jobColumnLayout(
+  headers: string[],
+  required: string[],
+  layout: { selectedColumns?: string[]; columnOrder?: string[] }
+): { selected: string[]; order: string[] } {
+  const savedOrder = layout.columnOrder ?? [];
+  const selected = [
+    ...required,
+    ...(layout.selectedColumns ?? []).filter(h => headers.includes(h) && !required.includes(h)),
+  ];
+  const order = [
+    ...savedOrder.filter(h => selected.includes(h)),
+    ...selected.filter(h => !savedOrder.includes(h)),
+  ];
+  return { selected, order };
+}
+
+// 実行する設定を選ぶ（名前の指定が無い場合は見出しが最も近い設定）
+export function selectJobPreset(presets: JobPreset[], kind: PresetKind, headers: string[][], name?: string): JobPreset {
+  if (name !== undefined) {
+    const preset = presets.find(p => p.kind === kind && p.name === name);
+    if (!preset) {
+      throw new Error(`設定「${name}」が見つかりません`);
+    }
+    return preset;
+  }
+  const ofKind = presets.filter(p => p.kind === kind);
+  if (ofKind.length === 1) return ofKind[0];
+  const [match] = findMatchingPresets(ofKind, kind, headers);
+  if (!match) {
+    throw new Error(ofKind.length === 0
+      ? `${kind === 'compare' ? '比較' : '分割'}の設定がありません`
+      : `見出しに合う設定がありません（${ofKind.map(p => p.name).join(', ')}）`);
+  }
+  return match.preset;
+}
+
+// 比較の要求を作成（右側のキー列は列の対応付けから解決し、見つからない場合はエラー）
+export function createCompareRequest(left: TableData, right: TableData, settings: CompareJobSettings): CompareRequest {
+  const { compareKeys, columnMapping } = settings;
+  if (compareKeys.length === 0) {
+    throw new WasmError({ code: 'invalid_input', message: 'キー列が指定されていません', side: 'input' });
+  }
+  const missingLeft = compareKeys.filter(key => !left.headers.includes(key));
+  if (missingLeft.length > 0) {
+    throw new WasmError({ code: 'key_not_found', message: '左側にキー列が見つかりません', side: 'left', column: missingLeft.join(', ') });
+  }
+  const rightKeys = compareKeys.map(key => resolveRightColumn(columnMapping, key, right.headers));
+  const missingKeys = compareKeys.filter((_, i) => rightKeys[i] === undefined);
+  if (missingKeys.length > 0) {
+    throw new WasmError({ code: 'key_not_found', message: '右側にキー列が見つかりません', side: 'right', column: missingKeys.join(', ') });
+  }
+  return {
+    left,
+    right,
+    leftKeys: compareKeys,
+    rightKeys: rightKeys as string[],
+    options: settings.compareOptions,
+    columnMapping,
+    sortByKeys: settings.sortByKeys,
+    leftAggregate: settings.leftAggregate,
+    rightAggregate: settings.rightAggregate,
+    fuzzy: settings.fuzzyOptions,
+  };
+}
+
+// 複数ファイルの比較の要求（基準ファイル以外のキー列は、基準ファイルの列からの対応付けで解決）
+export function createMultiCompareRequest(
+  sources: { name: string; data: TableData; columnMapping: ColumnPair[] }[],
+  baseline: number,
+  keys: string[],
+  options: CompareOptions,
+  sortByKeys: boolean
+): MultiCompareRequest {
+  if (keys.length === 0) {
+    throw new WasmError({ code: 'invalid_input', message: 'キー列が指定されていません', side: 'input' });
+  }
+  const files = sources.map((source, i) => {
+    const fileKeys = i === baseline ? keys : keys.map(key => resolveRightColumn(source.columnMapping, key, source.data.headers));
+    const missingKeys = keys.filter((key, k) => fileKeys[k] === undefined || !source.data.headers.includes(fileKeys[k] as string));
+    if (missingKeys.length > 0) {
+      throw new WasmError({ code: 'key_not_found', message: `${source.name} にキー列が見つかりません`, side: 'input', input: i, column: missingKeys.join(', ') });
+    }
+    return { name: source.name, data: source.data, keys: fileKeys as string[], columnMapping: i === baseline ? [] : source.columnMapping };
+  });
+  return { files, baseline, options, sortByKeys };
+}
+
+// エンジンの出力から統合した表とレポート用の設定を作成
+export function completeCompareJob(
+  response: CompareResponse,
+  request: CompareRequest,
+  left: JobSource,
+  right: JobSource,
+  compareColumns: CompareColumn[]
+): { output: CompareJobOutput; merged: TableData } {
+  const { output, fuzzyMatches, leftRowCount, rightRowCount } = response;
+  output.log.push(['left_sheet', left.sheet], ['right_sheet', right.sheet]);
+  if (request.leftAggregate.enabled) {
+    output.log.push(['left_aggregated_rows', leftRowCount.toString()]);
+  }
+  if (request.rightAggregate.enabled) {
+    output.log.push(['right_aggregated_rows', rightRowCount.toString()]);
+  }
+
+  const report: CompareReportSettings = {
+    executedAt: new Date(),
+    leftFileName: left.fileName,
+    rightFileName: right.fileName,
+    leftSheet: left.sheet,
+    rightSheet: right.sheet,
+    leftRowCount: left.data.rows.length,
+    rightRowCount: right.data.rows.length,
+    keys: request.leftKeys.map((key, i) => ({ left: key, right: request.rightKeys[i] })),
+    options: request.options,
+    columnMapping: request.columnMapping,
+    leftAggregate: request.leftAggregate,
+    rightAggregate: request.rightAggregate,
+    leftImportOptions: left.importOptions,
+    rightImportOptions: right.importOptions,
+    compareColumns: compareColumns.filter(col => col.left && col.right && col.label),
+  };
+  const jobOutput: CompareJobOutput = { ...output, column_mapping: request.columnMapping, fuzzy_matches: fuzzyMatches, report };
+  return { output: jobOutput, merged: mergeCompareJobOutput(jobOutput) };
+}
+
+// 比較の出力を1つの表にまとめる（あいまい一致の候補は accepted で採用したものだけ一致の行にする）
+export function mergeCompareJobOutput(output: CompareJobOutput, accepted: boolean[] = []): TableData {
+  const { keys, compareColumns } = output.report;
+  return mergeCompareOutput(
+    applyFuzzyMatches(output, output.fuzzy_matches, accepted),
+    keys.map(key => key.left),
+    keys.map(key => key.right),
+    compareColumns
+  );
+}
+
+// 比較して、保存した列の選択・順序・ソートを適用する
+export function runCompareJob(engine: Engine, left: JobSource, right: JobSource, settings: CompareJobSettings): CompareJobResult {
+  const request = createCompareRequest(left.data, right.data, settings);
+  const response = runCompare(engine, request, () => {});
+  const { output, merged } = completeCompareJob(response, request, left, right, settings.compareColumns);
+
+  const order = sortRowOrder(merged, settings.sortColumns);
+  const layout = jobColumnLayout(merged.headers, merged.headers.filter(header => settings.compareKeys.includes(header)), settings);
+  const highlights = getRowHighlights(merged, order, output.column_mapping);
+  return {
+    output,
+    merged,
+    order,
+    table: reorderRows(filterColumns(merged, layout.selected, layout.order), order),
+    highlights,
+    counts: countHighlights(highlights),
+  };
+}
+
+// 分割して、保存した列の選択・順序・ソートを各ファイルに適用する
+export function runSplitJob(engine: Engine, source: JobSource, settings: SplitJobSettings): SplitJobResult {
+  const { splitKeys } = settings;
+  if (splitKeys.length === 0) {
+    throw new WasmError({ code: 'invalid_input', message: 'キー列が指定されていません', side: 'input' });
+  }
+  const output = runSplit(engine, { data: source.data, keys: splitKeys }, () => {});
+  return {
+    parts: output.parts.map(part => {
+      const headers = part.table.headers;
+      const layout = jobColumnLayout(headers, headers.filter(header => splitKeys.includes(header)), settings);
+      const table = filterColumns(part.table, layout.selected, layout.order);
+      return { key_value: part.key_value, table: reorderRows(table, sortRowOrder(table, settings.sortColumns)) };
+    }),
+  };
+}
+
+// ファイルを読み込み、シートを表にする（シートの指定が無い場合は最初にデータがあるシート。大きなxlsxは逐次読み込み）
+export async function readJobSource(file: File, sheetName: string | undefined, importOptions: ImportOptions): Promise<JobSource> {
+  const book = await readBookFile(file, undefined, defaultLargeFileOptions);
+  const sheet = sheetName || getDefaultSheetName(book);
+  if (!book.sheets.some(s => s.name === sheet)) {
+    throw new Error(`シートが見つかりません: ${sheet}（${file.name}）`);
+  }
+  const data = book.stream
+    ? (await readSheetTableStreaming(book, sheet, importOptions, defaultLargeFileOptions)).data
+    : getSheetTable(book, sheet, importOptions);
+  return { data, fileName: file.name, sheet, importOptions };
+}
+
+// 左のみ・右のみの行数の上限（"5%" は全行に対する割合）。全行数から上限の件数を求める関数を返す
+export function parseUnmatchedLimit(value: string): (total: number) => number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)(%?)$/);
+  if (!match) {
+    throw new Error(`左のみ・右のみの行数の上限には件数または割合（例: 5%）を指定してください: ${value}`);
+  }
+  const limit = parseFloat(match[1]);
+  return total => (match[2] ? Math.floor((total * limit) / 100) : limit);
+}
+
+export function summarizeCompareJob(
+  preset: JobPreset,
+  engine: Engine,
+  left: JobSource,
+  right: JobSource,
+  result: CompareJobResult,
+  unmatchedLimit: ((total: number) => number) | null
+): CompareJobSummary {
+  const maxUnmatched = unmatchedLimit && unmatchedLimit(result.counts.total);
+  return {
+    kind: 'compare',
+    preset: preset.name,
+    engine: engine.type,
+    left: { file: left.fileName, sheet: left.sheet, rows: left.data.rows.length },
+    right: { file: right.fileName, sheet: right.sheet, rows: right.data.rows.length },
+    ...result.counts,
+    fuzzyCandidates: result.output.fuzzy_matches.length,
+    maxUnmatched,
+    passed: maxUnmatched === null || result.counts.unmatched <= maxUnmatched,
+  };
+}
+
+// 分割したファイルの名前は zip に格納する名前、シートの名前は1つのブックに出力する場合の名前（buildSplitZip・buildSplitBook と同じ）
+export function summarizeSplitJob(preset: JobPreset, engine: Engine, source: JobSource, result: SplitJobResult): SplitJobSummary {
+  const sheetNames = getSplitSheetNames(result.parts);
+  return {
+    kind: 'split',
+    preset: preset.name,
+    engine: engine.type,
+    input: { file: source.fileName, sheet: source.sheet, rows: source.data.rows.length },
+    parts: result.parts.map((part, i) => ({
+      key: part.key_value,
+      rows: part.table.rows.length,
+      file: `${toSafeFileName(part.key_value)}.xlsx`,
+      sheet: sheetNames[i],
+    })),
+  };
+}
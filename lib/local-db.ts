@@ -0,0 +1,49 @@
+// ブラウザに保存するデータ（IndexedDB）の共通処理
+//
+// 比較・分割の設定（presets）と比較結果のレビュー（annotations）を同じデータベースの別のストアに保存する
+
+const DB_NAME = 'excel-merge';
+const DB_VERSION = 2;
+
+export type StoreName = 'presets' | 'annotations';
+
+// ストアと主キー（バージョンを上げた場合は無いストアだけを作成する）
+const STORES: { name: StoreName; keyPath: string }[] = [
+  { name: 'presets', keyPath: 'id' },
+  { name: 'annotations', keyPath: 'jobId' },
+];
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('このブラウザではIndexedDBが使えないため、保存できません'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      STORES.forEach(store => {
+        if (!request.result.objectStoreNames.contains(store.name)) {
+          request.result.createObjectStore(store.name, { keyPath: store.keyPath });
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// ストアへの1回の操作（完了後にデータベースを閉じる）
+export async function withStore<R>(name: StoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<R>((resolve, reject) => {
+      const transaction = db.transaction(name, mode);
+      const request = run(transaction.objectStore(name));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,136 @@
+// 比較・分割の設定の保存（IndexedDB）と、見出しによる照合・JSONでの共有
+
+import { withStore } from './local-db';
+
+export type PresetKind = 'compare' | 'split';
+
+// 保存した設定（settings の中身は画面側で定義）
+export interface JobPreset<T = unknown> {
+  id: string;
+  name: string;
+  kind: PresetKind;
+  headers: string[][]; // 保存時の見出し（比較は左・右、分割は対象の表）
+  signature: string;   // headers から作成した見出しの署名
+  settings: T;
+  updatedAt: string;   // ISO形式
+}
+
+// 見出しの一致度がこの値以上の設定も候補に挙げる
+const MIN_MATCH_SCORE = 0.8;
+
+// 書き出したファイルの形式
+const EXPORT_FORMAT = 'excel-merge-presets';
+const EXPORT_VERSION = 1;
+
+const normalizeHeaders = (headers: string[]) =>
+  Array.from(new Set(headers.map(h => h.trim()).filter(h => h !== ''))).sort();
+
+// 見出しの署名（列の並び順・前後の空白によらない）
+export function headerSignature(headers: string[][]): string {
+  return headers.map(side => normalizeHeaders(side).join('\u001f')).join('\u001e');
+}
+
+// 見出しの一致度（表ごとのJaccard係数の最小値、0〜1）
+function headerScore(a: string[][], b: string[][]): number {
+  if (a.length !== b.length) return 0;
+  return Math.min(...a.map((side, i) => {
+    const left = new Set(normalizeHeaders(side));
+    const right = new Set(normalizeHeaders(b[i]));
+    if (left.size === 0 && right.size === 0) return 1;
+    let shared = 0;
+    left.forEach(h => {
+      if (right.has(h)) shared++;
+    });
+    return shared / (left.size + right.size - shared);
+  }));
+}
+
+// 読み込んだ表の見出しに合う設定（署名が同じものを先頭に、一致度の高い順）
+export function findMatchingPresets<T>(
+  presets: JobPreset<T>[],
+  kind: PresetKind,
+  headers: string[][]
+): { preset: JobPreset<T>; score: number; exact: boolean }[] {
+  const signature = headerSignature(headers);
+  return presets
+    .filter(preset => preset.kind === kind)
+    .map(preset => {
+      const exact = preset.signature === signature;
+      return { preset, exact, score: exact ? 1 : headerScore(preset.headers, headers) };
+    })
+    .filter(match => match.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => Number(b.exact) - Number(a.exact) || b.score - a.score);
+}
+
+export function createPreset<T>(name: string, kind: PresetKind, headers: string[][], settings: T): JobPreset<T> {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    kind,
+    headers,
+    signature: headerSignature(headers),
+    settings,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// 保存済みの設定（名前順）
+export async function listPresets(): Promise<JobPreset[]> {
+  const presets = await withStore<JobPreset[]>('presets', 'readonly', store => store.getAll());
+  return presets.sort((a, b) => a.name.localeCompare(b.name, 'ja'));
+}
+
+// 保存する（同じidの設定は上書き）
+export async function savePresets(presets: JobPreset[]): Promise<void> {
+  if (presets.length === 0) return;
+  await withStore('presets', 'readwrite', store => presets.map(preset => store.put(preset))[presets.length - 1]);
+}
+
+export async function deletePreset(id: string): Promise<void> {
+  await withStore('presets', 'readwrite', store => store.delete(id));
+}
+
+// 共有用のJSON
+export function exportPresets(presets: JobPreset[]): string {
+  return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, presets }, null, 2);
+}
+
+// 共有用のJSON（設定1件のみのJSONも可）を読み込む（形式が違う場合はエラー）
+export function parsePresetFile(text: string): JobPreset[] {
+  let parsed: { format?: unknown; version?: unknown; presets?: unknown; kind?: unknown };
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('設定ファイルがJSONとして読み込めません');
+  }
+  if (parsed?.format === undefined && parsed?.kind !== undefined) {
+    parsed = { format: EXPORT_FORMAT, version: EXPORT_VERSION, presets: [parsed] };
+  }
+  if (parsed?.format !== EXPORT_FORMAT || !Array.isArray(parsed.presets)) {
+    throw new Error('設定ファイルの形式が正しくありません');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > EXPORT_VERSION) {
+    throw new Error('新しいバージョンで書き出された設定ファイルのため読み込めません');
+  }
+  return parsed.presets.map((item: Partial<JobPreset>, i: number) => {
+    const valid = typeof item?.id === 'string'
+      && typeof item.name === 'string'
+      && (item.kind === 'compare' || item.kind === 'split')
+      && Array.isArray(item.headers)
+      && item.headers.every(side => Array.isArray(side) && side.every(h => typeof h === 'string'))
+      && typeof item.settings === 'object' && item.settings !== null;
+    if (!valid) {
+      throw new Error(`設定ファイルの${i + 1}件目の内容が正しくありません`);
+    }
+    const headers = item.headers as string[][];
+    return {
+      id: item.id as string,
+      name: item.name as string,
+      kind: item.kind as PresetKind,
+      headers,
+      signature: headerSignature(headers),
+      settings: item.settings,
+      updatedAt: typeof item.updatedAt === 'string' ? item.updatedAt : new Date().toISOString(),
+    };
+  });
+}
@@ -0,0 +1,102 @@
+// 比較結果の絞り込み（一致状況・差分のある列・列ごとの文字列と範囲・全列の検索）
+
+import type { TableData } from './excel-utils';
+import { matchCategoryStyles, type MatchCategory, type RowHighlight } from './compare-result';
+
+// 一致状況による絞り込み（diff は一致した行のうち値が異なる行）
+export type QuickFilter = 'all' | MatchCategory | 'diff';
+
+export const quickFilters: { id: QuickFilter; name: string }[] = [
+  { id: 'all', name: 'すべて' },
+  ...matchCategoryStyles.map(style => ({ id: style.id, name: style.name })),
+  { id: 'diff', name: '差分あり' },
+];
+
+// 列ごとの絞り込み（text は部分一致、min・max は数値の範囲。空の条件は無視する）
+export interface ColumnFilter {
+  column: string;
+  text: string;
+  min: string;
+  max: string;
+}
+
+export interface ResultFilter {
+  quick: QuickFilter;
+  diffColumn: string; // 値が異なる列（左側の列名。空は任意の列）
+  search: string;     // すべての列の部分一致（大文字小文字を区別しない）
+  columns: ColumnFilter[];
+}
+
+export const defaultResultFilter: ResultFilter = { quick: 'all', diffColumn: '', search: '', columns: [] };
+
+export function isResultFiltered(filter: ResultFilter): boolean {
+  return filter.quick !== 'all' || filter.diffColumn !== '' || filter.search.trim() !== '' || filter.columns.some(isColumnFilterActive);
+}
+
+function isColumnFilterActive(filter: ColumnFilter): boolean {
+  return filter.column !== '' && (filter.text !== '' || filter.min !== '' || filter.max !== '');
+}
+
+// 行の diff_cols（左側の列名）
+function diffColumnsOf(highlight: RowHighlight): string[] {
+  return highlight.valueOf('diff_cols').split(',').filter(col => col !== '');
+}
+
+function matchesQuick(highlight: RowHighlight, quick: QuickFilter, diffColumn: string): boolean {
+  if (diffColumn !== '' && !diffColumnsOf(highlight).includes(diffColumn)) return false;
+  if (quick === 'all') return true;
+  if (quick === 'diff') return highlight.diffPairs.length > 0;
+  return highlight.category === quick;
+}
+
+// 一致状況以外の条件（検索・列ごとの絞り込み）を満たすか
+function rowMatcher(data: TableData, filter: ResultFilter): (row: string[]) => boolean {
+  const search = filter.search.trim().toLowerCase();
+  const columns = filter.columns
+    .filter(isColumnFilterActive)
+    .map(c => ({
+      idx: data.headers.indexOf(c.column),
+      text: c.text.toLowerCase(),
+      min: c.min === '' ? null : parseFloat(c.min),
+      max: c.max === '' ? null : parseFloat(c.max),
+    }));
+
+  return row => {
+    if (search !== '' && !row.some(cell => (cell || '').toLowerCase().includes(search))) return false;
+    return columns.every(c => {
+      const value = row[c.idx] || '';
+      if (c.text !== '' && !value.toLowerCase().includes(c.text)) return false;
+      if (c.min === null && c.max === null) return true;
+      // 範囲の条件は数値の値のみ（数値でない値は除く）
+      const num = parseFloat(value.replace(/,/g, ''));
+      if (isNaN(num)) return false;
+      return (c.min === null || isNaN(c.min) || num >= c.min) && (c.max === null || isNaN(c.max) || num <= c.max);
+    });
+  };
+}
+
+// 条件を満たす行（highlights の順。data は統合した表）
+export function filterHighlights(data: TableData, highlights: RowHighlight[], filter: ResultFilter): RowHighlight[] {
+  const matches = rowMatcher(data, filter);
+  return highlights.filter(h => matchesQuick(h, filter.quick, filter.diffColumn) && matches(data.rows[h.rowIdx]));
+}
+
+// 一致状況ごとの行数（検索・列ごとの絞り込み・差分のある列の条件は適用する）
+export function countQuickFilters(data: TableData, highlights: RowHighlight[], filter: ResultFilter): Record<QuickFilter, number> {
+  const matches = rowMatcher(data, filter);
+  const rows = highlights.filter(h => matchesQuick(h, 'all', filter.diffColumn) && matches(data.rows[h.rowIdx]));
+  const counts = Object.fromEntries(quickFilters.map(q => [q.id, 0])) as Record<QuickFilter, number>;
+  rows.forEach(h => {
+    counts.all++;
+    counts[h.category]++;
+    if (h.diffPairs.length > 0) counts.diff++;
+  });
+  return counts;
+}
+
+// 差分のある列の候補（いずれかの行の diff_cols に含まれる列）
+export function getDiffColumns(highlights: RowHighlight[]): string[] {
+  const columns = new Set<string>();
+  highlights.forEach(h => diffColumnsOf(h).forEach(col => columns.add(col)));
+  return [...columns];
+}
@@ -0,0 +1,32 @@
+// Node（APIのルート・コマンドライン・テスト）で使うWASMの読み込み
+//
+// Node では fetch でWASMを取得できないため、excel-merge-wasm/pkg の .wasm をファイルから読み込んで初期化する
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { toWasmModule, type WasmModule } from './wasm-types';
+
+// pkgDir のビルド済みのWASMを読み込む（読み込めない場合は例外）。
+// pkg の場所は実行時に決まるため、バンドルせずに実行時のパスで読み込む
+export async function loadNodeWasmModule(pkgDir: string): Promise<WasmModule> {
+  const wasm: typeof import('../excel-merge-wasm/pkg/excel_merge_wasm') =
+    await import(/* webpackIgnore: true */ path.join(pkgDir, 'excel_merge_wasm.js'));
+  wasm.initSync({ module: await fs.promises.readFile(path.join(pkgDir, 'excel_merge_wasm_bg.wasm')) });
+  return toWasmModule(wasm);
+}
+
+// 一度読み込んだモジュールはリクエスト間で使い回す（読み込めなかった場合も再試行しない）
+let cached: Promise<WasmModule | null> | null = null;
+
+export function loadServerWasmModule(): Promise<WasmModule | null> {
+  cached ??= (async () => {
+    const pkgDir = path.join(process.cwd(), 'excel-merge-wasm/pkg');
+    try {
+      return await loadNodeWasmModule(pkgDir);
+    } catch (error) {
+      console.error(`WASMモジュールを読み込めません（${pkgDir}）:`, error);
+      return null;
+    }
+  })();
+  return cached;
+}
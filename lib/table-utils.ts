@@ -0,0 +1,115 @@
+import type { TableData } from './excel-utils';
+import type { CompareOptions } from './wasm-types';
+
+// 行の並び順を変更（型付きの値も同じ順序に並べ替える）
+export function reorderRows(data: TableData, order: number[]): TableData {
+  const cells = data.cells;
+  return {
+    ...data,
+    rows: order.map(i => data.rows[i]),
+    ...(cells && { cells: order.map(i => cells[i]) }),
+  };
+}
+
+// 指定した位置の列を取り除く（型付きの値も同じ列を取り除く）
+export function removeColumn(data: TableData, columnIdx: number): TableData {
+  if (columnIdx === -1) return data;
+  return {
+    headers: data.headers.filter((_, i) => i !== columnIdx),
+    rows: data.rows.map(row => row.filter((_, i) => i !== columnIdx)),
+    ...(data.cells && { cells: data.cells.map(row => row.filter((_, i) => i !== columnIdx)) }),
+  };
+}
+
+// 複数キーを結合する関数
+export function combineKeys(row: string[], keyIndices: number[], options: CompareOptions): string {
+  const values = keyIndices.map(idx => row[idx] || '');
+  let combined = values.join('|');
+  if (options.trim) {
+    combined = combined.trim();
+  }
+  if (options.case_insensitive) {
+    combined = combined.toLowerCase();
+  }
+  return combined;
+}
+
+// キー列でソートする関数
+export function sortByKeyColumns(data: TableData, keyColumns: string[], options: CompareOptions): TableData {
+  const keyIndices = keyColumns.map(key => data.headers.indexOf(key)).filter(idx => idx !== -1);
+  if (keyIndices.length === 0) return data;
+
+  const order = data.rows.map((_, i) => i).sort((ai, bi) => {
+    const a = data.rows[ai];
+    const b = data.rows[bi];
+    for (const keyIdx of keyIndices) {
+      let aVal = a[keyIdx] || '';
+      let bVal = b[keyIdx] || '';
+
+      if (options.trim) {
+        aVal = aVal.trim();
+        bVal = bVal.trim();
+      }
+      if (options.case_insensitive) {
+        aVal = aVal.toLowerCase();
+        bVal = bVal.toLowerCase();
+      }
+
+      // 数値として比較を試みる
+      const aNum = parseFloat(aVal);
+      const bNum = parseFloat(bVal);
+      if (!isNaN(aNum) && !isNaN(bNum)) {
+        const diff = aNum - bNum;
+        if (diff !== 0) return diff;
+      } else {
+        // 文字列として比較
+        const diff = aVal.localeCompare(bVal, 'ja');
+        if (diff !== 0) return diff;
+      }
+    }
+    return 0;
+  });
+
+  return reorderRows(data, order);
+}
+
+// 出力時のソート条件（順位順に最大3列）
+export interface SortColumn {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+// 選択された列のみを含むテーブルデータを生成（順序が指定されている場合はその順、順序に無い列は末尾）
+export function filterColumns(data: TableData, columns: string[], order?: string[]): TableData {
+  const orderedColumns = order && order.length > 0
+    ? order.filter(col => columns.includes(col)).concat(columns.filter(col => !order.includes(col)))
+    : columns;
+
+  const columnIndices = orderedColumns.map(col => data.headers.indexOf(col)).filter(idx => idx !== -1);
+  return {
+    headers: orderedColumns.filter(col => data.headers.includes(col)),
+    rows: data.rows.map(row => columnIndices.map(idx => row[idx] || '')),
+    ...(data.cells && { cells: data.cells.map(row => columnIndices.map(idx => row?.[idx] ?? null)) }),
+  };
+}
+
+// ソート条件に従って並べた行番号（値は数値として比較し、数値でない値は0として扱う）
+export function sortRowOrder(data: TableData, sortColumns: SortColumn[]): number[] {
+  const order = data.rows.map((_, i) => i);
+  if (sortColumns.length === 0) return order;
+
+  return order.sort((ai, bi) => {
+    const a = data.rows[ai];
+    const b = data.rows[bi];
+    for (const sortCol of sortColumns) {
+      const sortIdx = data.headers.indexOf(sortCol.column);
+      if (sortIdx === -1) continue;
+
+      const aVal = parseFloat(a[sortIdx]) || 0;
+      const bVal = parseFloat(b[sortIdx]) || 0;
+      const result = sortCol.direction === 'asc' ? aVal - bVal : bVal - aVal;
+      if (result !== 0) return result;
+    }
+    return 0;
+  });
+}
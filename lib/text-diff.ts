@@ -0,0 +1,67 @@
+// 文字単位の差分（行の詳細で左右の値の違いを表示する）
+
+export interface TextDiffPart {
+  type: 'equal' | 'removed' | 'added'; // removed は左側のみ、added は右側のみの文字
+  text: string;
+}
+
+// 差分を計算する最大の文字数の積（超える場合は全体を置き換えとして扱う）
+const MAX_DIFF_CELLS = 1_000_000;
+
+// 最長共通部分列による文字単位の差分（サロゲートペアは1文字として扱う）
+export function diffChars(left: string, right: string): TextDiffPart[] {
+  const a = Array.from(left);
+  const b = Array.from(right);
+  const parts: TextDiffPart[] = [];
+  const push = (type: TextDiffPart['type'], text: string) => {
+    if (text === '') return;
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+
+  // 前後の共通部分は表を作らずに取り除く
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+  const midA = a.slice(start, a.length - end);
+  const midB = b.slice(start, b.length - end);
+
+  push('equal', a.slice(0, start).join(''));
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    push('removed', midA.join(''));
+    push('added', midB.join(''));
+  } else {
+    // lengths[i][j] は midA[i..] と midB[j..] の最長共通部分列の長さ
+    const width = midB.length + 1;
+    const lengths = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = midA[i] === midB[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        push('equal', midA[i]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        push('removed', midA[i++]);
+      } else {
+        push('added', midB[j++]);
+      }
+    }
+    push('removed', midA.slice(i).join(''));
+    push('added', midB.slice(j).join(''));
+  }
+  push('equal', a.slice(a.length - end).join(''));
+  return parts;
+}
@@ -0,0 +1,858 @@
+// WASMモジュールが使えない場合の比較・分割（excel-merge-wasm/src/lib.rs と同じアルゴリズム・同じ出力）
+// WasmModule と同じJSONの関数として呼び出せるため、compareTables / splitTable からはWASMと区別なく使える
+
+import type { CellValue } from './excel-utils';
+import {
+  loadWasmModule,
+  WasmError,
+  type ColumnPair,
+  type ColumnRule,
+  type CompareInput,
+  type CompareOptions,
+  type CompareOutput,
+  type FuzzyMatch,
+  type FuzzyMatchInput,
+  type FuzzyMatchOutput,
+  type FuzzyNormalizer,
+  type MultiCompareInput,
+  type MultiCompareOutput,
+  type SplitInput,
+  type SplitOutput,
+  type TableData,
+  type WasmModule,
+} from './wasm-types';
+
+// Rustの char::is_whitespace と同じ空白（JSの \s とは U+FEFF・U+0085 の扱いが異なる）
+const WHITESPACE = String.raw`\t\n\v\f\r \u0085\u00a0\u1680\u2000-\u200a\u2028\u2029\u202f\u205f\u3000`;
+const TRIM_PATTERN = new RegExp(`^[${WHITESPACE}]+|[${WHITESPACE}]+$`, 'g');
+const WHITESPACE_PATTERN = new RegExp(`[${WHITESPACE}]`, 'g');
+
+// Rustの str::trim と同じ
+function trimText(value: string): string {
+  return value.replace(TRIM_PATTERN, '');
+}
+
+// Rustの文字列の比較（UTF-8のバイト順＝コードポイント順。UTF-16の単位の順とはサロゲートの扱いが異なる）
+function compareCodePoints(a: string, b: string): number {
+  const isSurrogate = (code: number) => code >= 0xd800 && code <= 0xdfff;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    const ca = a.charCodeAt(i);
+    const cb = b.charCodeAt(i);
+    if (ca !== cb) {
+      if (isSurrogate(ca) !== isSurrogate(cb)) return isSurrogate(ca) ? 1 : -1;
+      return ca - cb;
+    }
+  }
+  return a.length - b.length;
+}
+
+function normalizeKey(key: string, options: CompareOptions): string {
+  let normalized = key;
+  if (options.trim) {
+    normalized = trimText(normalized);
+  }
+  if (options.case_insensitive) {
+    normalized = normalized.toLowerCase();
+  }
+  return normalized;
+}
+
+// 半角カタカナ U+FF66〜U+FF9D に対応する全角カタカナ
+const HALFWIDTH_KANA = 'ヲァィゥェォャュョッーアイウエオカキクケコサシスセソタチツテトナニヌネノハヒフヘホマミムメモヤユヨラリルレロワン';
+
+// 半角の句読点・かぎ括弧 U+FF61〜U+FF65 に対応する全角文字
+const HALFWIDTH_PUNCTUATION = '。「」、・';
+
+// 全角英数記号を半角に、半角カタカナ（濁点・半濁点を含む）を全角にそろえる
+function normalizeWidth(value: string): string {
+  const out: string[] = [];
+  for (const c of value) {
+    const code = c.codePointAt(0) as number;
+    if (code >= 0xff01 && code <= 0xff5e) {
+      out.push(String.fromCharCode(code - 0xfee0));
+    } else if (code === 0x3000) {
+      out.push(' ');
+    } else if (code >= 0xff61 && code <= 0xff65) {
+      out.push(HALFWIDTH_PUNCTUATION[code - 0xff61]);
+    } else if (code >= 0xff66 && code <= 0xff9d) {
+      out.push(HALFWIDTH_KANA[code - 0xff66]);
+    } else if (code === 0xff9e || code === 0xff9f) {
+      // 直前のカナと結合できる場合は濁音・半濁音にする
+      const voiced = code === 0xff9e;
+      const prev = out.length > 0 ? out[out.length - 1] : undefined;
+      let combined: number | undefined;
+      if (prev !== undefined) {
+        const isHaRow = 'ハヒフヘホ'.includes(prev);
+        if (voiced && prev === 'ウ') {
+          combined = 'ヴ'.charCodeAt(0);
+        } else if (voiced && (isHaRow || 'カキクケコサシスセソタチツテト'.includes(prev))) {
+          combined = prev.charCodeAt(0) + 1;
+        } else if (!voiced && isHaRow) {
+          combined = prev.charCodeAt(0) + 2;
+        }
+      }
+      if (combined !== undefined) {
+        out[out.length - 1] = String.fromCharCode(combined);
+      } else {
+        out.push(voiced ? '゛' : '゜');
+      }
+    } else {
+      out.push(c);
+    }
+  }
+  return out.join('');
+}
+
+// Rustの f64 として読める文字列（WASM側と同様に inf・nan は数値として扱わない）
+const FLOAT_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+
+// 「1,000」「¥1,000」「1000.00」「(1,000)」「▲1,000」や全角数字の数値
+function parseNumber(value: string): number | null {
+  let text = normalizeWidth(value).replace(WHITESPACE_PATTERN, '').replace(/[,¥\\$€]/g, '');
+  let negative = false;
+  if (text.startsWith('(') && text.endsWith(')') && text.length > 2) {
+    negative = true;
+    text = text.slice(1, -1);
+  } else if (text.startsWith('▲')) {
+    negative = true;
+    text = text.slice(1);
+  }
+  if (!FLOAT_PATTERN.test(text)) {
+    return null;
+  }
+  const num = Number(text);
+  return negative ? -num : num;
+}
+
+type DateParts = [number, number, number, number, number, number];
+
+// yyyy-mm-dd・yyyy/m/d・yyyy.m.d・yyyy年m月d日（後ろに時刻があってもよい）の日付
+function parseDate(value: string): DateParts | null {
+  const parts = normalizeWidth(value).split(/[^0-9]/).filter(part => part !== '');
+  const numbers = parts.map(Number);
+  // Rustでは u32 に収まらない数字があると日付として扱わない
+  if (numbers.some(num => num > 0xffffffff)) return null;
+  if (numbers.length < 3 || numbers.length > 6 || numbers[0] < 1000) return null;
+  const [year, month, day] = numbers;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const time = (i: number) => numbers[i] ?? 0;
+  return [year, month, day, time(3), time(4), time(5)];
+}
+
+// 比較する一方の値（文字列と、あれば元の型付きの値）
+interface Side {
+  text: string;
+  typed: CellValue | null;
+}
+
+function sideNumber(side: Side): number | null {
+  if (side.typed?.kind === 'number' && typeof side.typed.value === 'number') {
+    return side.typed.value;
+  }
+  return parseNumber(side.text);
+}
+
+function sideDate(side: Side): DateParts | null {
+  if (side.typed?.kind === 'date' && typeof side.typed.value === 'string') {
+    const date = parseDate(side.typed.value);
+    if (date) return date;
+  }
+  return parseDate(side.text);
+}
+
+// 列のルールで等しいとみなすか（数値・日付として読めない値は前後の空白を除いた文字列で比較）
+function valuesEqual(left: Side, right: Side, rule: ColumnRule): boolean {
+  switch (rule.type) {
+    case 'exact':
+      return left.text === right.text;
+    case 'ignore':
+      return true;
+    case 'numeric': {
+      if (trimText(left.text) === '' && trimText(right.text) === '') {
+        return true;
+      }
+      const a = sideNumber(left);
+      const b = sideNumber(right);
+      if (a === null || b === null) {
+        return trimText(left.text) === trimText(right.text);
+      }
+      const diff = Math.abs(a - b);
+      // 0.1 + 0.2 のような浮動小数点の誤差は差分にしない
+      return diff <= Math.max(rule.abs_tolerance ?? 0, 0) + 1e-9
+        || diff <= Math.max(rule.rel_tolerance ?? 0, 0) * Math.max(Math.abs(a), Math.abs(b));
+    }
+    case 'date': {
+      const a = sideDate(left);
+      const b = sideDate(right);
+      if (a === null || b === null) {
+        return trimText(left.text) === trimText(right.text);
+      }
+      return a.every((part, i) => part === b[i]);
+    }
+    case 'text': {
+      const normalize = (value: string) => {
+        let text = rule.normalize_width ? normalizeWidth(value) : value;
+        if (rule.trim) text = trimText(text);
+        if (rule.case_insensitive) text = text.toLowerCase();
+        return text;
+      };
+      return normalize(left.text) === normalize(right.text);
+    }
+  }
+}
+
+// 左列に対応する右列（対応付けがあればその列、なければ他の左列に対応付けられていない同名の列）
+function rightColumnIndex(rightHeaders: string[], mapping: ColumnPair[], leftHeader: string): number {
+  const pair = mapping.find(p => p.left === leftHeader);
+  if (pair) {
+    return rightHeaders.indexOf(pair.right);
+  }
+  if (mapping.some(p => p.right === leftHeader)) {
+    return -1;
+  }
+  return rightHeaders.indexOf(leftHeader);
+}
+
+// 入力の行と型付きの値
+interface SourceTable {
+  rows: string[][];
+  cells?: (CellValue | null)[][] | null;
+}
+
+const cellText = (table: SourceTable, row: number, col: number) => table.rows[row]?.[col] ?? '';
+const cellTyped = (table: SourceTable, row: number, col: number) => table.cells?.[row]?.[col] ?? null;
+
+// 行を width 列に揃える（足りない列は fill、多い列は切り捨て）
+function resize<T>(row: T[], width: number, fill: T): T[] {
+  const resized = row.slice(0, width);
+  while (resized.length < width) resized.push(fill);
+  return resized;
+}
+
+// 入力の1行の型付きの値を width 列に揃える（型付きの値が無い場合はすべて null）
+function cellRow(cells: (CellValue | null)[][] | null | undefined, idx: number, width: number): (CellValue | null)[] {
+  return resize(cells?.[idx] ?? [], width, null);
+}
+
+// 結果の出力先（WASM側の Category と同じ並び）
+const RESULT = 0;
+const LEFT_ONLY = 1;
+const RIGHT_ONLY = 2;
+const DUPLICATES = 3;
+
+// 結果の1行（入力の行番号で表す。left / right は無い場合 null）
+interface MatchRow {
+  category: number;
+  left: number | null;
+  right: number | null;
+  status: string;
+  dup: boolean;
+  diffCols: number[]; // 値が異なる左列の番号
+}
+
+// 対応する左右の列と比較ルール（diff_cols の判定に使用）
+function pairedColumns(input: CompareInput): { i: number; j: number; rule: ColumnRule }[] {
+  const rules = new Map(Object.entries(input.options.column_rules ?? {}));
+  const commonCols: { i: number; j: number; rule: ColumnRule }[] = [];
+  input.left_headers.forEach((header, i) => {
+    const j = rightColumnIndex(input.right_headers, input.column_mapping ?? [], header);
+    const rule = rules.get(header) ?? { type: 'exact' };
+    if (j !== -1 && rule.type !== 'ignore') {
+      commonCols.push({ i, j, rule });
+    }
+  });
+  return commonCols;
+}
+
+// 左の l 行目と右の r 行目で値が異なる左列の番号
+function differingColumns(
+  commonCols: { i: number; j: number; rule: ColumnRule }[],
+  left: SourceTable,
+  l: number,
+  right: SourceTable,
+  r: number
+): number[] {
+  return commonCols
+    .filter(({ i, j, rule }) => !valuesEqual(
+      { text: cellText(left, l, i), typed: cellTyped(left, l, i) },
+      { text: cellText(right, r, j), typed: cellTyped(right, r, j) },
+      rule
+    ))
+    .map(({ i }) => i);
+}
+
+function matchRows(input: CompareInput, left: SourceTable, right: SourceTable): MatchRow[] {
+  const { options } = input;
+  const columnMapping = input.column_mapping ?? [];
+  const leftKeyIdx = input.left_headers.indexOf(input.key);
+  if (leftKeyIdx === -1) {
+    throw new WasmError({ code: 'key_not_found', message: 'Key column not found in left headers', side: 'left', column: input.key });
+  }
+  const rightKeyIdx = rightColumnIndex(input.right_headers, columnMapping, input.key);
+  if (rightKeyIdx === -1) {
+    throw new WasmError({ code: 'key_not_found', message: 'Key column not found in right headers', side: 'right', column: input.key });
+  }
+
+  // キーを正規化して行番号をまとめる（キーは最初に現れた順も保持）
+  const keyOrder: string[] = [];
+  const leftMap = new Map<string, number[]>();
+  for (let idx = 0; idx < left.rows.length; idx++) {
+    const normalized = normalizeKey(cellText(left, idx, leftKeyIdx), options);
+    const entry = leftMap.get(normalized);
+    if (entry) {
+      entry.push(idx);
+    } else {
+      leftMap.set(normalized, [idx]);
+      keyOrder.push(normalized);
+    }
+  }
+  const rightMap = new Map<string, number[]>();
+  for (let idx = 0; idx < right.rows.length; idx++) {
+    const normalized = normalizeKey(cellText(right, idx, rightKeyIdx), options);
+    const entry = rightMap.get(normalized);
+    if (entry) {
+      entry.push(idx);
+    } else {
+      rightMap.set(normalized, [idx]);
+      if (!leftMap.has(normalized)) keyOrder.push(normalized);
+    }
+  }
+
+  const commonCols = pairedColumns(input);
+  const diffCols = (l: number, r: number) => differingColumns(commonCols, left, l, right, r);
+  const unmatched = (category: number, l: number | null, r: number | null, dup: boolean): MatchRow => ({
+    category,
+    left: l,
+    right: r,
+    status: l !== null ? 'left_only' : 'right_only',
+    dup,
+    diffCols: [],
+  });
+
+  // 突合方法で同じキーの複数行を許す側
+  const mode = options.match_mode ?? 'one_to_one';
+  const leftMultiOk = mode === 'many_to_one' || mode === 'many_to_many' || mode === 'sequence';
+  const rightMultiOk = mode === 'one_to_many' || mode === 'many_to_many' || mode === 'sequence';
+
+  const rows: MatchRow[] = [];
+  for (const key of keyOrder) {
+    const leftIndices = leftMap.get(key) ?? [];
+    const rightIndices = rightMap.get(key) ?? [];
+    const nl = leftIndices.length;
+    const nr = rightIndices.length;
+
+    // 突合方法で許されない重複キーは（左右とも）重複として出力
+    if ((nl > 1 && !leftMultiOk) || (nr > 1 && !rightMultiOk)) {
+      leftIndices.forEach(idx => rows.push(unmatched(DUPLICATES, idx, null, true)));
+      rightIndices.forEach(idx => rows.push(unmatched(DUPLICATES, null, idx, true)));
+      continue;
+    }
+
+    if (nl === 0 || nr === 0) {
+      leftIndices.forEach(idx => rows.push(unmatched(LEFT_ONLY, idx, null, nl > 1)));
+      rightIndices.forEach(idx => rows.push(unmatched(RIGHT_ONLY, null, idx, nr > 1)));
+      continue;
+    }
+
+    const dup = nl > 1 || nr > 1;
+    if (mode === 'sequence' && dup) {
+      // 同じキー内の出現順で1行ずつ突合し、残りは片側のみとする
+      const paired = Math.min(nl, nr);
+      for (let i = 0; i < paired; i++) {
+        const l = leftIndices[i];
+        const r = rightIndices[i];
+        rows.push({ category: RESULT, left: l, right: r, status: 'sequence', dup: true, diffCols: diffCols(l, r) });
+      }
+      leftIndices.slice(paired).forEach(idx => rows.push(unmatched(LEFT_ONLY, idx, null, true)));
+      rightIndices.slice(paired).forEach(idx => rows.push(unmatched(RIGHT_ONLY, null, idx, true)));
+      continue;
+    }
+
+    const status = nl > 1
+      ? (nr > 1 ? 'many_to_many' : 'many_to_one')
+      : (nr > 1 ? 'one_to_many' : 'both');
+    for (const l of leftIndices) {
+      for (const r of rightIndices) {
+        rows.push({ category: RESULT, left: l, right: r, status, dup, diffCols: diffCols(l, r) });
+      }
+    }
+  }
+  return rows;
+}
+
+function compareInput(input: CompareInput): CompareOutput {
+  const left: SourceTable = { rows: input.left_rows, cells: input.left_cells };
+  const right: SourceTable = { rows: input.right_rows, cells: input.right_cells };
+  const matches = matchRows(input, left, right);
+
+  const headers = [
+    ...input.left_headers.map(h => `L__${h}`),
+    ...input.right_headers.map(h => `R__${h}`),
+    'match_status',
+    'diff_cols',
+    'dup_key_flag',
+  ];
+  const hasCells = input.left_cells != null || input.right_cells != null;
+  const leftWidth = input.left_headers.length;
+  const rightWidth = input.right_headers.length;
+  const tables: TableData[] = [0, 1, 2, 3].map(() => ({ headers, rows: [], ...(hasCells && { cells: [] }) }));
+
+  for (const m of matches) {
+    const row = resize(m.left !== null ? input.left_rows[m.left] : [], leftWidth, '');
+    if (m.right !== null) row.push(...input.right_rows[m.right]);
+    const table = tables[m.category];
+    table.rows.push([
+      ...resize(row, headers.length - 3, ''),
+      m.status,
+      m.diffCols.map(i => input.left_headers[i]).join(','),
+      m.dup ? '1' : '0',
+    ]);
+    if (table.cells) {
+      const cells = m.left !== null ? cellRow(input.left_cells, m.left, leftWidth) : resize([], leftWidth, null);
+      if (m.right !== null) cells.push(...cellRow(input.right_cells, m.right, rightWidth));
+      table.cells.push(resize(cells, headers.length, null));
+    }
+  }
+
+  const { options } = input;
+  return {
+    result: tables[RESULT],
+    left_only: tables[LEFT_ONLY],
+    right_only: tables[RIGHT_ONLY],
+    duplicates: tables[DUPLICATES],
+    log: [
+      ['left_rows', input.left_rows.length.toString()],
+      ['right_rows', input.right_rows.length.toString()],
+      ['key_column', input.key],
+      ['trim', options.trim.toString()],
+      ['case_insensitive', options.case_insensitive.toString()],
+      ['match_mode', options.match_mode ?? 'one_to_one'],
+      ['column_rules', Object.keys(options.column_rules ?? {}).length.toString()],
+      ['column_mapping', (input.column_mapping ?? []).map(p => `${p.left}=${p.right}`).join(',')],
+    ],
+  };
+}
+
+// 複数ファイルの比較の列名に使うファイルの番号（"F1", "F2", ...）
+const inputLabel = (idx: number) => `F${idx + 1}`;
+
+// 複数ファイルを基準ファイルと比較する（同じキーの行は各ファイルでの出現順に1行ずつ並べる）
+function compareMultiInput(input: MultiCompareInput): MultiCompareOutput {
+  const { options, inputs } = input;
+  const count = inputs.length;
+  if (count < 2) {
+    throw new WasmError({ code: 'invalid_input', message: 'At least two inputs are required' });
+  }
+  const baseIdx = input.baseline ?? 0;
+  const baseline = inputs[baseIdx];
+  if (!baseline) {
+    throw new WasmError({ code: 'invalid_input', message: `Baseline ${baseIdx} is out of range` });
+  }
+
+  // 各ファイルのキー列（基準ファイル以外は列の対応付けで解決）
+  const keyIndices = inputs.map((source, k) => {
+    const idx = k === baseIdx
+      ? source.headers.indexOf(input.key)
+      : rightColumnIndex(source.headers, source.column_mapping ?? [], input.key);
+    if (idx === -1) {
+      throw new WasmError({
+        code: 'key_not_found',
+        message: `Key column not found in headers of ${source.name}`,
+        side: 'input',
+        column: input.key,
+        input: k,
+      });
+    }
+    return idx;
+  });
+  const tables: SourceTable[] = inputs.map(source => ({ rows: source.rows, cells: source.cells }));
+
+  // 正規化したキーごと・ファイルごとの行番号（キーは基準ファイルから順に最初に現れた順）
+  const keyOrder: string[] = [];
+  const keyRows = new Map<string, number[][]>();
+  const scanOrder = [baseIdx, ...inputs.map((_, k) => k).filter(k => k !== baseIdx)];
+  for (const k of scanOrder) {
+    for (let idx = 0; idx < tables[k].rows.length; idx++) {
+      const normalized = normalizeKey(cellText(tables[k], idx, keyIndices[k]), options);
+      let entry = keyRows.get(normalized);
+      if (!entry) {
+        entry = inputs.map(() => []);
+        keyRows.set(normalized, entry);
+        keyOrder.push(normalized);
+      }
+      entry[k].push(idx);
+    }
+  }
+
+  // 基準ファイルの列と各ファイルの対応する列・比較ルール（基準ファイル自身は空）
+  const rules = new Map(Object.entries(options.column_rules ?? {}));
+  const commonCols = inputs.map((source, k) => {
+    const cols: { i: number; j: number; rule: ColumnRule }[] = [];
+    if (k === baseIdx) return cols;
+    baseline.headers.forEach((header, i) => {
+      const j = rightColumnIndex(source.headers, source.column_mapping ?? [], header);
+      const rule = rules.get(header) ?? { type: 'exact' };
+      if (j !== -1 && rule.type !== 'ignore') {
+        cols.push({ i, j, rule });
+      }
+    });
+    return cols;
+  });
+
+  const headers = ['match_key'];
+  inputs.forEach((source, k) => {
+    headers.push(`${inputLabel(k)}_present`, ...source.headers.map(h => `${inputLabel(k)}__${h}`));
+    if (k !== baseIdx) headers.push(`${inputLabel(k)}_diff_cols`);
+  });
+  headers.push('match_status', 'dup_key_flag');
+
+  const hasCells = inputs.some(source => source.cells != null);
+  const rows: string[][] = [];
+  const cells: (CellValue | null)[][] = [];
+  for (const key of keyOrder) {
+    const indices = keyRows.get(key) as number[][];
+    const dup = indices.some(v => v.length > 1);
+    const depth = Math.max(...indices.map(v => v.length));
+    for (let n = 0; n < depth; n++) {
+      const picked = indices.map(v => v[n] ?? null);
+      const baseRow = picked[baseIdx];
+      // キーの値は基準ファイルの行、無ければ最初に行があるファイルのもの
+      const keyFrom = baseRow !== null ? baseIdx : picked.findIndex(p => p !== null);
+      const row = [cellText(tables[keyFrom], picked[keyFrom] as number, keyIndices[keyFrom])];
+      const cellValues: (CellValue | null)[] = [null];
+
+      inputs.forEach((source, k) => {
+        const width = source.headers.length;
+        const idx = picked[k];
+        row.push(idx !== null ? '1' : '0', ...resize(idx !== null ? source.rows[idx] : [], width, ''));
+        if (hasCells) {
+          cellValues.push(null, ...(idx !== null ? cellRow(source.cells, idx, width) : resize([], width, null)));
+        }
+        if (k !== baseIdx) {
+          const diff = baseRow !== null && idx !== null
+            ? commonCols[k]
+              .filter(({ i, j, rule }) => !valuesEqual(
+                { text: cellText(tables[baseIdx], baseRow, i), typed: cellTyped(tables[baseIdx], baseRow, i) },
+                { text: cellText(tables[k], idx, j), typed: cellTyped(tables[k], idx, j) },
+                rule
+              ))
+              .map(({ i }) => baseline.headers[i])
+              .join(',')
+            : '';
+          row.push(diff);
+          if (hasCells) cellValues.push(null);
+        }
+      });
+
+      const present = picked.filter(p => p !== null).length;
+      const status = baseRow === null
+        ? 'no_baseline'
+        : present === count ? 'all' : present === 1 ? 'baseline_only' : 'partial';
+      row.push(status, dup ? '1' : '0');
+      rows.push(row);
+      if (hasCells) cells.push(resize(cellValues, headers.length, null));
+    }
+  }
+
+  return {
+    result: { headers, rows, ...(hasCells && { cells }) },
+    log: [
+      ['inputs', inputs.map((source, k) => `${inputLabel(k)}=${source.name}`).join(',')],
+      ['baseline', inputLabel(baseIdx)],
+      ['input_rows', inputs.map((source, k) => `${inputLabel(k)}=${source.rows.length}`).join(',')],
+      ['key_column', input.key],
+      ['trim', options.trim.toString()],
+      ['case_insensitive', options.case_insensitive.toString()],
+      ['column_rules', Object.keys(options.column_rules ?? {}).length.toString()],
+      ['column_mapping', inputs.flatMap((source, k) => (source.column_mapping ?? []).map(p => `${inputLabel(k)}:${p.left}=${p.right}`)).join(',')],
+    ],
+  };
+}
+
+function splitInput(input: SplitInput): SplitOutput {
+  const keyIdx = input.headers.indexOf(input.key);
+  if (keyIdx === -1) {
+    throw new WasmError({ code: 'key_not_found', message: 'Key column not found in headers', column: input.key });
+  }
+
+  // キー列の値（前後の空白を除き、空なら "EMPTY"）で行をまとめ、値の順に並べる
+  const groups = new Map<string, number[]>();
+  for (let idx = 0; idx < input.rows.length; idx++) {
+    const keyValue = trimText(input.rows[idx][keyIdx] ?? '') || 'EMPTY';
+    const group = groups.get(keyValue);
+    if (group) {
+      group.push(idx);
+    } else {
+      groups.set(keyValue, [idx]);
+    }
+  }
+  const width = input.headers.length;
+  return {
+    parts: Array.from(groups)
+      .sort((a, b) => compareCodePoints(a[0], b[0]))
+      .map(([keyValue, indices]) => ({
+        key_value: keyValue,
+        table: {
+          headers: input.headers,
+          rows: indices.map(idx => input.rows[idx]),
+          ...(input.cells != null && { cells: indices.map(idx => cellRow(input.cells, idx, width)) }),
+        },
+      })),
+  };
+}
+
+// あいまい一致で除くハイフン・ダッシュ（空白とともに除く）
+const FUZZY_HYPHENS = '-‐‑‒–—―−';
+
+// 法人格（キーのどこにあっても除く）
+const CORPORATE_DESIGNATIONS = [
+  '株式会社', '有限会社', '合同会社', '合資会社', '合名会社',
+  '(株)', '(有)', '(同)', '(資)', '(名)',
+  '（株）', '（有）', '（同）', '（資）', '（名）',
+  '㈱', '㈲',
+];
+
+// 英字の法人格（大文字小文字を区別せず、末尾にあり直前が英数字でない場合のみ除く。長いものから）
+const CORPORATE_SUFFIXES = ['co., ltd.', 'co.,ltd.', 'co., ltd', 'co.,ltd', 'ltd.', 'ltd', 'inc.', 'inc', 'corp.', 'corp', 'llc', 'k.k.'];
+
+const TRAILING_COMMA_PATTERN = new RegExp(`[,${WHITESPACE}]+$`);
+
+function stripCorporateDesignations(value: string): string {
+  let text = value;
+  for (const designation of CORPORATE_DESIGNATIONS) {
+    text = text.split(designation).join('');
+  }
+  for (;;) {
+    text = text.replace(TRAILING_COMMA_PATTERN, '');
+    // Rustの to_ascii_lowercase と同じ（ASCIIのみ小文字にし、長さを変えない）
+    const lower = text.replace(/[A-Z]/g, c => c.toLowerCase());
+    const suffix = CORPORATE_SUFFIXES.find(s =>
+      lower.endsWith(s) && !/[0-9A-Za-z]/.test(lower.charAt(lower.length - s.length - 1))
+    );
+    if (suffix === undefined) break;
+    text = text.slice(0, text.length - suffix.length);
+  }
+  return trimText(text);
+}
+
+// あいまい一致で比べるキー（比較の正規化＝前後の空白・大文字小文字に、選んだ正規化を加えたもの。文字の配列）
+function fuzzyKey(key: string, options: CompareOptions, normalizers: FuzzyNormalizer[]): string[] {
+  const enabled = (normalizer: FuzzyNormalizer) => normalizers.includes(normalizer);
+  let text = normalizeKey(key, options);
+  if (enabled('width')) {
+    text = normalizeWidth(text);
+  }
+  if (enabled('kana')) {
+    text = text.replace(/[\u3041-\u3096]/g, c => String.fromCharCode(c.charCodeAt(0) + 0x60));
+  }
+  if (enabled('corporate_suffix')) {
+    text = stripCorporateDesignations(text);
+  }
+  if (enabled('hyphen_space')) {
+    text = text.replace(WHITESPACE_PATTERN, '').split('').filter(c => !FUZZY_HYPHENS.includes(c)).join('');
+  }
+  return Array.from(text);
+}
+
+function jaroWinkler(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) {
+    return a.length === 0 && b.length === 0 ? 1 : 0;
+  }
+  // 同じ文字で、位置の差が window 以内のものを一致とする
+  const window = Math.max(Math.floor(Math.max(a.length, b.length) / 2) - 1, 0);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const end = Math.min(i + window + 1, b.length);
+    for (let j = Math.max(i - window, 0); j < end; j++) {
+      if (!bMatched[j] && b[j] === a[i]) {
+        aMatched[i] = true;
+        bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) {
+    return 0;
+  }
+  // 一致した文字のうち順序が異なるもの
+  let transpositions = 0;
+  let j = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+  const m = matches;
+  const jaro = (m / a.length + m / b.length + (m - transpositions / 2) / m) / 3;
+  // 先頭4文字までの共通部分で補正
+  let prefix = 0;
+  while (prefix < 4 && prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+function levenshteinSimilarity(a: string[], b: string[]): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) {
+    return 1;
+  }
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 0; i < a.length; i++) {
+    const current = new Array<number>(b.length + 1).fill(i + 1);
+    for (let j = 0; j < b.length; j++) {
+      const cost = a[i] === b[j] ? 0 : 1;
+      current[j + 1] = Math.min(prev[j] + cost, prev[j + 1] + 1, current[j] + 1);
+    }
+    prev = current;
+  }
+  return 1 - prev[b.length] / longest;
+}
+
+// 完全一致しなかった左右の行を、キーが近いものどうしで組にする（スコアの高い組から1行1回まで）
+function fuzzyMatchInput(input: FuzzyMatchInput): FuzzyMatchOutput {
+  const { options, fuzzy } = input;
+  const columnMapping = input.column_mapping ?? [];
+  const leftKeyIdx = input.left_headers.indexOf(input.key);
+  if (leftKeyIdx === -1) {
+    throw new WasmError({ code: 'key_not_found', message: 'Key column not found in left headers', side: 'left', column: input.key });
+  }
+  const rightKeyIdx = rightColumnIndex(input.right_headers, columnMapping, input.key);
+  if (rightKeyIdx === -1) {
+    throw new WasmError({ code: 'key_not_found', message: 'Key column not found in right headers', side: 'right', column: input.key });
+  }
+  const left: SourceTable = { rows: input.left_rows, cells: input.left_cells };
+  const right: SourceTable = { rows: input.right_rows, cells: input.right_cells };
+  const normalizers = fuzzy.normalizers ?? [];
+  const leftKeys = left.rows.map((_, idx) => fuzzyKey(cellText(left, idx, leftKeyIdx), options, normalizers));
+  const rightKeys = right.rows.map((_, idx) => fuzzyKey(cellText(right, idx, rightKeyIdx), options, normalizers));
+  const similarity = fuzzy.algorithm === 'levenshtein' ? levenshteinSimilarity : jaroWinkler;
+
+  const candidates: { score: number; l: number; r: number }[] = [];
+  leftKeys.forEach((a, l) => {
+    if (a.length === 0) return;
+    rightKeys.forEach((b, r) => {
+      if (b.length === 0) return;
+      const score = similarity(a, b);
+      if (score >= fuzzy.threshold) candidates.push({ score, l, r });
+    });
+  });
+  // スコアの高い順（同じ場合は左・右の行の順）
+  candidates.sort((x, y) => y.score - x.score || x.l - y.l || x.r - y.r);
+
+  const commonCols = pairedColumns(input);
+  const leftUsed = new Set<number>();
+  const rightUsed = new Set<number>();
+  const matches: FuzzyMatch[] = [];
+  for (const { score, l, r } of candidates) {
+    if (leftUsed.has(l) || rightUsed.has(r)) continue;
+    leftUsed.add(l);
+    rightUsed.add(r);
+    matches.push({
+      left: l,
+      right: r,
+      score,
+      diff_cols: differingColumns(commonCols, left, l, right, r).map(i => input.left_headers[i]),
+    });
+  }
+  matches.sort((x, y) => x.left - y.left);
+
+  return {
+    matches,
+    log: [
+      ['fuzzy_algorithm', fuzzy.algorithm ?? 'jaro_winkler'],
+      ['fuzzy_threshold', String(fuzzy.threshold)],
+      ['fuzzy_normalizers', normalizers.join(',')],
+      ['fuzzy_candidates', matches.length.toString()],
+    ],
+  };
+}
+
+// JSONの入力を読む（WASM側と同様、必須の項目が無ければ invalid_input）
+function parseInput<T>(json: string, name: string, required: string[]): T {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new WasmError({ code: 'invalid_input', message: `Failed to parse ${name}: ${error instanceof Error ? error.message : String(error)}` });
+  }
+  const missing = required.find(field => parsed?.[field] === undefined || parsed[field] === null);
+  if (missing) {
+    throw new WasmError({ code: 'invalid_input', message: `Failed to parse ${name}: missing field \`${missing}\`` });
+  }
+  return parsed as T;
+}
+
+// 結果をWASM側と同じ {status, result} / {status, error} のJSONにする
+function toEnvelope(run: () => unknown): string {
+  try {
+    return JSON.stringify({ status: 'ok', result: run() });
+  } catch (error) {
+    if (error instanceof WasmError) {
+      return JSON.stringify({ status: 'error', error: error.info });
+    }
+    throw error;
+  }
+}
+
+// TypeScript版のエンジン（列指向の関数は持たないため、常にJSONで受け渡す）
+export const typescriptEngine: WasmModule = {
+  compare_files: inputJson => toEnvelope(() => compareInput(parseInput<CompareInput>(
+    inputJson,
+    'CompareInput',
+    ['left_headers', 'left_rows', 'right_headers', 'right_rows', 'key', 'options']
+  ))),
+  compare_multi: inputJson => toEnvelope(() => compareMultiInput(parseInput<MultiCompareInput>(
+    inputJson,
+    'MultiCompareInput',
+    ['inputs', 'key', 'options']
+  ))),
+  fuzzy_match: inputJson => toEnvelope(() => fuzzyMatchInput(parseInput<FuzzyMatchInput>(
+    inputJson,
+    'FuzzyMatchInput',
+    ['left_headers', 'left_rows', 'right_headers', 'right_rows', 'key', 'options', 'fuzzy']
+  ))),
+  split_file: inputJson => toEnvelope(() => splitInput(parseInput<SplitInput>(
+    inputJson,
+    'SplitInput',
+    ['headers', 'rows', 'key']
+  ))),
+};
+
+// 比較・分割に使うエンジンの選択
+export type EngineMode = 'auto' | 'wasm' | 'typescript';
+
+export type EngineType = Exclude<EngineMode, 'auto'>;
+
+export const engineModes: { id: EngineMode; name: string; description: string }[] = [
+  { id: 'auto', name: '自動', description: 'WASMを使い、読み込めない場合はTypeScript版で処理します' },
+  { id: 'wasm', name: 'WASM', description: 'WASMが読み込めない場合はエラーになります' },
+  { id: 'typescript', name: 'TypeScript', description: 'WASMを使わずに処理します（大きな表では遅くなります）' },
+];
+
+export interface Engine {
+  type: EngineType;
+  module: WasmModule;
+}
+
+// 選択に従ってエンジンを用意する（loadWasm はWASMの読み込み方法。Nodeではファイルから読み込む）
+export async function loadEngine(
+  mode: EngineMode,
+  loadWasm: () => Promise<WasmModule | null> = loadWasmModule
+): Promise<Engine> {
+  if (mode === 'typescript') {
+    return { type: 'typescript', module: typescriptEngine };
+  }
+  const wasm = await loadWasm();
+  if (wasm) {
+    return { type: 'wasm', module: wasm };
+  }
+  if (mode === 'wasm') {
+    throw new Error('WASMモジュールが利用できません。後でビルドしてください。');
+  }
+  console.warn('WASMモジュールが利用できないため、TypeScript版で処理します');
+  return { type: 'typescript', module: typescriptEngine };
+}
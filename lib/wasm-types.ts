@@ -1,14 +1,65 @@
 // WASMモジュールの型定義
 // 実際のWASMモジュールがビルドされたら、このファイルを更新します
 
+import type { CellValue } from './excel-utils';
+
 export interface TableData {
   headers: string[];
   rows: string[][];
+  cells?: (CellValue | null)[][]; // 型付きの値（WASM側ではそのまま受け渡す）
+}
+
+// 同じキーが複数行ある場合の突合方法
+export type MatchMode = 'one_to_one' | 'one_to_many' | 'many_to_one' | 'many_to_many' | 'sequence';
+
+export const matchModes: { id: MatchMode; name: string; description: string }[] = [
+  { id: 'one_to_one', name: '1対1', description: '重複キーは突合せず重複として出力します' },
+  { id: 'one_to_many', name: '1対多', description: '左1行に対して右の複数行を突合します' },
+  { id: 'many_to_one', name: '多対1', description: '左の複数行に対して右1行を突合します' },
+  { id: 'many_to_many', name: '多対多', description: '同じキーの左右の行をすべての組み合わせで突合します' },
+  { id: 'sequence', name: '出現順', description: '同じキー内で左右の行を出現順に1行ずつ突合します' },
+];
+
+// 列ごとの比較ルール（diff_colsの判定に使用。未指定の列は完全一致）
+export type ColumnRule =
+  | { type: 'exact' }
+  | { type: 'numeric'; abs_tolerance: number; rel_tolerance: number }
+  | { type: 'date' }
+  | { type: 'text'; trim: boolean; case_insensitive: boolean; normalize_width: boolean }
+  | { type: 'ignore' };
+
+export type ColumnRuleType = ColumnRule['type'];
+
+export const columnRuleTypes: { id: ColumnRuleType; name: string }[] = [
+  { id: 'exact', name: '完全一致' },
+  { id: 'numeric', name: '数値' },
+  { id: 'date', name: '日付' },
+  { id: 'text', name: 'テキスト' },
+  { id: 'ignore', name: '比較しない' },
+];
+
+export function createColumnRule(type: ColumnRuleType): ColumnRule {
+  switch (type) {
+    case 'numeric':
+      return { type, abs_tolerance: 0, rel_tolerance: 0 };
+    case 'text':
+      return { type, trim: true, case_insensitive: false, normalize_width: true };
+    default:
+      return { type };
+  }
 }
 
 export interface CompareOptions {
   trim: boolean;
   case_insensitive: boolean;
+  match_mode?: MatchMode;
+  column_rules?: Record<string, ColumnRule>;
+}
+
+// 列名の異なる左右の列の対応付け
+export interface ColumnPair {
+  left: string;
+  right: string;
 }
 
 export interface CompareInput {
@@ -16,8 +67,11 @@ export interface CompareInput {
   left_rows: string[][];
   right_headers: string[];
   right_rows: string[][];
+  left_cells?: (CellValue | null)[][];
+  right_cells?: (CellValue | null)[][];
   key: string;
   options: CompareOptions;
+  column_mapping?: ColumnPair[]; // キー列・差分判定で使用（未指定の列は同名の列と対応）
 }
 
 export interface CompareOutput {
@@ -28,9 +82,87 @@ export interface CompareOutput {
   log: [string, string][];
 }
 
+// 複数ファイルの比較の1ファイル（column_mapping は基準ファイルの列 → このファイルの列）
+export interface MultiCompareSource {
+  name: string;
+  headers: string[];
+  rows: string[][];
+  cells?: (CellValue | null)[][];
+  column_mapping?: ColumnPair[];
+}
+
+// 2つ以上のファイルを基準ファイル（baseline 番目）と比較する
+export interface MultiCompareInput {
+  inputs: MultiCompareSource[];
+  baseline: number;
+  key: string;
+  options: CompareOptions;
+}
+
+// 結果の列: match_key、ファイルごとに Fn_present・Fn__列名…・Fn_diff_cols（基準ファイル以外）、match_status、dup_key_flag
+export interface MultiCompareOutput {
+  result: TableData;
+  log: [string, string][];
+}
+
+// 複数ファイルの比較の match_status
+export type MultiMatchStatus = 'all' | 'partial' | 'baseline_only' | 'no_baseline';
+
+// あいまい一致の前にキーに適用する正規化（選んだものを次の順に適用）
+export type FuzzyNormalizer = 'width' | 'kana' | 'corporate_suffix' | 'hyphen_space';
+
+export const fuzzyNormalizers: { id: FuzzyNormalizer; name: string; description: string }[] = [
+  { id: 'width', name: '全角→半角', description: '全角英数字を半角に、半角カナを全角にそろえます' },
+  { id: 'kana', name: 'ひらがな→カタカナ', description: 'ひらがなをカタカナにそろえます' },
+  { id: 'corporate_suffix', name: '法人格を除く', description: '株式会社・(株)・Inc.・Co., Ltd. などを除きます' },
+  { id: 'hyphen_space', name: 'ハイフン・空白を除く', description: 'A-00123 と A00123 を同じキーとして扱います' },
+];
+
+// キーの類似度（0〜1）の計算方法
+export type FuzzyAlgorithm = 'jaro_winkler' | 'levenshtein';
+
+export const fuzzyAlgorithms: { id: FuzzyAlgorithm; name: string; description: string }[] = [
+  { id: 'jaro_winkler', name: 'Jaro-Winkler', description: '先頭が一致するキーを高く評価します（短いコード・名称向け）' },
+  { id: 'levenshtein', name: 'Levenshtein', description: '1 - 編集距離 / 長い方の文字数' },
+];
+
+// あいまい一致の設定（比較後の左のみ・右のみの行に適用。threshold 未満の組は候補にしない）
+export interface FuzzyOptions {
+  enabled: boolean;
+  normalizers: FuzzyNormalizer[];
+  algorithm: FuzzyAlgorithm;
+  threshold: number;
+}
+
+export const defaultFuzzyOptions: FuzzyOptions = {
+  enabled: false,
+  normalizers: ['width', 'kana', 'corporate_suffix', 'hyphen_space'],
+  algorithm: 'jaro_winkler',
+  threshold: 0.9,
+};
+
+// 完全一致しなかった左右の行（CompareInput と同じ形）とあいまい一致の設定
+export interface FuzzyMatchInput extends CompareInput {
+  fuzzy: FuzzyOptions;
+}
+
+// キーが近い左右の行の組（left / right は入力の行番号、diff_cols は値が異なる左側の列）
+export interface FuzzyMatch {
+  left: number;
+  right: number;
+  score: number;
+  diff_cols: string[];
+}
+
+export interface FuzzyMatchOutput {
+  matches: FuzzyMatch[];
+  log: [string, string][];
+}
+
 export interface SplitInput {
   headers: string[];
   rows: string[][];
+  cells?: (CellValue | null)[][];
   key: string;
 }
 
@@ -43,10 +175,93 @@ export interface SplitOutput {
   parts: SplitPart[];
 }
 
-// WASM関数の型定義
+// WASM側のエラーの種類（internal_error はパニックなど、WASM側で分類できなかったもの）
+export type WasmErrorCode = 'invalid_input' | 'key_not_found' | 'invalid_cell_data' | 'serialize_failed' | 'internal_error';
+
+// WASM側から返されるエラー（side は比較の左右、row は0始まりのデータ行）
+export interface WasmErrorInfo {
+  code: WasmErrorCode;
+  message: string;
+  side?: 'left' | 'right' | 'input';
+  column?: string;
+  row?: number;
+  input?: number; // 複数ファイルの比較の何番目のファイルか（0始まり）
+}
+
+// WASM側で発生したエラー（エラーの種類・列・行を info に保持）
+export class WasmError extends Error {
+  info: WasmErrorInfo;
+
+  constructor(info: WasmErrorInfo) {
+    super(info.message);
+    this.name = 'WasmError';
+    this.info = info;
+  }
+}
+
+// JSONの関数の結果（{status: 'ok', result} または {status: 'error', error}）
+type WasmEnvelope<T> =
+  | { status: 'ok'; result: T }
+  | { status: 'error'; error: WasmErrorInfo };
+
+// 結果を取り出す（エラーは WasmError として投げる。古いビルドは結果をそのまま返す）
+function decodeEnvelope<T>(json: string): T {
+  const parsed: WasmEnvelope<T> | (T & { status?: undefined }) = JSON.parse(json);
+  if (parsed.status === 'error') {
+    throw new WasmError(parsed.error);
+  }
+  if (parsed.status === 'ok') {
+    return parsed.result;
+  }
+  return parsed;
+}
+
+// WASM関数を呼び出す（列指向の関数が投げるエラーのJSONやパニックを WasmError に変換）
+function callWasm<T>(call: () => T): T {
+  try {
+    return call();
+  } catch (error) {
+    if (error instanceof WasmError) throw error;
+    if (typeof error === 'string') {
+      let info: WasmErrorInfo | null = null;
+      try {
+        info = JSON.parse(error);
+      } catch {
+        // JSONでないエラーはそのままのメッセージで扱う
+      }
+      throw new WasmError(info ?? { code: 'internal_error', message: error });
+    }
+    throw new WasmError({ code: 'internal_error', message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+// WASM関数の型定義（compare_multi は複数ファイルの比較、fuzzy_match はあいまい一致、*_columnar は列指向の受け渡し。古いビルドには無いため任意）
 export interface WasmModule {
   compare_files(input_json: string): string;
   split_file(input_json: string): string;
+  compare_multi?(input_json: string): string;
+  fuzzy_match?(input_json: string): string;
+  compare_columnar?(
+    settings_json: string,
+    left_data: Uint8Array,
+    left_offsets: Uint32Array,
+    right_data: Uint8Array,
+    right_offsets: Uint32Array
+  ): Uint32Array;
+  split_columnar?(columns: number, key_column: number, data: Uint8Array, offsets: Uint32Array): Uint32Array;
+}
+
+// 初期化済みのWASMモジュールから関数を取り出す
+export function toWasmModule(wasm: typeof import('../excel-merge-wasm/pkg/excel_merge_wasm')): WasmModule {
+  const optional = wasm as unknown as Partial<Pick<WasmModule, 'compare_multi' | 'fuzzy_match' | 'compare_columnar' | 'split_columnar'>>;
+  return {
+    compare_files: wasm.compare_files,
+    split_file: wasm.split_file,
+    compare_multi: optional.compare_multi,
+    fuzzy_match: optional.fuzzy_match,
+    compare_columnar: optional.compare_columnar,
+    split_columnar: optional.split_columnar,
+  };
 }
 
 // WASMモジュールをロードする関数
@@ -63,10 +278,7 @@ export async function loadWasmModule(): Promise<WasmModule | null> {
     if (wasm.default) {
       await wasm.default();
     }
-    return {
-      compare_files: wasm.compare_files,
-      split_file: wasm.split_file,
-    };
+    return toWasmModule(wasm);
   } catch (error) {
     // エラーログを出力（本番環境でも確認できるように）
     console.error('WASMモジュールのロードに失敗しました:', error);
@@ -74,3 +286,215 @@ export async function loadWasmModule(): Promise<WasmModule | null> {
   }
 }
 
+// 列指向で渡すセルの文字列（UTF-8で連結し、offsets[i]〜offsets[i + 1] が行優先でi番目のセル）
+interface ColumnarTable {
+  data: Uint8Array;
+  offsets: Uint32Array;
+}
+
+// compare_columnar の結果で行が無いことを表す値（u32::MAX）
+const NO_ROW = 0xffffffff;
+
+// compare_columnar が返す状態の番号（WASM側の MATCH_STATUSES と同じ並び）
+const MATCH_STATUSES = ['both', 'left_only', 'right_only', 'one_to_many', 'many_to_one', 'many_to_many', 'sequence'];
+
+// 受け渡しの各段階が終わったときに呼ばれる（進捗表示用）
+export type TransferStep = 'encode' | 'match';
+
+function encodeColumnar(rowCount: number, width: number, textOf: (row: number, col: number) => string): ColumnarTable {
+  const encoder = new TextEncoder();
+  const offsets = new Uint32Array(rowCount * width + 1);
+  let data = new Uint8Array(1024);
+  let length = 0;
+  for (let r = 0; r < rowCount; r++) {
+    for (let c = 0; c < width; c++) {
+      const text = textOf(r, c);
+      // UTF-8は1文字（UTF-16の1単位）あたり最大3バイト
+      if (length + text.length * 3 > data.length) {
+        const grown = new Uint8Array(Math.max(data.length * 2, length + text.length * 3));
+        grown.set(data.subarray(0, length));
+        data = grown;
+      }
+      length += encoder.encodeInto(text, data.subarray(length)).written;
+      offsets[r * width + c + 1] = length;
+    }
+  }
+  return { data: data.subarray(0, length), offsets };
+}
+
+// 数値・日付ルールの列は型付きの値を文字列として渡す（JSONで型付きの値を渡した場合と同じ判定になる）
+function comparisonText(
+  rows: string[][],
+  cells: (CellValue | null)[][] | undefined,
+  typedColumns: boolean[]
+): (row: number, col: number) => string {
+  return (r, c) => {
+    const cell = typedColumns[c] ? cells?.[r]?.[c] : null;
+    if (cell && (cell.kind === 'number' || cell.kind === 'date')) {
+      return String(cell.value);
+    }
+    return rows[r][c] ?? '';
+  };
+}
+
+// 行を width 列に揃える（足りない列は空文字、typed の場合は null）
+function fitRow<T>(row: T[] | undefined, width: number, fill: T): T[] {
+  const fitted = (row ?? []).slice(0, width);
+  while (fitted.length < width) fitted.push(fill);
+  return fitted;
+}
+
+// 比較する（列指向のエントリポイントがあればそれを使い、無ければJSONで受け渡す）
+export function compareTables(wasm: WasmModule, input: CompareInput, onStep?: (step: TransferStep) => void): CompareOutput {
+  if (!wasm.compare_columnar) {
+    const inputJson = JSON.stringify(input);
+    onStep?.('encode');
+    const resultJson = callWasm(() => wasm.compare_files(inputJson));
+    onStep?.('match');
+    return decodeEnvelope<CompareOutput>(resultJson);
+  }
+
+  const { left_headers, right_headers, left_rows, right_rows, left_cells, right_cells, options } = input;
+  const columnMapping = input.column_mapping ?? [];
+  const rules = options.column_rules ?? {};
+  const typedRule = (header: string | undefined) =>
+    header !== undefined && (rules[header]?.type === 'numeric' || rules[header]?.type === 'date');
+  // 右列のルールは対応する左列のもの
+  const rightRuleHeader = (header: string) =>
+    columnMapping.find(p => p.right === header)?.left ?? (columnMapping.some(p => p.left === header) ? undefined : header);
+
+  const settingsJson = JSON.stringify({
+    left_headers,
+    right_headers,
+    key: input.key,
+    options,
+    column_mapping: columnMapping,
+  });
+  const left = encodeColumnar(left_rows.length, left_headers.length,
+    comparisonText(left_rows, left_cells, left_headers.map(typedRule)));
+  const right = encodeColumnar(right_rows.length, right_headers.length,
+    comparisonText(right_rows, right_cells, right_headers.map(h => typedRule(rightRuleHeader(h)))));
+  onStep?.('encode');
+
+  const compareColumnar = wasm.compare_columnar;
+  const matches = callWasm(() => compareColumnar(settingsJson, left.data, left.offsets, right.data, right.offsets));
+  onStep?.('match');
+
+  // 返された行番号から結果の表を組み立てる（compare_files の出力と同じ形）
+  const headers = [
+    ...left_headers.map(h => `L__${h}`),
+    ...right_headers.map(h => `R__${h}`),
+    'match_status',
+    'diff_cols',
+    'dup_key_flag',
+  ];
+  const hasCells = left_cells !== undefined || right_cells !== undefined;
+  const leftWidth = left_headers.length;
+  const dataWidth = headers.length - 3;
+  const tables: TableData[] = [0, 1, 2, 3].map(() => ({ headers, rows: [], ...(hasCells && { cells: [] }) }));
+
+  let pos = 1;
+  for (let i = 0; i < matches[0]; i++) {
+    const [category, leftIdx, rightIdx, status, dup, diffCount] = matches.subarray(pos, pos + 6);
+    const diffCols = Array.from(matches.subarray(pos + 6, pos + 6 + diffCount), c => left_headers[c]);
+    pos += 6 + diffCount;
+
+    const leftRow = leftIdx === NO_ROW ? [] : left_rows[leftIdx];
+    const rightRow = rightIdx === NO_ROW ? [] : right_rows[rightIdx];
+    const table = tables[category];
+    table.rows.push([
+      ...fitRow([...fitRow(leftRow, leftWidth, ''), ...rightRow], dataWidth, ''),
+      MATCH_STATUSES[status],
+      diffCols.join(','),
+      dup ? '1' : '0',
+    ]);
+    if (table.cells) {
+      const leftCells = leftIdx === NO_ROW ? [] : left_cells?.[leftIdx];
+      const rightCells = rightIdx === NO_ROW ? [] : right_cells?.[rightIdx];
+      table.cells.push(fitRow([
+        ...fitRow(leftCells, leftWidth, null),
+        ...(rightIdx === NO_ROW ? [] : fitRow(rightCells, right_headers.length, null)),
+      ], headers.length, null));
+    }
+  }
+
+  return {
+    result: tables[0],
+    left_only: tables[1],
+    right_only: tables[2],
+    duplicates: tables[3],
+    log: [
+      ['left_rows', left_rows.length.toString()],
+      ['right_rows', right_rows.length.toString()],
+      ['key_column', input.key],
+      ['trim', options.trim.toString()],
+      ['case_insensitive', options.case_insensitive.toString()],
+      ['match_mode', options.match_mode ?? 'one_to_one'],
+      ['column_rules', Object.keys(rules).length.toString()],
+      ['column_mapping', columnMapping.map(p => `${p.left}=${p.right}`).join(',')],
+    ],
+  };
+}
+
+// 複数ファイルを比較する（常にJSONで受け渡す）
+export function compareMultiTables(wasm: WasmModule, input: MultiCompareInput, onStep?: (step: TransferStep) => void): MultiCompareOutput {
+  if (!wasm.compare_multi) {
+    throw new WasmError({ code: 'internal_error', message: 'WASMモジュールが古いため複数ファイルの比較（compare_multi）がありません。npm run build:wasm で再ビルドしてください' });
+  }
+  const compareMulti = wasm.compare_multi;
+  const inputJson = JSON.stringify(input);
+  onStep?.('encode');
+  const resultJson = callWasm(() => compareMulti(inputJson));
+  onStep?.('match');
+  return decodeEnvelope<MultiCompareOutput>(resultJson);
+}
+
+// 完全一致しなかった行をあいまい一致で組にする（常にJSONで受け渡す）
+export function fuzzyMatchTables(wasm: WasmModule, input: FuzzyMatchInput): FuzzyMatchOutput {
+  if (!wasm.fuzzy_match) {
+    throw new WasmError({ code: 'internal_error', message: 'WASMモジュールが古いためあいまい一致（fuzzy_match）がありません。npm run build:wasm で再ビルドしてください' });
+  }
+  const fuzzyMatch = wasm.fuzzy_match;
+  const inputJson = JSON.stringify(input);
+  return decodeEnvelope<FuzzyMatchOutput>(callWasm(() => fuzzyMatch(inputJson)));
+}
+
+// 分割する（列指向のエントリポイントがあればそれを使い、無ければJSONで受け渡す）
+export function splitTable(wasm: WasmModule, input: SplitInput, onStep?: (step: TransferStep) => void): SplitOutput {
+  if (!wasm.split_columnar) {
+    const inputJson = JSON.stringify(input);
+    onStep?.('encode');
+    const resultJson = callWasm(() => wasm.split_file(inputJson));
+    onStep?.('match');
+    return decodeEnvelope<SplitOutput>(resultJson);
+  }
+
+  const { headers, rows, cells } = input;
+  const keyIdx = headers.indexOf(input.key);
+  if (keyIdx === -1) {
+    throw new WasmError({ code: 'key_not_found', message: 'Key column not found in headers', column: input.key });
+  }
+  // 分割はキー列の値だけを見るため、キー列のみを渡す
+  const table = encodeColumnar(rows.length, 1, r => rows[r][keyIdx] ?? '');
+  onStep?.('encode');
+
+  const splitColumnar = wasm.split_columnar;
+  const groups = callWasm(() => splitColumnar(1, 0, table.data, table.offsets));
+  onStep?.('match');
+
+  const parts: SplitPart[] = [];
+  let pos = 1;
+  for (let i = 0; i < groups[0]; i++) {
+    const indices = Array.from(groups.subarray(pos + 1, pos + 1 + groups[pos]));
+    pos += 1 + indices.length;
+    parts.push({
+      key_value: (rows[indices[0]][keyIdx] ?? '').trim() || 'EMPTY',
+      table: {
+        headers,
+        rows: indices.map(r => rows[r]),
+        ...(cells && { cells: indices.map(r => fitRow(cells[r], headers.length, null)) }),
+      },
+    });
+  }
+  return { parts };
+}
@@ -0,0 +1,29 @@
+// 比較・分割をメインスレッド外で実行するWeb Worker
+
+import { runTask, type ProgressCallback } from './compare-pipeline';
+import { loadEngine } from './ts-engine';
+import { WasmError } from './wasm-types';
+import type { WorkerRequest, WorkerResponse } from './worker-protocol';
+
+const post = (message: WorkerResponse) => {
+  (self as unknown as { postMessage: (message: WorkerResponse) => void }).postMessage(message);
+};
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+  const onProgress: ProgressCallback = (phase, ratio) =>
+    post({ id: request.id, type: 'progress', phase, ratio });
+
+  try {
+    const engine = await loadEngine(request.engine);
+    const result = runTask(engine, request, onProgress);
+    post({ id: request.id, type: 'done', result });
+  } catch (error) {
+    post({
+      id: request.id,
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+      error: error instanceof WasmError ? error.info : undefined,
+    });
+  }
+};
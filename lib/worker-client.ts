@@ -0,0 +1,96 @@
+// WASM処理用Web Workerの呼び出し（Workerが使えない環境ではメインスレッドで実行）
+
+import { runTask, type ProgressCallback } from './compare-pipeline';
+import { loadEngine, type EngineMode } from './ts-engine';
+import { WasmError } from './wasm-types';
+import type { WorkerRequest, WorkerResponse, WorkerResults, WorkerTaskType } from './worker-protocol';
+
+// キャンセルされた処理のエラー（呼び出し側ではエラー表示しない）
+export class TaskCancelledError extends Error {
+  constructor() {
+    super('処理をキャンセルしました');
+    this.name = 'TaskCancelledError';
+  }
+}
+
+export interface WorkerTask<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+let nextTaskId = 1;
+
+function createWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('./wasm.worker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.error('Web Workerの作成に失敗しました:', error);
+    return null;
+  }
+}
+
+// Workerが使えない場合のフォールバック（キャンセルは結果を破棄するのみ）
+function runOnMainThread<K extends WorkerTaskType>(
+  request: Extract<WorkerRequest, { type: K }>,
+  onProgress: ProgressCallback
+): WorkerTask<WorkerResults[K]> {
+  let cancelled = false;
+  const promise = (async () => {
+    const engine = await loadEngine(request.engine);
+    const result = runTask(engine, request, onProgress);
+    if (cancelled) throw new TaskCancelledError();
+    return result as WorkerResults[K];
+  })();
+  return { promise, cancel: () => { cancelled = true; } };
+}
+
+// 処理ごとにWorkerを起動し、完了・エラー・キャンセル時に終了する
+export function runWorkerTask<K extends WorkerTaskType>(
+  type: K,
+  payload: Extract<WorkerRequest, { type: K }>['payload'],
+  onProgress: ProgressCallback,
+  engine: EngineMode = 'auto'
+): WorkerTask<WorkerResults[K]> {
+  const request = { id: nextTaskId++, type, payload, engine } as Extract<WorkerRequest, { type: K }>;
+  const worker = createWorker();
+  if (!worker) {
+    return runOnMainThread(request, onProgress);
+  }
+
+  let settle: { resolve: (result: WorkerResults[K]) => void; reject: (error: Error) => void } | null = null;
+  const promise = new Promise<WorkerResults[K]>((resolve, reject) => {
+    settle = { resolve, reject };
+  });
+  const finish = () => {
+    worker.terminate();
+    settle = null;
+  };
+
+  worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+    const message = e.data;
+    if (message.id !== request.id || !settle) return;
+    if (message.type === 'progress') {
+      onProgress(message.phase, message.ratio);
+    } else if (message.type === 'done') {
+      settle.resolve(message.result as WorkerResults[K]);
+      finish();
+    } else {
+      settle.reject(message.error ? new WasmError(message.error) : new Error(message.message));
+      finish();
+    }
+  };
+  worker.onerror = (e) => {
+    settle?.reject(new Error(e.message || 'Web Workerでエラーが発生しました'));
+    finish();
+  };
+  worker.postMessage(request);
+
+  return {
+    promise,
+    cancel: () => {
+      settle?.reject(new TaskCancelledError());
+      finish();
+    },
+  };
+}
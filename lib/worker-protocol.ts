@@ -0,0 +1,26 @@
+// WASM処理用Web Workerとのメッセージ定義
+
+import type { CompareRequest, CompareResponse, MultiCompareRequest, MultiCompareResponse, SplitRequest, TaskPhase } from './compare-pipeline';
+import type { EngineMode } from './ts-engine';
+import type { SplitOutput, WasmErrorInfo } from './wasm-types';
+
+// メインスレッド → Worker
+export type WorkerRequest =
+  | { id: number; type: 'compare'; payload: CompareRequest; engine: EngineMode }
+  | { id: number; type: 'multi_compare'; payload: MultiCompareRequest; engine: EngineMode }
+  | { id: number; type: 'split'; payload: SplitRequest; engine: EngineMode };
+
+// 処理ごとの結果の型
+export interface WorkerResults {
+  compare: CompareResponse;
+  multi_compare: MultiCompareResponse;
+  split: SplitOutput;
+}
+
+export type WorkerTaskType = WorkerRequest['type'];
+
+// Worker → メインスレッド
+export type WorkerResponse =
+  | { id: number; type: 'progress'; phase: TaskPhase; ratio: number }
+  | { id: number; type: 'done'; result: WorkerResults[WorkerTaskType] }
+  | { id: number; type: 'error'; message: string; error?: WasmErrorInfo }; // error はWASM側のエラーの場合のみ
@@ -0,0 +1,763 @@
+import * as XLSX from 'xlsx';
+import {
+  HEADER_DETECT_ROWS,
+  fillMergedCells,
+  flattenHeaderRows,
+  isBlankRow,
+  readCell,
+  resolveHeaderRange,
+  type CellValue,
+  type ExcelBook,
+  type ImportOptions,
+  type SheetInfo,
+  type TableData,
+} from './excel-utils';
+
+// 大きなファイルの読み込み設定
+export interface LargeFileOptions {
+  streamThresholdMB: number; // このサイズ以上のxlsxはシートを逐次読み込みする
+  memoryBudgetMB: number;    // 読み込んだ表に使うメモリの上限（目安）
+}
+
+export const defaultLargeFileOptions: LargeFileOptions = {
+  streamThresholdMB: 30,
+  memoryBudgetMB: 1024,
+};
+
+// zip内のファイル（セントラルディレクトリの情報）
+interface ZipEntry {
+  name: string;
+  method: number; // 0: 無圧縮, 8: deflate
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+// 逐次読み込み用に開いたxlsx（シートの中身は読み込み時に展開する）
+export interface XlsxStreamSource {
+  file: File;
+  entries: Map<string, ZipEntry>;
+  sheetPaths: Record<string, string>;
+  sharedStrings: string[];
+  numFmts: string[];            // スタイル番号ごとの表示形式
+  date1904: boolean;
+  previews: Record<string, string[][]>; // シートごとの先頭行（ヘッダーの自動検出用）
+}
+
+// 読み込んだ行のまとまり（startRow はシートの0始まりの行番号）
+export interface SheetRowBatch {
+  startRow: number;
+  rows: string[][];
+  cells: (CellValue | null)[][];
+}
+
+// 逐次読み込みの進捗
+export interface StreamProgress {
+  rowsRead: number;
+  estimatedRows: number;
+}
+
+type HeaderRange = ReturnType<typeof resolveHeaderRange>;
+
+export interface StreamTableResult {
+  data: TableData;
+  typedCellsDropped: boolean; // メモリ上限のため型付きの値を省略した
+}
+
+// 一度に通知する行数
+const ROW_BATCH_SIZE = 5000;
+
+// 行数の推定に読むシートの先頭部分（文字数）
+const ESTIMATE_SAMPLE_CHARS = 256 * 1024;
+
+// メモリ使用量の見積もり（1行・1セルあたりのおおよそのバイト数）
+const ROW_OVERHEAD_BYTES = 48;
+const CELL_OVERHEAD_BYTES = 16;
+const TYPED_CELL_BYTES = 72;
+
+const MB = 1024 * 1024;
+
+export function shouldStream(file: File, options: LargeFileOptions): boolean {
+  return /\.xlsx$/i.test(file.name) && file.size >= options.streamThresholdMB * MB;
+}
+
+// ---- zip ----
+
+async function readBytes(file: File, start: number, end: number): Promise<DataView> {
+  return new DataView(await file.slice(start, end).arrayBuffer());
+}
+
+const readUint64 = (view: DataView, offset: number): number => Number(view.getBigUint64(offset, true));
+
+// セントラルディレクトリを読む（ファイル全体は読み込まない）
+async function readZipEntries(file: File): Promise<Map<string, ZipEntry>> {
+  // 末尾のEnd of central directory（コメントは最大65535バイト）
+  const tailStart = Math.max(0, file.size - 65557);
+  const tail = await readBytes(file, tailStart, file.size);
+  let eocd = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('xlsxファイルとして読み込めません（zip形式ではありません）');
+  }
+  let count = tail.getUint16(eocd + 10, true);
+  let dirSize = tail.getUint32(eocd + 12, true);
+  let dirOffset = tail.getUint32(eocd + 16, true);
+  // ZIP64の場合は Zip64 end of central directory locator から位置を読む
+  if (dirOffset === 0xffffffff && eocd >= 20 && tail.getUint32(eocd - 20, true) === 0x07064b50) {
+    const zip64Offset = readUint64(tail, eocd - 20 + 8);
+    const zip64 = await readBytes(file, zip64Offset, zip64Offset + 56);
+    count = readUint64(zip64, 32);
+    dirSize = readUint64(zip64, 40);
+    dirOffset = readUint64(zip64, 48);
+  }
+
+  const dir = await readBytes(file, dirOffset, dirOffset + dirSize);
+  const decoder = new TextDecoder('utf-8');
+  const entries = new Map<string, ZipEntry>();
+  let pos = 0;
+  for (let i = 0; i < count && pos + 46 <= dir.byteLength; i++) {
+    if (dir.getUint32(pos, true) !== 0x02014b50) break;
+    const nameLength = dir.getUint16(pos + 28, true);
+    const extraLength = dir.getUint16(pos + 30, true);
+    const commentLength = dir.getUint16(pos + 32, true);
+    const name = decoder.decode(new Uint8Array(dir.buffer, pos + 46, nameLength));
+    const entry: ZipEntry = {
+      name,
+      method: dir.getUint16(pos + 10, true),
+      compressedSize: dir.getUint32(pos + 20, true),
+      uncompressedSize: dir.getUint32(pos + 24, true),
+      localHeaderOffset: dir.getUint32(pos + 42, true),
+    };
+    // ZIP64の拡張フィールド（0xffffffff の項目だけが順に入る）
+    let extra = pos + 46 + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const id = dir.getUint16(extra, true);
+      const size = dir.getUint16(extra + 2, true);
+      if (id === 0x0001) {
+        let field = extra + 4;
+        if (entry.uncompressedSize === 0xffffffff) { entry.uncompressedSize = readUint64(dir, field); field += 8; }
+        if (entry.compressedSize === 0xffffffff) { entry.compressedSize = readUint64(dir, field); field += 8; }
+        if (entry.localHeaderOffset === 0xffffffff) { entry.localHeaderOffset = readUint64(dir, field); }
+      }
+      extra += 4 + size;
+    }
+    entries.set(name, entry);
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+// zip内のファイルを文字列のチャンクとして順に読む（onChunk が false を返したら中断）
+async function readEntryText(file: File, entry: ZipEntry, onChunk: (chunk: string) => boolean | void): Promise<void> {
+  const header = await readBytes(file, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+  const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  let stream: ReadableStream<BufferSource> = file.slice(dataStart, dataStart + entry.compressedSize).stream();
+  if (entry.method === 8) {
+    stream = stream.pipeThrough(new DecompressionStream('deflate-raw'));
+  } else if (entry.method !== 0) {
+    throw new Error(`対応していない圧縮形式です: ${entry.name}`);
+  }
+
+  const reader = stream.getReader();
+  const decoder = new TextDecoder('utf-8');
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (onChunk(decoder.decode(value, { stream: true })) === false) return;
+    }
+    const rest = decoder.decode();
+    if (rest) onChunk(rest);
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+async function readEntryWhole(file: File, entries: Map<string, ZipEntry>, name: string): Promise<string | null> {
+  const entry = entries.get(name);
+  if (!entry) return null;
+  const chunks: string[] = [];
+  await readEntryText(file, entry, chunk => {
+    chunks.push(chunk);
+  });
+  return chunks.join('');
+}
+
+// ---- XML ----
+
+type XmlAttributes = Record<string, string>;
+
+interface SaxHandlers {
+  open?: (name: string, attrs: XmlAttributes) => void;
+  close?: (name: string) => void;
+  text?: (text: string) => void;
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXml(text: string): string {
+  if (!text.includes('&')) return text;
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+// 名前空間の接頭辞（x: など）を除いた要素名
+const localName = (name: string): string => name.slice(name.indexOf(':') + 1);
+
+function parseAttributes(tag: string): XmlAttributes {
+  const attrs: XmlAttributes = {};
+  const pattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(tag)) !== null) {
+    attrs[match[1]] = decodeXml(match[2] ?? match[3]);
+  }
+  return attrs;
+}
+
+// チャンク単位で受け取るSAX形式のXMLパーサー（タグの途中で切れた部分は次のチャンクまで持ち越す）
+function createSaxParser(handlers: SaxHandlers): (chunk: string) => void {
+  let buffer = '';
+  return (chunk: string) => {
+    buffer += chunk;
+    let pos = 0;
+    for (;;) {
+      const lt = buffer.indexOf('<', pos);
+      if (lt === -1) break;
+      if (lt > pos) handlers.text?.(decodeXml(buffer.slice(pos, lt)));
+
+      if (buffer.startsWith('<![CDATA[', lt)) {
+        const end = buffer.indexOf(']]>', lt);
+        if (end === -1) { pos = lt; break; }
+        handlers.text?.(buffer.slice(lt + 9, end));
+        pos = end + 3;
+        continue;
+      }
+      if (buffer.startsWith('<!--', lt)) {
+        const end = buffer.indexOf('-->', lt);
+        if (end === -1) { pos = lt; break; }
+        pos = end + 3;
+        continue;
+      }
+      const gt = buffer.indexOf('>', lt);
+      if (gt === -1) { pos = lt; break; }
+      pos = gt + 1;
+
+      const tag = buffer.slice(lt + 1, gt);
+      if (tag[0] === '?' || tag[0] === '!') continue;
+      if (tag[0] === '/') {
+        handlers.close?.(localName(tag.slice(1).trim()));
+        continue;
+      }
+      const selfClosing = tag.endsWith('/');
+      const body = selfClosing ? tag.slice(0, -1) : tag;
+      const nameEnd = body.search(/\s/);
+      const name = localName(nameEnd === -1 ? body : body.slice(0, nameEnd));
+      handlers.open?.(name, nameEnd === -1 ? {} : parseAttributes(body.slice(nameEnd)));
+      if (selfClosing) handlers.close?.(name);
+    }
+    // 閉じていないタグ・テキストは次のチャンクと合わせて処理
+    buffer = buffer.slice(pos);
+  };
+}
+
+// Excelが文字列中の制御文字を表す _x000D_ 形式を元に戻す
+const decodeExcelEscapes = (text: string): string =>
+  text.includes('_x') ? text.replace(/_x([0-9A-Fa-f]{4})_/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))) : text;
+
+// ---- ブックの構造 ----
+
+async function readSharedStrings(file: File, entries: Map<string, ZipEntry>): Promise<string[]> {
+  const entry = entries.get('xl/sharedStrings.xml');
+  if (!entry) return [];
+  const strings: string[] = [];
+  let current = '';
+  let inText = false;
+  let inPhonetic = false; // ふりがな（rPh）は値に含めない
+  const write = createSaxParser({
+    open: name => {
+      if (name === 'si') current = '';
+      else if (name === 'rPh') inPhonetic = true;
+      else if (name === 't' && !inPhonetic) inText = true;
+    },
+    close: name => {
+      if (name === 'si') strings.push(decodeExcelEscapes(current));
+      else if (name === 'rPh') inPhonetic = false;
+      else if (name === 't') inText = false;
+    },
+    text: text => {
+      if (inText) current += text;
+    },
+  });
+  await readEntryText(file, entry, write);
+  return strings;
+}
+
+// スタイル番号ごとの表示形式（日付の判定に使用）
+function parseNumFmts(stylesXml: string | null): string[] {
+  if (!stylesXml) return [];
+  const builtin: Record<number, string> = XLSX.SSF.get_table();
+  const custom: Record<number, string> = {};
+  const numFmts: string[] = [];
+  let inCellXfs = false;
+  createSaxParser({
+    open: (name, attrs) => {
+      if (name === 'numFmt') {
+        custom[Number(attrs.numFmtId)] = attrs.formatCode;
+      } else if (name === 'cellXfs') {
+        inCellXfs = true;
+      } else if (name === 'xf' && inCellXfs) {
+        const id = Number(attrs.numFmtId || 0);
+        numFmts.push(custom[id] ?? builtin[id] ?? 'General');
+      }
+    },
+    close: name => {
+      if (name === 'cellXfs') inCellXfs = false;
+    },
+  })(stylesXml);
+  return numFmts;
+}
+
+// シート名とシートのXMLのパス
+async function readSheetPaths(file: File, entries: Map<string, ZipEntry>): Promise<{ sheetPaths: Record<string, string>; names: string[]; date1904: boolean }> {
+  const workbookXml = await readEntryWhole(file, entries, 'xl/workbook.xml');
+  const relsXml = await readEntryWhole(file, entries, 'xl/_rels/workbook.xml.rels');
+  if (!workbookXml || !relsXml) {
+    throw new Error('xlsxファイルとして読み込めません（ブックの情報がありません）');
+  }
+
+  const targets: Record<string, string> = {};
+  createSaxParser({
+    open: (name, attrs) => {
+      if (name === 'Relationship') targets[attrs.Id] = attrs.Target;
+    },
+  })(relsXml);
+
+  const sheetPaths: Record<string, string> = {};
+  const names: string[] = [];
+  let date1904 = false;
+  createSaxParser({
+    open: (name, attrs) => {
+      if (name === 'workbookPr') {
+        date1904 = attrs.date1904 === '1' || attrs.date1904 === 'true';
+      } else if (name === 'sheet') {
+        const relId = Object.keys(attrs).find(key => localName(key) === 'id' && key !== 'sheetId');
+        const target = relId ? targets[attrs[relId]] : undefined;
+        if (!target) return;
+        names.push(attrs.name);
+        sheetPaths[attrs.name] = target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+      }
+    },
+  })(workbookXml);
+  return { sheetPaths, names, date1904 };
+}
+
+// 列の参照（"AB12" など）から0始まりの列番号
+function columnIndex(ref: string): number {
+  let col = 0;
+  for (let i = 0; i < ref.length; i++) {
+    const code = ref.charCodeAt(i);
+    if (code < 65 || code > 90) break;
+    col = col * 26 + code - 64;
+  }
+  return col - 1;
+}
+
+// ---- シート ----
+
+interface SheetParser {
+  write: (chunk: string) => void;
+  stopped: () => boolean;
+  startColumn: () => number;
+  dimension: () => XLSX.Range | null;
+  merges: XLSX.Range[];
+}
+
+// シートのXMLを解析し、行ごとに onRow を呼ぶ（間の空行も含めて1行目から順に。false を返したら以降は読まない）
+function createSheetParser(
+  source: XlsxStreamSource,
+  onRow: (rowIndex: number, row: string[], cells: (CellValue | null)[]) => boolean | void
+): SheetParser {
+  let dimension: XLSX.Range | null = null;
+  let startColumn = 0;
+  let nextRow = 0;
+  let stopped = false;
+  const merges: XLSX.Range[] = [];
+
+  let row: string[] = [];
+  let cellRow: (CellValue | null)[] = [];
+  let rowIndex = 0;
+  let nextColumn = 0;
+  let cellType = '';
+  let cellStyle = 0;
+  let capture: 'v' | 'f' | 't' | null = null;
+  let inInlineString = false;
+  let value = '';
+  let formula = '';
+
+  const emit = (index: number, values: string[], cells: (CellValue | null)[]) => {
+    if (!stopped && onRow(index, values, cells) === false) stopped = true;
+  };
+
+  const finishCell = (col: number) => {
+    const c = col - startColumn;
+    if (c < 0) return;
+    let cell: XLSX.CellObject | undefined;
+    switch (cellType) {
+      case 's':
+        cell = { t: 's', v: source.sharedStrings[Number(value)] ?? '' };
+        break;
+      case 'inlineStr':
+      case 'str':
+        cell = { t: 's', v: decodeExcelEscapes(value) };
+        break;
+      case 'b':
+        cell = { t: 'b', v: value === '1' || value === 'true' };
+        break;
+      case 'e':
+        cell = { t: 'e', v: 0, w: value };
+        break;
+      case 'd':
+        cell = value === '' ? undefined : { t: 'd', v: new Date(value) };
+        break;
+      default:
+        cell = value === '' ? undefined : { t: 'n', v: Number(value), z: source.numFmts[cellStyle] ?? 'General' };
+    }
+    if (cell && formula) cell.f = formula;
+    const { text, typed } = readCell(cell, source.date1904);
+    while (row.length < c) {
+      row.push('');
+      cellRow.push(null);
+    }
+    row[c] = text;
+    cellRow[c] = typed;
+  };
+
+  const write = createSaxParser({
+    open: (name, attrs) => {
+      if (stopped) return;
+      switch (name) {
+        case 'dimension':
+          if (attrs.ref?.includes(':')) {
+            dimension = XLSX.utils.decode_range(attrs.ref);
+            startColumn = dimension.s.c;
+          }
+          break;
+        case 'row':
+          rowIndex = attrs.r ? Number(attrs.r) - 1 : nextRow;
+          row = [];
+          cellRow = [];
+          nextColumn = startColumn;
+          break;
+        case 'c':
+          nextColumn = attrs.r ? columnIndex(attrs.r) : nextColumn;
+          cellType = attrs.t ?? 'n';
+          cellStyle = Number(attrs.s ?? 0);
+          value = '';
+          formula = '';
+          break;
+        case 'v':
+          capture = 'v';
+          break;
+        case 'f':
+          capture = 'f';
+          break;
+        case 'is':
+          inInlineString = true;
+          break;
+        case 't':
+          if (inInlineString) capture = 't';
+          break;
+        case 'mergeCell':
+          if (attrs.ref) merges.push(XLSX.utils.decode_range(attrs.ref));
+          break;
+      }
+    },
+    close: name => {
+      if (stopped) return;
+      switch (name) {
+        case 'v':
+        case 'f':
+        case 't':
+          capture = null;
+          break;
+        case 'is':
+          inInlineString = false;
+          break;
+        case 'c':
+          finishCell(nextColumn);
+          nextColumn++;
+          break;
+        case 'row':
+          // 値のない行は書き出されないため、空行で埋める
+          while (nextRow < rowIndex) emit(nextRow++, [], []);
+          emit(rowIndex, row, cellRow);
+          nextRow = rowIndex + 1;
+          break;
+      }
+    },
+    text: text => {
+      if (capture === 'f') formula += text;
+      else if (capture) value += text;
+    },
+  });
+
+  return {
+    write,
+    stopped: () => stopped,
+    startColumn: () => startColumn,
+    dimension: () => dimension,
+    merges,
+  };
+}
+
+// シートを先頭から読み、ROW_BATCH_SIZE 行ごとに onBatch を呼ぶ（false を返したら中断）
+export async function streamSheetRows(
+  source: XlsxStreamSource,
+  sheetName: string,
+  onBatch: (batch: SheetRowBatch) => boolean | void
+): Promise<{ merges: XLSX.Range[]; startColumn: number; columnCount: number }> {
+  const path = source.sheetPaths[sheetName];
+  const entry = path ? source.entries.get(path) : undefined;
+  if (!entry) {
+    throw new Error(`シートが見つかりません: ${sheetName}`);
+  }
+
+  let batch: SheetRowBatch = { startRow: 0, rows: [], cells: [] };
+  let cancelled = false;
+  const flush = () => {
+    if (batch.rows.length === 0 || cancelled) return;
+    if (onBatch(batch) === false) cancelled = true;
+    batch = { startRow: batch.startRow + batch.rows.length, rows: [], cells: [] };
+  };
+  const parser = createSheetParser(source, (_, row, cells) => {
+    batch.rows.push(row);
+    batch.cells.push(cells);
+    if (batch.rows.length >= ROW_BATCH_SIZE) flush();
+    return !cancelled;
+  });
+  await readEntryText(source.file, entry, chunk => {
+    parser.write(chunk);
+    return !parser.stopped();
+  });
+  flush();
+  const dimension = parser.dimension();
+  return {
+    merges: parser.merges,
+    startColumn: parser.startColumn(),
+    columnCount: dimension ? dimension.e.c - dimension.s.c + 1 : 0,
+  };
+}
+
+// シートの先頭部分から行数・列数を推定し、ヘッダー検出用の先頭行を取得
+async function estimateSheet(source: XlsxStreamSource, name: string): Promise<{ info: SheetInfo; preview: string[][] }> {
+  const entry = source.entries.get(source.sheetPaths[name]);
+  if (!entry) {
+    return { info: { name, rowCount: 0, columnCount: 0 }, preview: [] };
+  }
+  const preview: string[][] = [];
+  let rowsSeen = 0;
+  let columnCount = 0;
+  let sampleChars = 0;
+  let complete = true;
+  const parser = createSheetParser(source, (rowIndex, row) => {
+    if (preview.length < HEADER_DETECT_ROWS) preview.push(row);
+    rowsSeen = rowIndex + 1;
+    columnCount = Math.max(columnCount, row.length);
+  });
+  await readEntryText(source.file, entry, chunk => {
+    parser.write(chunk);
+    sampleChars += chunk.length;
+    if (sampleChars >= ESTIMATE_SAMPLE_CHARS && preview.length >= HEADER_DETECT_ROWS) {
+      complete = false;
+      return false;
+    }
+  });
+
+  const dimension = parser.dimension();
+  if (complete || rowsSeen === 0) {
+    return { info: { name, rowCount: rowsSeen, columnCount }, preview };
+  }
+  if (dimension) {
+    const info = { name, rowCount: dimension.e.r + 1, columnCount: dimension.e.c - dimension.s.c + 1 };
+    return { info, preview };
+  }
+  // 表示形式の指定がないシートは、先頭部分の1行あたりの文字数から全体の行数を推定
+  const rowCount = Math.round(rowsSeen * (entry.uncompressedSize / sampleChars));
+  return { info: { name, rowCount, columnCount, estimated: true }, preview };
+}
+
+// 大きなxlsxを逐次読み込み用に開く（シートの中身は読み込まず、行数は推定）
+export async function openStreamingBook(file: File): Promise<ExcelBook> {
+  const entries = await readZipEntries(file);
+  const { sheetPaths, names, date1904 } = await readSheetPaths(file, entries);
+  const source: XlsxStreamSource = {
+    file,
+    entries,
+    sheetPaths,
+    sharedStrings: await readSharedStrings(file, entries),
+    numFmts: parseNumFmts(await readEntryWhole(file, entries, 'xl/styles.xml')),
+    date1904,
+    previews: {},
+  };
+
+  const sheets: SheetInfo[] = [];
+  for (const name of names) {
+    const { info, preview } = await estimateSheet(source, name);
+    sheets.push(info);
+    source.previews[name] = preview;
+  }
+  if (sheets.every(sheet => sheet.rowCount === 0)) {
+    throw new Error('ファイルが空です');
+  }
+
+  return {
+    fileName: file.name,
+    sheets,
+    workbook: { SheetNames: names, Sheets: {} },
+    stream: source,
+  };
+}
+
+// 1行分のメモリ使用量の見積もり（文字列はUTF-16で1文字2バイト）
+function estimateRowBytes(row: string[]): number {
+  let bytes = ROW_OVERHEAD_BYTES;
+  for (const value of row) bytes += CELL_OVERHEAD_BYTES + value.length * 2;
+  return bytes;
+}
+
+const estimateCellBytes = (cells: (CellValue | null)[]): number =>
+  cells.reduce((sum, cell) => sum + (cell ? TYPED_CELL_BYTES : 8), 0);
+
+// 逐次読み込みでシートを表として取得（読み込み設定は getSheetTable と同じ。メモリ上限を超える場合は
+// まず型付きの値を省略し、それでも超える場合はエラー）
+export async function readSheetTableStreaming(
+  book: ExcelBook,
+  sheetName: string,
+  options: ImportOptions,
+  largeFileOptions: LargeFileOptions,
+  onProgress?: (progress: StreamProgress) => void
+): Promise<StreamTableResult> {
+  const source = book.stream;
+  if (!source) {
+    throw new Error(`逐次読み込み用に開いたブックではありません: ${book.fileName}`);
+  }
+  const estimatedRows = book.sheets.find(sheet => sheet.name === sheetName)?.rowCount ?? 0;
+  const budget = largeFileOptions.memoryBudgetMB * MB;
+
+  // ヘッダーの範囲が決まるまでは先頭の行を保持する
+  const headRows: string[][] = [];
+  const headCells: (CellValue | null)[][] = [];
+  let headerRange: HeaderRange | null = null;
+  let dataStart = 0;
+
+  const rows: string[][] = [];
+  let cells: (CellValue | null)[][] | null = [];
+  let textBytes = 0;
+  let cellBytes = 0;
+  let typedCellsDropped = false;
+  let ended = false;
+
+  // ヘッダーの範囲が決められるか（自動検出は先頭 HEADER_DETECT_ROWS 行、それ以外は最初の使用行とヘッダー行まで）
+  const headerReady = (): boolean => {
+    if (options.autoDetectHeader) return headRows.length >= HEADER_DETECT_ROWS;
+    const firstUsed = headRows.findIndex(row => !isBlankRow(row));
+    if (firstUsed === -1) return false;
+    const headerStart = Math.max(options.headerRow - 1, firstUsed);
+    return headRows.length > headerStart + Math.max(1, options.headerRowCount) - 1;
+  };
+
+  // データ行を追加（最初の空行で終了する場合は false）
+  const pushDataRow = (row: string[], cellRow: (CellValue | null)[]): boolean => {
+    if (options.stopAtBlankRow && isBlankRow(row)) {
+      ended = true;
+      return false;
+    }
+    rows.push(row);
+    textBytes += estimateRowBytes(row);
+    if (cells) {
+      cells.push(cellRow);
+      cellBytes += estimateCellBytes(cellRow);
+    }
+    if (textBytes + cellBytes > budget) {
+      if (cells) {
+        cells = null;
+        cellBytes = 0;
+        typedCellsDropped = true;
+      }
+      if (textBytes > budget) {
+        throw new Error(`メモリ上限（${largeFileOptions.memoryBudgetMB}MB）を超えるため読み込めません: ${sheetName}（${rows.length}行まで読み込み済み）`);
+      }
+    }
+    return true;
+  };
+
+  // ヘッダーの範囲を決め、保持していた行のうちデータ行を取り出す
+  const resolveHeader = (): HeaderRange => {
+    const range = resolveHeaderRange(headRows, options);
+    headerRange = range;
+    dataStart = range.headerEnd + 1 + Math.max(0, options.skipRows);
+    for (let r = dataStart; r < headRows.length; r++) {
+      if (!pushDataRow(headRows[r], headCells[r])) break;
+    }
+    return range;
+  };
+
+  const { merges, startColumn, columnCount } = await streamSheetRows(source, sheetName, batch => {
+    for (let i = 0; i < batch.rows.length && !ended; i++) {
+      if (!headerRange) {
+        headRows.push(batch.rows[i]);
+        headCells.push(batch.cells[i]);
+        if (headerReady()) resolveHeader();
+      } else if (batch.startRow + i >= dataStart) {
+        pushDataRow(batch.rows[i], batch.cells[i]);
+      }
+    }
+    const rowsRead = batch.startRow + batch.rows.length;
+    onProgress?.({ rowsRead, estimatedRows: Math.max(estimatedRows, rowsRead) });
+    return !ended;
+  });
+  if (headRows.length === 0) {
+    throw new Error(`シートが空です: ${sheetName}`);
+  }
+
+  const { headerRow, headerStart, headerEnd } = headerRange ?? resolveHeader();
+  if (headerStart >= headRows.length) {
+    throw new Error(`ヘッダー行（${headerRow}行目）がシートの範囲外です: ${sheetName}`);
+  }
+  if (headerEnd > headerStart) {
+    fillMergedCells(merges, headRows, startColumn, headerStart, headerEnd);
+  }
+  const headers = headerEnd > headerStart
+    ? flattenHeaderRows(headRows.slice(headerStart, headerEnd + 1))
+    : [...headRows[headerStart]];
+
+  // 行ごとに列数が異なるため、シートの使用範囲または最も長い行に揃える
+  const width = rows.reduce((max, row) => Math.max(max, row.length), Math.max(headers.length, columnCount));
+  while (headers.length < width) headers.push('');
+  const finalCells: (CellValue | null)[][] | null = cells;
+  rows.forEach((row, r) => {
+    while (row.length < width) row.push('');
+    const cellRow = finalCells?.[r];
+    if (cellRow) {
+      while (cellRow.length < width) cellRow.push(null);
+    }
+  });
+
+  // 文字列セルのみの場合は型付きの値を持たない
+  const hasTypedCells = !!finalCells && finalCells.some(row => row.some(cell => cell !== null));
+  return {
+    data: hasTypedCells ? { headers, rows, cells: finalCells } : { headers, rows },
+    typedCellsDropped,
+  };
+}
@@ -18,6 +18,10 @@ const nextConfig: NextConfig = {
     };
     return config;
   },
+  // APIのルートはWASMをファイルから読み込むため、デプロイ時に含める
+  outputFileTracingIncludes: {
+    "/api/**": ["./excel-merge-wasm/pkg/*.wasm"],
+  },
   // 静的アセットの最適化
   poweredByHeader: false,
   // 圧縮設定
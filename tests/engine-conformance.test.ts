@@ -0,0 +1,36 @@
+// WASMとTypeScript版のエンジンの一致確認（npm test で実行する）
+//
+// ビルド済みのWASM（excel-merge-wasm/pkg）と lib/ts-engine.ts で同じフィクスチャを実行し、
+// 結果・エラーが1件でも異なれば失敗する。列指向のエントリポイントが無い古いビルドは、フィクスチャを実行せずに失敗する
+
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { conformanceFixtures, runConformance, type ConformanceFixture } from '../lib/engine-conformance';
+import { loadNodeWasmModule } from '../lib/server-engine';
+import type { WasmModule } from '../lib/wasm-types';
+
+// dist-test/tests から見たビルド済みのWASM
+const pkgDir = path.resolve(__dirname, '../../excel-merge-wasm/pkg');
+
+// WASMのビルドに無いエントリポイント（古いビルドは compare_files・split_file のみ）
+function missingEntrypoints(wasm: WasmModule, fixtures: ConformanceFixture[]): string[] {
+  const required: (keyof WasmModule)[] = ['compare_columnar', 'split_columnar'];
+  if (fixtures.some(f => f.type === 'multi_compare')) required.push('compare_multi');
+  if (fixtures.some(f => f.type === 'fuzzy_match')) required.push('fuzzy_match');
+  return required.filter(name => !wasm[name]);
+}
+
+test('WASMとTypeScript版の結果が一致する', async t => {
+  const wasm = await loadNodeWasmModule(pkgDir);
+  const missing = missingEntrypoints(wasm, conformanceFixtures);
+  if (missing.length > 0) {
+    assert.fail(`${pkgDir} のWASMが古いため ${missing.join(', ')} がありません。npm run build:wasm で再ビルドしてください`);
+  }
+  for (const fixture of conformanceFixtures) {
+    await t.test(fixture.name, () => {
+      const [result] = runConformance(wasm, [fixture]);
+      assert.ok(result.passed, result.detail);
+    });
+  }
+});